@@ -0,0 +1,397 @@
+// cli/photo-stats.ts
+// Command-line statistics over a photo directory, built on the same engine as the web app.
+//   npm run stats -- <directory> [options]
+import { createHash } from 'node:crypto';
+import { open, readdir, type FileHandle } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import exifr from 'exifr';
+import {
+  defaultCropFactors,
+  defaultLensFactorRules,
+  defaultMakeNames,
+  defaultModelNames,
+  type CropFactorMap,
+  type LensFactorRule,
+} from '../src/cameraData';
+import {
+  CONTENT_SAMPLE_SIZE,
+  DEFAULT_FOCAL_LENGTH_RANGES,
+  DUPLICATE_POLICIES,
+  EXIFR_OPTIONS,
+  FILE_FORMAT_IDS,
+  FOCAL_RANGE_PRESETS,
+  FocalRangeError,
+  GROUP_BY_FIELDS,
+  QueryError,
+  aggregatePhotos,
+  checkFocalLengthRanges,
+  compileQuery,
+  createFileMatcher,
+  createNameNormalizer,
+  crossTabulate,
+  filterPhotos,
+  formatCrossTabCsv,
+  formatCrossTabJson,
+  formatCrossTabTable,
+  formatStatsCsv,
+  formatStatsJson,
+  formatStatsTable,
+  inferCropFactors,
+  isExifCategoryField,
+  isCropFactorMismatch,
+  isFileFormatId,
+  parseFocalLengthRanges,
+  readMediaMetadata,
+  resolveDuplicates,
+  toContentHash,
+  toExifData,
+  toInferredCropFactors,
+  toStatRows,
+  type ByteSource,
+  type ExifCategoryField,
+  type FileFormatId,
+  type NameRule,
+  type PhotoData,
+} from '../src/stats';
+
+const USAGE = `用法: npm run stats -- <資料夾> [選項]
+
+選項:
+  --group-by <欄位>        ${GROUP_BY_FIELDS.join(' | ')} (預設 FocalLength)
+  --breakdown <欄位>       再依第二個欄位細分，輸出交叉表 (可選 ${GROUP_BY_FIELDS.join(' | ')})
+  --focal-mode <模式>      range | continuous (預設 range)
+  --ranges <區間>          焦段區間，語法同網頁版 (預設 "${DEFAULT_FOCAL_LENGTH_RANGES}")，
+                           例如 --ranges "超廣角:<24, 24-70, 70-200, 300+, other"
+  --range-preset <組合>    使用內建的焦段組合: ${FOCAL_RANGE_PRESETS.map(preset => preset.id).join(' | ')}
+  --exposure-mode <模式>   preset | continuous (預設 preset)
+  --aperture-scale <級距>  full | third (預設 full)
+  --time <單位>            day | month | year (預設 month)
+  --crop <型號=倍率>       覆寫相機等效焦段倍率，可重複指定，例如 --crop "ILCE-6700=1.5"
+  --lens-factor <規則>     鏡頭倍率規則「鏡頭[@型號]=倍率」，倍率前加 x 表示乘上機身倍率，可重複指定，
+                           例如 --lens-factor "DT @ILCE-7M4=1.5" 或 --lens-factor "/Speed Booster/=x0.71"
+  --alias <規則>           名稱對照「model|lens:原名稱=顯示名稱」，原名稱可寫 /正規表示式/，可重複指定，
+                           例如 --alias "model:ILCE-7M4=A7 IV" 或 --alias "lens:/24-70mm F2.8 GM/=FE 24-70 GM"
+  --folder <路徑>          只統計指定資料夾，可重複指定
+  --model <名稱>           只統計指定相機 (使用輸出中顯示的名稱)，可重複指定
+  --lens <名稱>            只統計指定鏡頭 (使用輸出中顯示的名稱)，可重複指定
+  --filter <欄位=值>       只統計 EXIF 欄位為指定值的照片，同一欄位可重複指定，值同輸出中的名稱，
+                           "Not recorded" 代表沒有記錄，例如 --filter "Flash=Fired"
+  --duplicates <規則>      ${DUPLICATE_POLICIES.join(' | ')} (預設 frame)：RAW+JPEG 每個畫面只計一次並計 JPEG、
+                           只計一次並優先計 RAW，或全部計入；重複的檔案除 all 外都只計一次
+  --types <格式>           要讀取的檔案類型，以逗號分隔 (預設全部)：
+                           ${FILE_FORMAT_IDS.join(', ')}
+  --media <範圍>           all | photo | video (預設 all)：照片與影片一起計、只計照片或只計影片
+  --query <篩選式>         以篩選式篩選照片，語法同網頁版，例如 --query 'iso > 3200 lens:"70-200" NOT folder:Drafts'
+  --format <格式>          table | json | csv (預設 table)
+  --concurrency <數量>     同時解析的檔案數 (預設 8)
+  -h, --help               顯示此說明
+`;
+
+// Recursively collect the files of the enabled types, recording folder paths the same way the web app does
+const collectFiles = async (
+  dir: string,
+  folderPath: string,
+  isScannedFile: (filename: string) => boolean
+): Promise<{ filePath: string; folderPath: string }[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: { filePath: string; folderPath: string }[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isFile() && isScannedFile(entry.name)) {
+      files.push({ filePath: entryPath, folderPath });
+    } else if (entry.isDirectory()) {
+      files.push(...await collectFiles(entryPath, `${folderPath}/${entry.name}`, isScannedFile));
+    }
+  }
+  return files;
+};
+
+// Bytes of an open file, for videos and RAF files
+const fileByteSource = (file: FileHandle, size: number): ByteSource => ({
+  size,
+  read: async (offset, length) => {
+    const { buffer, bytesRead } = await file.read(Buffer.alloc(length), 0, length, offset);
+    return buffer.subarray(0, bytesRead);
+  },
+});
+
+// Content key of a file, hashed the same way as in the web app
+const hashFile = async (source: ByteSource): Promise<string> =>
+  toContentHash(source.size, createHash('sha1').update(await source.read(0, CONTENT_SAMPLE_SIZE)).digest());
+
+// Parse EXIF for every file with a bounded number of files in flight
+const readPhotos = async (
+  files: { filePath: string; folderPath: string }[],
+  concurrency: number
+): Promise<PhotoData[]> => {
+  const results: (PhotoData | null)[] = new Array(files.length).fill(null);
+  let next = 0;
+  const worker = async () => {
+    while (next < files.length) {
+      const index = next++;
+      const { filePath, folderPath } = files[index];
+      const filename = path.basename(filePath);
+      try {
+        const file = await open(filePath);
+        try {
+          const source = fileByteSource(file, (await file.stat()).size);
+          results[index] = {
+            id: `local-${folderPath}/${filename}`,
+            source: 'local',
+            filename,
+            exif: await readMediaMetadata(filename, source, async embedded =>
+              toExifData(await exifr.parse(embedded ?? filePath, EXIFR_OPTIONS))),
+            folderPath,
+            contentHash: await hashFile(source),
+          };
+        } finally {
+          await file.close();
+        }
+      } catch (e) {
+        console.warn(`無法解析檔案 ${filePath} 的 EXIF:`, e instanceof Error ? e.message : e);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+  return results.filter(Boolean) as PhotoData[];
+};
+
+// Parse "MODEL=FACTOR" overrides on top of the default crop factors
+const parseCropFactors = (overrides: string[]): CropFactorMap => {
+  const cropFactors: CropFactorMap = { ...defaultCropFactors };
+  overrides.forEach(override => {
+    const index = override.lastIndexOf('=');
+    const factor = parseFloat(override.slice(index + 1));
+    if (index <= 0 || isNaN(factor) || factor <= 0) {
+      throw new Error(`無效的倍率設定: ${override}`);
+    }
+    cropFactors[override.slice(0, index)] = factor;
+  });
+  return cropFactors;
+};
+
+// Parse "LENS[@MODEL]=FACTOR" rules (FACTOR "xN" multiplies the body's crop factor); they take
+// precedence over the built-in rules
+const parseLensFactorRules = (rules: string[]): LensFactorRule[] => [
+  ...rules.map((rule, i): LensFactorRule => {
+    const index = rule.lastIndexOf('=');
+    const value = rule.slice(index + 1).trim();
+    const multiply = /^x/i.test(value);
+    const factor = parseFloat(multiply ? value.slice(1) : value);
+    const target = rule.slice(0, index);
+    const at = target.lastIndexOf('@');
+    const lens = (at >= 0 ? target.slice(0, at) : target).trim();
+    if (index <= 0 || !lens || isNaN(factor) || factor <= 0) {
+      throw new Error(`無效的鏡頭倍率規則: ${rule}`);
+    }
+    return {
+      id: `cli-${i + 1}`,
+      lens,
+      model: at >= 0 ? target.slice(at + 1).trim() || undefined : undefined,
+      factor,
+      mode: multiply ? 'multiply' : 'replace',
+    };
+  }),
+  ...defaultLensFactorRules,
+];
+
+// Parse "model:MATCH=NAME" and "lens:MATCH=NAME" alias rules
+const parseNameRules = (rules: string[]): NameRule[] =>
+  rules.map((rule, i) => {
+    const match = rule.match(/^(model|lens):(.+)=(.+)$/);
+    if (!match) {
+      throw new Error(`無效的名稱對照規則: ${rule}`);
+    }
+    return { id: `cli-${i + 1}`, field: match[1] as NameRule['field'], match: match[2].trim(), name: match[3].trim() };
+  });
+
+// Parse "FIELD=VALUE" filters on the additional EXIF fields; values of one field are alternatives
+const parseFieldFilters = (filters: string[]): Partial<Record<ExifCategoryField, string[]>> => {
+  const fields: Partial<Record<ExifCategoryField, string[]>> = {};
+  filters.forEach(filter => {
+    const index = filter.indexOf('=');
+    const field = filter.slice(0, index);
+    if (index <= 0 || !isExifCategoryField(field)) {
+      throw new Error(`無效的篩選條件: ${filter}`);
+    }
+    fields[field] = [...(fields[field] ?? []), filter.slice(index + 1)];
+  });
+  return fields;
+};
+
+// Parse the comma-separated --types list
+const parseFileFormats = (text: string | undefined): FileFormatId[] => {
+  if (text === undefined) return FILE_FORMAT_IDS;
+  return text.split(',').map(id => id.trim().toLowerCase()).filter(Boolean).map(id => {
+    if (!isFileFormatId(id)) {
+      throw new Error(`未知的檔案類型: ${id}，可用 ${FILE_FORMAT_IDS.join(', ')}`);
+    }
+    return id;
+  });
+};
+
+// Check the focal length ranges, pointing at an error below the text and printing overlap and gap warnings
+const parseRanges = (text: string): string => {
+  try {
+    checkFocalLengthRanges(parseFocalLengthRanges(text)).forEach(warning => console.warn(`警告: ${warning.message}`));
+    return text;
+  } catch (e) {
+    if (e instanceof FocalRangeError) {
+      throw new Error(`無效的焦段區間: ${e.message}\n  ${text}\n  ${' '.repeat(e.start)}${'^'.repeat(e.end - e.start)}`);
+    }
+    throw e;
+  }
+};
+
+// Compile the --query expression, pointing at the error below the expression
+const parseQuery = (text: string | undefined) => {
+  try {
+    return text === undefined ? undefined : compileQuery(text);
+  } catch (e) {
+    if (e instanceof QueryError) {
+      throw new Error(`無效的篩選式: ${e.message}\n  ${text}\n  ${' '.repeat(e.start)}${'^'.repeat(e.end - e.start)}`);
+    }
+    throw e;
+  }
+};
+
+// Ensure an option value is one of the allowed choices
+const oneOf = <T extends string>(name: string, value: string, choices: readonly T[]): T => {
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new Error(`--${name} 必須是 ${choices.join(' | ')} 其中之一，收到 "${value}"`);
+  }
+  return value as T;
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'group-by': { type: 'string', default: 'FocalLength' },
+      breakdown: { type: 'string' },
+      'focal-mode': { type: 'string', default: 'range' },
+      ranges: { type: 'string' },
+      'range-preset': { type: 'string' },
+      'exposure-mode': { type: 'string', default: 'preset' },
+      'aperture-scale': { type: 'string', default: 'full' },
+      time: { type: 'string', default: 'month' },
+      crop: { type: 'string', multiple: true, default: [] },
+      'lens-factor': { type: 'string', multiple: true, default: [] },
+      alias: { type: 'string', multiple: true, default: [] },
+      folder: { type: 'string', multiple: true },
+      model: { type: 'string', multiple: true },
+      lens: { type: 'string', multiple: true },
+      filter: { type: 'string', multiple: true, default: [] },
+      query: { type: 'string' },
+      types: { type: 'string' },
+      media: { type: 'string', default: 'all' },
+      duplicates: { type: 'string', default: 'frame' },
+      format: { type: 'string', default: 'table' },
+      concurrency: { type: 'string', default: '8' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    process.stdout.write(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const groupBy = oneOf('group-by', values['group-by'], GROUP_BY_FIELDS);
+  const breakdownBy = values.breakdown === undefined ? undefined : oneOf('breakdown', values.breakdown, GROUP_BY_FIELDS);
+  if (breakdownBy === groupBy) {
+    throw new Error('--breakdown 必須與 --group-by 不同');
+  }
+  const format = oneOf('format', values.format, ['table', 'json', 'csv'] as const);
+  const query = parseQuery(values.query);
+  if (values.ranges !== undefined && values['range-preset'] !== undefined) {
+    throw new Error('--ranges 與 --range-preset 只能擇一');
+  }
+  const rangePreset = values['range-preset'] === undefined
+    ? undefined
+    : oneOf('range-preset', values['range-preset'], FOCAL_RANGE_PRESETS.map(preset => preset.id));
+  const focalLengthRanges = parseRanges(
+    values.ranges ?? FOCAL_RANGE_PRESETS.find(preset => preset.id === rangePreset)?.ranges ?? DEFAULT_FOCAL_LENGTH_RANGES
+  );
+  const duplicatePolicy = oneOf('duplicates', values.duplicates, DUPLICATE_POLICIES);
+  const isScannedFile = createFileMatcher(parseFileFormats(values.types));
+  const media = oneOf('media', values.media, ['all', 'photo', 'video'] as const);
+  const rootDir = path.resolve(positionals[0]);
+
+  const files = await collectFiles(rootDir, path.basename(rootDir), isScannedFile);
+  console.error(`找到 ${files.length} 個照片與影片檔案，正在解析 EXIF...`);
+  const duplicates = resolveDuplicates(await readPhotos(files, parseInt(values.concurrency, 10) || 8), duplicatePolicy);
+  const { photos } = duplicates;
+  if (duplicates.rawPairs > 0 || duplicates.copies > 0) {
+    console.error(`找到 ${duplicates.rawPairs} 組 RAW+JPEG 與 ${duplicates.copies} 個重複檔案，${duplicates.hidden} 個檔案未計入 (--duplicates ${duplicatePolicy})`);
+  }
+
+  // Entered and built-in factors win; models missing from both use the factor implied by their EXIF
+  const cropFactors = parseCropFactors(values.crop);
+  const inferences = inferCropFactors(photos);
+  inferences.forEach(inference => {
+    if (isCropFactorMismatch(cropFactors[inference.model], inference)) {
+      console.warn(`警告: ${inference.model} 的倍率設定為 ${cropFactors[inference.model]}，但 EXIF 推算約為 ${inference.factor}`);
+    }
+  });
+
+  const names = createNameNormalizer(photos, {
+    makeNames: defaultMakeNames,
+    modelNames: defaultModelNames,
+    rules: parseNameRules(values.alias),
+  });
+  const filteredPhotos = filterPhotos(photos, {
+    folders: values.folder,
+    models: values.model,
+    lenses: values.lens,
+    fields: {
+      ...parseFieldFilters(values.filter),
+      ...(media === 'all' ? {} : { MediaType: [media === 'video' ? 'Video' : 'Photo'] }),
+    },
+    query,
+  }, names);
+  const aggregateOptions = {
+    groupBy,
+    cropFactors: { ...toInferredCropFactors(inferences), ...cropFactors },
+    lensFactorRules: parseLensFactorRules(values['lens-factor']),
+    names,
+    focalLengthMode: oneOf('focal-mode', values['focal-mode'], ['range', 'continuous'] as const),
+    focalLengthRanges,
+    exposureMode: oneOf('exposure-mode', values['exposure-mode'], ['preset', 'continuous'] as const),
+    apertureScale: oneOf('aperture-scale', values['aperture-scale'], ['full', 'third'] as const),
+    timeGranularity: oneOf('time', values.time, ['day', 'month', 'year'] as const),
+  };
+
+  if (breakdownBy) {
+    const crossTab = crossTabulate(filteredPhotos, aggregateOptions, breakdownBy);
+    if (!crossTab) {
+      console.error('沒有可統計的照片。');
+      return;
+    }
+    const formatters = { json: formatCrossTabJson, csv: formatCrossTabCsv, table: formatCrossTabTable };
+    process.stdout.write(formatters[format](crossTab));
+    return;
+  }
+
+  const result = aggregatePhotos(filteredPhotos, aggregateOptions);
+  const rows = result ? toStatRows(result) : [];
+
+  switch (format) {
+    case 'json':
+      process.stdout.write(formatStatsJson(rows));
+      break;
+    case 'csv':
+      process.stdout.write(formatStatsCsv(rows));
+      break;
+    case 'table':
+      process.stdout.write(formatStatsTable(rows));
+      break;
+  }
+};
+
+main().catch(e => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
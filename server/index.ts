@@ -1,58 +1,38 @@
 import express, { Request, Response } from 'express';
-import fetch from 'node-fetch';
 import cors from 'cors';
-import https from 'https';
+import { handleSynologyRequest, METHOD_NOT_ALLOWED } from './synology';
 
 const app = express();
 const port = 3000;
 
-app.use(cors());
-app.use(express.json());
+// Only the front end may call the API from a browser: CORS_ORIGINS is a comma-separated list of
+// origins, by default the Vite dev and preview servers (which proxy /api and need no CORS anyway)
+const corsOrigins = (process.env.CORS_ORIGINS || 'http://localhost:5173,http://localhost:4173')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean);
 
-// Create an HTTPS agent that ignores self-signed certificate errors
-const agent = new https.Agent({
-    rejectUnauthorized: false
-});
+app.use(cors({ origin: corsOrigins }));
+app.use(express.json());
 
-// Synology Login Endpoint
-app.post('/api/synology-login', async (req: Request, res: Response) => {
-    const { host, account, password } = req.body;
-    try {
-        const loginUrl = `${host}/photo/webapi/auth.cgi?api=SYNO.PhotoStation.Auth&method=login&version=1&account=${account}&passwd=${password}&format=sid`;
-        // Use the custom HTTPS agent
-        const response = await fetch(loginUrl, { agent });
-        const data: any = await response.json();
-        // Handle the response based on success or failure
-        if (data.success) {
-            res.status(200).json({ success: true, sid: data.data.sid });
-        } else {
-            if (data.error && data.error.code === 400) {
-                res.status(401).json({ success: false, message: '需要二階段驗證碼。' });
-            } else {
-                res.status(401).json({ success: false, message: data.error?.message || '登入失敗。' });
-            }
-        }
-    } catch (error) {
-        console.error('登入失敗:', error);
-        res.status(500).json({ success: false, message: '伺服器內部錯誤，請檢查NAS位址。' });
-    }
-});
+// Every Synology route is a thin wrapper over synology.ts, so they answer exactly like the Vercel function
+const respond = async (req: Request, res: Response, request: unknown) => {
+    const { status, body } = await handleSynologyRequest(request, req.ip);
+    res.status(status).json(body);
+};
 
-// Synology Logout Endpoint
-app.post('/api/synology-logout', async (req: Request, res: Response) => {
-    const { host, sid } = req.body;
-    try {
-        const logoutUrl = `${host}/photo/webapi/auth.cgi?api=SYNO.PhotoStation.Auth&method=logout&version=1&sid=${sid}`;
-        await fetch(logoutUrl, { agent });
-        res.status(200).json({ success: true, message: '登出成功。' });
-    } catch (error) {
-        console.error('登出失敗:', error);
-        res.status(500).json({ success: false, message: '登出時發生錯誤。' });
+// Synology proxy: login, album/folder listing and paged item listing, for Synology Photos or Photo Station
+app.all('/api/synology', async (req: Request, res: Response) => {
+    if (req.method !== 'POST') {
+        res.status(METHOD_NOT_ALLOWED.status).json(METHOD_NOT_ALLOWED.body);
+        return;
     }
+    await respond(req, res, req.body);
 });
 
-app.post('/api/synology', async (req: Request, res: Response) => {
-});
+// Older single-purpose endpoints, kept as aliases of the login and logout actions
+app.post('/api/synology-login', (req: Request, res: Response) => respond(req, res, { ...req.body, action: 'login' }));
+app.post('/api/synology-logout', (req: Request, res: Response) => respond(req, res, { ...req.body, action: 'logout' }));
 
 // Start the server
 app.listen(port, () => {
@@ -0,0 +1,288 @@
+// server/mock-synology.ts
+// A stand-in for a Synology NAS running Synology Photos, for developing and testing the
+// Synology source offline. Log in with demo / demo, or with otp / otp to go through
+// two-factor login (the code is always 123456), or with redirect / redirect to get a 307
+// redirect instead of an answer, which the proxy must refuse; run with `npm run mock-synology` and
+// enter http://localhost:5050 as the NAS address. Set MOCK_SYNOLOGY_BACKEND=photostation
+// to pose as a DSM 6 NAS running Photo Station instead.
+import http from 'http';
+import { randomBytes } from 'crypto';
+
+const port = Number(process.env.MOCK_SYNOLOGY_PORT) || 5050;
+const isPhotoStation = process.env.MOCK_SYNOLOGY_BACKEND === 'photostation';
+const ACCOUNT = 'demo';
+const PASSWORD = 'demo';
+const OTP_ACCOUNT = 'otp';
+const OTP_PASSWORD = 'otp';
+const OTP_CODE = '123456';
+const REDIRECT_ACCOUNT = 'redirect';
+
+interface MockItem {
+    id: number;
+    filename: string;
+    folder_id: number;
+    albumIds: number[];
+    time: number;
+    type: string;
+    additional: { exif: Record<string, string> };
+}
+
+const cameras = [
+    { camera: 'ILCE-7M4', lenses: ['FE 24-70mm F2.8 GM II', 'FE 70-200mm F2.8 GM OSS II', 'FE 35mm F1.8'] },
+    { camera: 'ILCE-6700', lenses: ['E 70-350mm F4.5-6.3 G OSS', 'E 16-55mm F2.8 G'] },
+    { camera: 'iPhone 15 Pro', lenses: ['iPhone 15 Pro back triple camera 6.86mm f/1.78'] },
+];
+const apertures = ['f/1.8', 'f/2.8', 'f/4', 'f/5.6', 'f/8'];
+const shutterSpeeds = ['1/1000 s', '1/250 s', '1/60 s', '1/8 s', '2 s'];
+const isos = ['100', '200', '400', '1600', '6400'];
+
+const folders = [
+    { id: 1, name: '/', parent: 0 },
+    { id: 2, name: '/2023', parent: 1 },
+    { id: 3, name: '/2024', parent: 1 },
+    { id: 4, name: '/2024/Birds', parent: 3 },
+];
+const albums = [
+    { id: 1, name: '2023 日本旅行' },
+    { id: 2, name: '2024 台灣' },
+    { id: 3, name: '野鳥' },
+];
+
+// Deterministic pseudo-random numbers so every run serves the same library
+let seed = 42;
+const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+};
+const pick = <T>(list: T[]): T => list[Math.floor(random() * list.length)];
+
+// 1,300 photos spread over the folders; album 1 is large enough to need several pages
+const items: MockItem[] = Array.from({ length: 1300 }, (_, i) => {
+    const id = i + 1;
+    const folderId = id <= 800 ? 2 : id <= 1200 ? 3 : 4;
+    const body = pick(cameras);
+    const lens = pick(body.lenses);
+    const focal = lens.match(/\b(\d+)(?:-(\d+))?mm F/);
+    const focalLength = focal
+        ? Math.round(Number(focal[1]) + random() * (Number(focal[2] || focal[1]) - Number(focal[1])))
+        : 7;
+    return {
+        id,
+        filename: `DSC${id.toString().padStart(5, '0')}.${body.camera.startsWith('iPhone') ? 'HEIC' : 'JPG'}`,
+        folder_id: folderId,
+        albumIds: folderId === 2 ? [1] : folderId === 3 ? [2] : [2, 3],
+        time: Date.UTC(folderId === 2 ? 2023 : 2024, Math.floor(random() * 12), 1 + Math.floor(random() * 28), Math.floor(random() * 24)) / 1000,
+        type: 'photo',
+        additional: {
+            exif: {
+                camera: body.camera,
+                lens,
+                aperture: pick(apertures),
+                exposure_time: pick(shutterSpeeds),
+                focal_length: `${focalLength} mm`,
+                iso: pick(isos),
+            },
+        },
+    };
+});
+
+const sessions = new Set<string>();
+const trustedDevices = new Set<string>();
+
+const send = (res: http.ServerResponse, body: object) => {
+    res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+};
+const success = (res: http.ServerResponse, data: object) => send(res, { success: true, data });
+const failure = (res: http.ServerResponse, code: number) => send(res, { success: false, error: { code } });
+
+// Slice a list like the list methods of SYNO.Foto.Browse.*
+const page = <T>(list: T[], params: URLSearchParams) => {
+    const offset = Number(params.get('offset')) || 0;
+    const limit = Number(params.get('limit')) || 100;
+    return list.slice(offset, offset + limit);
+};
+
+// SYNO.API.Info answers with the requested APIs that this NAS serves
+const dsmApis: { [api: string]: string } = isPhotoStation
+    ? { 'SYNO.API.Auth': 'auth.cgi' }
+    : {
+        'SYNO.API.Auth': 'auth.cgi',
+        'SYNO.Foto.Browse.Album': 'entry.cgi',
+        'SYNO.Foto.Browse.Folder': 'entry.cgi',
+        'SYNO.Foto.Browse.Item': 'entry.cgi',
+    };
+const photoStationApis: { [api: string]: string } = {
+    'SYNO.PhotoStation.Auth': 'auth.php',
+    'SYNO.PhotoStation.Album': 'album.php',
+};
+
+const handleInfo = (res: http.ServerResponse, params: URLSearchParams, apis: { [api: string]: string }) => {
+    const data: { [api: string]: object } = {};
+    (params.get('query') || '').split(',').forEach(api => {
+        if (apis[api]) data[api] = { path: apis[api], minVersion: 1, maxVersion: 7 };
+    });
+    return success(res, data);
+};
+
+const handleAuth = (res: http.ServerResponse, params: URLSearchParams) => {
+    if (params.get('method') === 'login') {
+        const account = params.get('account');
+        // A 307 keeps the method and body, so a client that follows it posts the password again
+        if (account === REDIRECT_ACCOUNT) {
+            res.writeHead(307, { Location: `http://127.0.0.1:${port}/redirected` });
+            return res.end();
+        }
+        const password = params.get('passwd');
+        const isOtpAccount = account === OTP_ACCOUNT && password === OTP_PASSWORD;
+        if (!isOtpAccount && (account !== ACCOUNT || password !== PASSWORD)) {
+            return failure(res, 400);
+        }
+        if (isOtpAccount && !trustedDevices.has(params.get('device_id') || '')) {
+            const otpCode = params.get('otp_code');
+            if (!otpCode) return failure(res, 403);
+            if (otpCode !== OTP_CODE) return failure(res, 404);
+        }
+        const sid = randomBytes(12).toString('hex');
+        sessions.add(sid);
+        if (params.get('enable_device_token') === 'yes') {
+            const did = randomBytes(12).toString('hex');
+            trustedDevices.add(did);
+            return success(res, { sid, did });
+        }
+        return success(res, { sid });
+    }
+    if (params.get('method') === 'logout') {
+        sessions.delete(params.get('_sid') || params.get('sid') || '');
+        return success(res, {});
+    }
+    return failure(res, 103);
+};
+
+const handleEntry = (res: http.ServerResponse, params: URLSearchParams) => {
+    if (!sessions.has(params.get('_sid') || '')) {
+        return failure(res, 119);
+    }
+    const api = params.get('api');
+    const method = params.get('method');
+    if (api === 'SYNO.Foto.Browse.Album' && method === 'list') {
+        const list = albums.map(album => ({
+            ...album,
+            item_count: items.filter(item => item.albumIds.includes(album.id)).length,
+        }));
+        return success(res, { list: page(list, params) });
+    }
+    if (api === 'SYNO.Foto.Browse.Folder' && method === 'get') {
+        return success(res, { folder: folders[0] });
+    }
+    if (api === 'SYNO.Foto.Browse.Folder' && method === 'list') {
+        const parent = Number(params.get('id'));
+        return success(res, { list: page(folders.filter(folder => folder.parent === parent), params) });
+    }
+    if (api === 'SYNO.Foto.Browse.Item' && method === 'list') {
+        const albumId = Number(params.get('album_id'));
+        const folderId = Number(params.get('folder_id'));
+        const list = items
+            .filter(item => (albumId ? item.albumIds.includes(albumId) : item.folder_id === folderId))
+            .map(item => ({
+                id: item.id,
+                filename: item.filename,
+                folder_id: item.folder_id,
+                time: item.time,
+                type: item.type,
+                additional: item.additional,
+            }));
+        return success(res, { list: page(list, params) });
+    }
+    return failure(res, 102);
+};
+
+// Photo Station ids name the folder of an album: album_<hex of its path without the leading slash>
+const photoStationId = (prefix: string, path: string) => `${prefix}_${Buffer.from(path).toString('hex')}`;
+const sharePath = (folder: { name: string }) => folder.name.replace(/^\//, '');
+
+// SYNO.PhotoStation.Album list: the sub-albums (folders) or the photos of an album
+const handlePhotoStationAlbum = (res: http.ServerResponse, params: URLSearchParams, sid: string) => {
+    if (!sessions.has(sid)) {
+        return failure(res, 106);
+    }
+    const id = params.get('id');
+    const folder = id ? folders.find(candidate => photoStationId('album', sharePath(candidate)) === id) : folders[0];
+    if (!folder) {
+        return failure(res, 101);
+    }
+    const entries: object[] = params.get('type') === 'album'
+        ? folders.filter(child => child.parent === folder.id).map(child => ({
+            id: photoStationId('album', sharePath(child)),
+            type: 'album',
+            info: { name: child.name.split('/').pop(), title: child.name.split('/').pop(), sharepath: sharePath(child) },
+        }))
+        : items.filter(item => item.folder_id === folder.id).map(item => {
+            const exif = item.additional.exif;
+            return {
+                id: photoStationId('photo', `${sharePath(folder)}_${item.filename}`),
+                type: 'photo',
+                info: {
+                    name: item.filename,
+                    title: item.filename.replace(/\.[^.]+$/, ''),
+                    takendate: new Date(item.time * 1000).toISOString().slice(0, 19).replace('T', ' '),
+                },
+                additional: {
+                    photo_exif: {
+                        camera: exif.camera,
+                        lens: exif.lens,
+                        aperture: exif.aperture,
+                        exposure: exif.exposure_time.replace(' s', ''),
+                        focal_length: exif.focal_length,
+                        iso: exif.iso,
+                    },
+                },
+            };
+        });
+    const offset = Number(params.get('offset')) || 0;
+    return success(res, { items: page(entries, params), total: entries.length, offset });
+};
+
+const sessionCookie = (req: http.IncomingMessage) => req.headers.cookie?.match(/PHPSESSID=([^;]+)/)?.[1] || '';
+
+const route = (req: http.IncomingMessage, res: http.ServerResponse, pathname: string, params: URLSearchParams) => {
+    console.log(`${req.method} ${pathname} ${params.get('api')} ${params.get('method')}`);
+    if (pathname === '/webapi/query.cgi') {
+        return handleInfo(res, params, dsmApis);
+    }
+    if (pathname === '/webapi/auth.cgi') {
+        return handleAuth(res, params);
+    }
+    if (pathname === '/webapi/entry.cgi' && !isPhotoStation) {
+        return handleEntry(res, params);
+    }
+    if (pathname === '/redirected') {
+        console.warn(`警告: 轉址被跟隨了，收到的參數: ${Array.from(params.keys()).join(', ')}`);
+        return failure(res, 400);
+    }
+    if (pathname.startsWith('/photo/webapi/') && isPhotoStation) {
+        const file = pathname.slice('/photo/webapi/'.length);
+        if (file === 'query.php') return handleInfo(res, params, photoStationApis);
+        if (file === 'auth.php') {
+            // Photo Station reads the session from the PHPSESSID cookie
+            params.set('sid', sessionCookie(req));
+            return handleAuth(res, params);
+        }
+        if (file === 'album.php') return handlePhotoStationAlbum(res, params, sessionCookie(req));
+    }
+    res.writeHead(404);
+    res.end();
+};
+
+// Like DSM, accept parameters in the query string or in a form-encoded POST body
+http.createServer((req, res) => {
+    const url = new URL(req.url || '/', `http://localhost:${port}`);
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+        new URLSearchParams(Buffer.concat(chunks).toString()).forEach((value, key) => url.searchParams.set(key, value));
+        route(req, res, url.pathname, url.searchParams);
+    });
+}).listen(port, () => {
+    console.log(`模擬 Synology NAS（${isPhotoStation ? 'Photo Station' : 'Synology Photos'}）已啟動: http://localhost:${port}（帳號 ${ACCOUNT} / 密碼 ${PASSWORD}）`);
+});
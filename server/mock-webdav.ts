@@ -0,0 +1,315 @@
+// server/mock-webdav.ts
+// A stand-in for a Nextcloud / WebDAV share, for developing and testing the WebDAV source offline.
+// It serves a generated library of JPEGs with real EXIF headers, or the files below
+// MOCK_WEBDAV_ROOT when set. Run with `npm run mock-webdav`, then connect to
+// http://localhost:5080/remote.php/dav/files/demo/ as demo / demo. Every GET is logged with the
+// byte range it asked for, so it is easy to check that only the EXIF headers are downloaded.
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+
+const port = Number(process.env.MOCK_WEBDAV_PORT) || 5080;
+const ACCOUNT = 'demo';
+const PASSWORD = 'demo';
+// Nextcloud serves each user's files below this path
+const SHARE_PREFIX = '/remote.php/dav/files/demo';
+
+interface Entry {
+    name: string;
+    isDirectory: boolean;
+    size: number;
+}
+
+// Where the files come from: the generated library or a directory on disk
+interface FileStore {
+    list: (dirPath: string) => Entry[] | undefined;
+    stat: (filePath: string) => Entry | undefined;
+    read: (filePath: string, start: number, end: number) => Buffer;
+}
+
+/*
+ * A minimal EXIF writer: a little-endian TIFF block with IFD0 (Make, Model, pointer to the
+ * Exif IFD) and an Exif IFD with the fields the statistics use.
+ */
+type TiffField =
+    | { tag: number; type: 'ascii'; value: string }
+    | { tag: number; type: 'short' | 'long'; value: number }
+    | { tag: number; type: 'rational'; value: [number, number] };
+
+const encodeIfd = (fields: TiffField[], offset: number): Buffer => {
+    const size = 2 + fields.length * 12 + 4;
+    const ifd = Buffer.alloc(size);
+    const data: Buffer[] = [];
+    let dataOffset = offset + size;
+    const addData = (bytes: Buffer) => {
+        const padded = bytes.length % 2 ? Buffer.concat([bytes, Buffer.alloc(1)]) : bytes;
+        data.push(padded);
+        const at = dataOffset;
+        dataOffset += padded.length;
+        return at;
+    };
+    ifd.writeUInt16LE(fields.length, 0);
+    [...fields].sort((a, b) => a.tag - b.tag).forEach((field, i) => {
+        const at = 2 + i * 12;
+        ifd.writeUInt16LE(field.tag, at);
+        if (field.type === 'ascii') {
+            const bytes = Buffer.from(`${field.value}\0`, 'latin1');
+            ifd.writeUInt16LE(2, at + 2);
+            ifd.writeUInt32LE(bytes.length, at + 4);
+            if (bytes.length <= 4) bytes.copy(ifd, at + 8);
+            else ifd.writeUInt32LE(addData(bytes), at + 8);
+        } else if (field.type === 'rational') {
+            const bytes = Buffer.alloc(8);
+            bytes.writeUInt32LE(field.value[0], 0);
+            bytes.writeUInt32LE(field.value[1], 4);
+            ifd.writeUInt16LE(5, at + 2);
+            ifd.writeUInt32LE(1, at + 4);
+            ifd.writeUInt32LE(addData(bytes), at + 8);
+        } else {
+            ifd.writeUInt16LE(field.type === 'short' ? 3 : 4, at + 2);
+            ifd.writeUInt32LE(1, at + 4);
+            if (field.type === 'short') ifd.writeUInt16LE(field.value, at + 8);
+            else ifd.writeUInt32LE(field.value, at + 8);
+        }
+    });
+    ifd.writeUInt32LE(0, size - 4);
+    return Buffer.concat([ifd, ...data]);
+};
+
+interface PhotoExif {
+    make: string;
+    model: string;
+    lens: string;
+    exposure: [number, number];
+    fNumber: [number, number];
+    iso: number;
+    focalLength: number;
+    focalLength35: number;
+    date: string;
+}
+
+// A JPEG with an EXIF header followed by `bodySize` bytes of stand-in image data
+const makeJpeg = (exif: PhotoExif, bodySize: number): Buffer => {
+    const exifFields: TiffField[] = [
+        { tag: 0x829a, type: 'rational', value: exif.exposure },
+        { tag: 0x829d, type: 'rational', value: exif.fNumber },
+        { tag: 0x8827, type: 'short', value: exif.iso },
+        { tag: 0x9003, type: 'ascii', value: exif.date },
+        { tag: 0x920a, type: 'rational', value: [exif.focalLength * 10, 10] },
+        { tag: 0xa405, type: 'short', value: exif.focalLength35 },
+        { tag: 0xa434, type: 'ascii', value: exif.lens },
+    ];
+    const ifd0 = (exifOffset: number): TiffField[] => [
+        { tag: 0x010f, type: 'ascii', value: exif.make },
+        { tag: 0x0110, type: 'ascii', value: exif.model },
+        { tag: 0x8769, type: 'long', value: exifOffset },
+    ];
+    const ifd0Size = encodeIfd(ifd0(0), 8).length;
+    const tiffHeader = Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]);
+    const tiff = Buffer.concat([tiffHeader, encodeIfd(ifd0(8 + ifd0Size), 8), encodeIfd(exifFields, 8 + ifd0Size)]);
+    const app1 = Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]);
+    const app1Header = Buffer.from([0xff, 0xe1, 0, 0]);
+    app1Header.writeUInt16BE(app1.length + 2, 2);
+    // Start of scan, then filler standing in for the compressed image
+    const scanHeader = Buffer.from([0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3f, 0x00]);
+    return Buffer.concat([Buffer.from([0xff, 0xd8]), app1Header, app1, scanHeader, Buffer.alloc(bodySize, 0x55), Buffer.from([0xff, 0xd9])]);
+};
+
+// Deterministic pseudo-random numbers so every run serves the same library
+let seed = 7;
+const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+};
+const pick = <T>(list: T[]): T => list[Math.floor(random() * list.length)];
+
+const bodies = [
+    { make: 'FUJIFILM', model: 'X-T5', crop: 1.5, lenses: [{ name: 'XF16-55mmF2.8 R LM WR', min: 16, max: 55 }, { name: 'XF70-300mmF4-5.6 R LM OIS WR', min: 70, max: 300 }] },
+    { make: 'Canon', model: 'Canon EOS R6', crop: 1, lenses: [{ name: 'RF24-105mm F4 L IS USM', min: 24, max: 105 }, { name: 'RF50mm F1.8 STM', min: 50, max: 50 }] },
+];
+
+// Folders of the generated library and how many photos each holds; names exercise URL encoding
+const generatedFolders: { path: string; photos: number }[] = [
+    { path: '/Photos', photos: 0 },
+    { path: '/Photos/2023 京都', photos: 24 },
+    { path: '/Photos/2024', photos: 18 },
+    { path: '/Photos/2024/Birds & Wildlife', photos: 12 },
+];
+
+const createGeneratedStore = (): FileStore => {
+    const files = new Map<string, Buffer>();
+    generatedFolders.forEach(folder => {
+        for (let i = 1; i <= folder.photos; i++) {
+            const body = pick(bodies);
+            const lens = pick(body.lenses);
+            const focalLength = Math.round(lens.min + random() * (lens.max - lens.min));
+            const year = folder.path.includes('2023') ? 2023 : 2024;
+            const pad = (value: number) => value.toString().padStart(2, '0');
+            const date = `${year}:${pad(1 + Math.floor(random() * 12))}:${pad(1 + Math.floor(random() * 28))} ${pad(Math.floor(random() * 24))}:${pad(Math.floor(random() * 60))}:00`;
+            files.set(`${folder.path}/DSCF${i.toString().padStart(4, '0')}.JPG`, makeJpeg({
+                make: body.make,
+                model: body.model,
+                lens: lens.name,
+                exposure: pick([[1, 1000], [1, 250], [1, 60], [1, 8]]),
+                fNumber: pick([[28, 10], [4, 1], [56, 10], [8, 1]]),
+                iso: pick([100, 400, 1600, 6400]),
+                focalLength,
+                focalLength35: Math.round(focalLength * body.crop),
+                date,
+            }, 300 * 1024));
+        }
+    });
+    files.set('/Photos/notes.txt', Buffer.from('Not a photo.\n'));
+
+    const directories = new Set(['/', ...generatedFolders.map(folder => folder.path)]);
+    const parentOf = (entryPath: string) => entryPath.slice(0, entryPath.lastIndexOf('/')) || '/';
+    const nameOf = (entryPath: string) => entryPath.slice(entryPath.lastIndexOf('/') + 1);
+    return {
+        list: dirPath => {
+            if (!directories.has(dirPath)) return undefined;
+            const subdirectories = Array.from(directories).filter(dir => dir !== '/' && parentOf(dir) === dirPath);
+            const dirFiles = Array.from(files.keys()).filter(file => parentOf(file) === dirPath);
+            return [
+                ...subdirectories.map(dir => ({ name: nameOf(dir), isDirectory: true, size: 0 })),
+                ...dirFiles.map(file => ({ name: nameOf(file), isDirectory: false, size: files.get(file)?.length ?? 0 })),
+            ];
+        },
+        stat: entryPath => {
+            if (directories.has(entryPath)) return { name: nameOf(entryPath), isDirectory: true, size: 0 };
+            const file = files.get(entryPath);
+            return file ? { name: nameOf(entryPath), isDirectory: false, size: file.length } : undefined;
+        },
+        read: (filePath, start, end) => (files.get(filePath) ?? Buffer.alloc(0)).subarray(start, end + 1),
+    };
+};
+
+const createDirectoryStore = (root: string): FileStore => {
+    // Resolve a share path inside the root, refusing anything that escapes it
+    const resolve = (sharePath: string) => {
+        const resolved = path.resolve(root, `.${sharePath}`);
+        return resolved === root || resolved.startsWith(`${root}${path.sep}`) ? resolved : undefined;
+    };
+    const stat = (sharePath: string): Entry | undefined => {
+        const resolved = resolve(sharePath);
+        if (!resolved || !fs.existsSync(resolved)) return undefined;
+        const stats = fs.statSync(resolved);
+        return { name: path.basename(resolved), isDirectory: stats.isDirectory(), size: stats.size };
+    };
+    return {
+        list: dirPath => {
+            const resolved = resolve(dirPath);
+            if (!resolved || !stat(dirPath)?.isDirectory) return undefined;
+            return fs.readdirSync(resolved)
+                .map(name => stat(`${dirPath.replace(/\/$/, '')}/${name}`))
+                .filter((entry): entry is Entry => !!entry);
+        },
+        stat,
+        read: (filePath, start, end) => {
+            const buffer = Buffer.alloc(Math.max(0, end - start + 1));
+            const fd = fs.openSync(resolve(filePath) as string, 'r');
+            try {
+                const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, start);
+                return buffer.subarray(0, bytesRead);
+            } finally {
+                fs.closeSync(fd);
+            }
+        },
+    };
+};
+
+const store = process.env.MOCK_WEBDAV_ROOT
+    ? createDirectoryStore(path.resolve(process.env.MOCK_WEBDAV_ROOT))
+    : createGeneratedStore();
+
+// Browsers call the share from the app's origin, so answer CORS preflights for the WebDAV methods and headers
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PROPFIND, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Depth, Range, Content-Type',
+    'Access-Control-Expose-Headers': 'Content-Range, Content-Length',
+};
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+const encodePath = (sharePath: string) => sharePath.split('/').map(encodeURIComponent).join('/');
+
+const propfindResponse = (sharePath: string, entry: Entry) => {
+    const href = `${SHARE_PREFIX}${encodePath(sharePath)}${entry.isDirectory && !sharePath.endsWith('/') ? '/' : ''}`;
+    const props = entry.isDirectory
+        ? '<d:resourcetype><d:collection/></d:resourcetype>'
+        : `<d:resourcetype/><d:getcontentlength>${entry.size}</d:getcontentlength>`;
+    return `<d:response><d:href>${escapeXml(href)}</d:href><d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`;
+};
+
+const isAuthorized = (req: http.IncomingMessage) => {
+    const match = req.headers.authorization?.match(/^Basic (.+)$/);
+    return !!match && Buffer.from(match[1], 'base64').toString() === `${ACCOUNT}:${PASSWORD}`;
+};
+
+http.createServer((req, res) => {
+    const url = new URL(req.url || '/', `http://localhost:${port}`);
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS);
+        return res.end();
+    }
+    if (!isAuthorized(req)) {
+        res.writeHead(401, { ...CORS_HEADERS, 'WWW-Authenticate': 'Basic realm="mock-webdav"' });
+        return res.end();
+    }
+    const decodedPath = decodeURIComponent(url.pathname);
+    if (!decodedPath.startsWith(SHARE_PREFIX)) {
+        res.writeHead(404, CORS_HEADERS);
+        return res.end();
+    }
+    const sharePath = decodedPath.slice(SHARE_PREFIX.length).replace(/(.)\/$/, '$1') || '/';
+    const entry = store.stat(sharePath);
+    if (!entry) {
+        res.writeHead(404, CORS_HEADERS);
+        return res.end();
+    }
+
+    if (req.method === 'PROPFIND') {
+        const depth = req.headers.depth ?? '1';
+        // Like Nextcloud, refuse listings of a whole tree
+        if (depth !== '0' && depth !== '1') {
+            res.writeHead(403, CORS_HEADERS);
+            return res.end();
+        }
+        const children = entry.isDirectory && depth === '1' ? store.list(sharePath) || [] : [];
+        const responses = [
+            propfindResponse(sharePath, entry),
+            ...children.map(child => propfindResponse(`${sharePath === '/' ? '' : sharePath}/${child.name}`, child)),
+        ];
+        console.log(`PROPFIND ${sharePath} (${children.length} entries)`);
+        res.writeHead(207, { ...CORS_HEADERS, 'Content-Type': 'application/xml; charset=utf-8' });
+        return res.end(`<?xml version="1.0" encoding="utf-8"?>\n<d:multistatus xmlns:d="DAV:">${responses.join('')}</d:multistatus>`);
+    }
+
+    if (req.method === 'GET' && !entry.isDirectory) {
+        const range = req.headers.range?.match(/^bytes=(\d*)-(\d*)$/);
+        if (!range) {
+            console.log(`GET ${sharePath} (whole file, ${entry.size} bytes)`);
+            res.writeHead(200, { ...CORS_HEADERS, 'Content-Length': entry.size, 'Accept-Ranges': 'bytes' });
+            return res.end(store.read(sharePath, 0, entry.size - 1));
+        }
+        const start = range[1] ? Number(range[1]) : Math.max(0, entry.size - Number(range[2]));
+        const end = range[1] && range[2] ? Math.min(Number(range[2]), entry.size - 1) : entry.size - 1;
+        if (start >= entry.size) {
+            res.writeHead(416, { ...CORS_HEADERS, 'Content-Range': `bytes */${entry.size}` });
+            return res.end();
+        }
+        const body = store.read(sharePath, start, end);
+        console.log(`GET ${sharePath} bytes ${start}-${end} of ${entry.size}`);
+        res.writeHead(206, {
+            ...CORS_HEADERS,
+            'Content-Range': `bytes ${start}-${start + body.length - 1}/${entry.size}`,
+            'Content-Length': body.length,
+        });
+        return res.end(body);
+    }
+
+    res.writeHead(405, CORS_HEADERS);
+    res.end();
+}).listen(port, () => {
+    console.log(`模擬 WebDAV 伺服器已啟動: http://localhost:${port}${SHARE_PREFIX}/（帳號 ${ACCOUNT} / 密碼 ${PASSWORD}）`);
+});
@@ -0,0 +1,131 @@
+// server/synology-hosts.ts
+// Which NAS hosts the Synology proxy may reach, and how their HTTPS certificates are trusted.
+import https from 'https';
+import net from 'net';
+import tls from 'tls';
+
+// How an HTTPS host's certificate is checked: against the system CAs, not at all, or against one pinned certificate
+export type CertificateTrust =
+  | { kind: 'default' }
+  | { kind: 'self-signed' }
+  | { kind: 'pinned'; fingerprint: string };
+
+export interface AllowedHost {
+  // Scheme, host and port, e.g. "https://nas.local:5001"
+  origin: string;
+  trust: CertificateTrust;
+}
+
+// Fingerprints compare as bare upper-case hex, so "ab:cd" and "ABCD" match
+const normalizeFingerprint = (fingerprint: string) => fingerprint.replace(/[^0-9a-f]/gi, '').toUpperCase();
+
+/*
+ * SYNOLOGY_ALLOWED_HOSTS is a comma-separated list of NAS origins, each optionally followed by
+ * how to trust its certificate:
+ *
+ *   https://photos.example.com                  certificate must chain to a system CA (default)
+ *   https://nas.local:5001 self-signed          accept any certificate, e.g. DSM's self-signed one
+ *   https://nas.local:5001 sha256=AB:CD:...     accept only the certificate with this SHA-256 fingerprint
+ *   http://localhost:5050                       plain HTTP, e.g. the mock NAS
+ *
+ * Without the variable no host is allowed, so the proxy cannot be pointed at arbitrary addresses.
+ */
+export const parseAllowedHosts = (value: string | undefined): AllowedHost[] =>
+  (value || '').split(',').flatMap(entry => {
+    const [address, option] = entry.trim().split(/\s+/);
+    if (!address) return [];
+    let url: URL;
+    try {
+      url = new URL(address);
+    } catch {
+      console.warn(`SYNOLOGY_ALLOWED_HOSTS: ignoring invalid address "${address}"`);
+      return [];
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      console.warn(`SYNOLOGY_ALLOWED_HOSTS: ignoring non-HTTP address "${address}"`);
+      return [];
+    }
+    let trust: CertificateTrust = { kind: 'default' };
+    if (option === 'self-signed') {
+      trust = { kind: 'self-signed' };
+    } else if (option?.startsWith('sha256=')) {
+      trust = { kind: 'pinned', fingerprint: normalizeFingerprint(option.slice('sha256='.length)) };
+    } else if (option) {
+      console.warn(`SYNOLOGY_ALLOWED_HOSTS: ignoring unknown option "${option}" for ${url.origin}`);
+    }
+    return [{ origin: url.origin, trust }];
+  });
+
+const allowedHosts = parseAllowedHosts(process.env.SYNOLOGY_ALLOWED_HOSTS);
+
+// The allowlist entry for a NAS address typed by the user, or undefined when it is not allowed
+export const findAllowedHost = (address: string): AllowedHost | undefined => {
+  let url: URL;
+  try {
+    url = new URL(address.trim());
+  } catch {
+    return undefined;
+  }
+  // Embedded credentials would bypass the allowlist's intent and end up in logs
+  if (url.username || url.password) return undefined;
+  return allowedHosts.find(host => host.origin === url.origin);
+};
+
+// Read a host's certificate without sending anything over the connection
+const fetchCertificate = (origin: string): Promise<tls.PeerCertificate> =>
+  new Promise((resolve, reject) => {
+    const url = new URL(origin);
+    const socket = tls.connect({
+      host: url.hostname,
+      port: Number(url.port) || 443,
+      // SNI must not be an IP address
+      servername: net.isIP(url.hostname) ? undefined : url.hostname,
+      rejectUnauthorized: false,
+    });
+    socket.setTimeout(10000, () => socket.destroy(new Error('TLS handshake timed out')));
+    socket.once('secureConnect', () => {
+      const certificate = socket.getPeerCertificate();
+      socket.end();
+      resolve(certificate);
+    });
+    socket.once('error', reject);
+  });
+
+const toPem = (der: Buffer) =>
+  `-----BEGIN CERTIFICATE-----\n${der.toString('base64').match(/.{1,64}/g)?.join('\n')}\n-----END CERTIFICATE-----\n`;
+
+const agents = new Map<string, https.Agent>();
+
+/*
+ * The HTTPS agent for an allowed host. A pinned certificate is fetched once and checked against
+ * the fingerprint; the agent then trusts exactly that certificate (on top of the system CAs, so a
+ * pinned CA-issued certificate works too) and rejects any other during the handshake, before a
+ * request is sent. Returns undefined for the default agent.
+ */
+export const getHostAgent = async (host: AllowedHost): Promise<https.Agent | undefined> => {
+  if (host.trust.kind === 'default' || !host.origin.startsWith('https:')) return undefined;
+  const key = `${host.origin} ${host.trust.kind === 'pinned' ? host.trust.fingerprint : host.trust.kind}`;
+  const cached = agents.get(key);
+  if (cached) return cached;
+
+  let agent: https.Agent;
+  if (host.trust.kind === 'self-signed') {
+    agent = new https.Agent({ rejectUnauthorized: false });
+  } else {
+    const { fingerprint } = host.trust;
+    const certificate = await fetchCertificate(host.origin);
+    if (normalizeFingerprint(certificate.fingerprint256) !== fingerprint) {
+      throw new Error(`Certificate of ${host.origin} does not match the pinned fingerprint`);
+    }
+    agent = new https.Agent({
+      ca: [...tls.rootCertificates, toPem(certificate.raw)],
+      // The pin replaces the host name check: NAS certificates rarely name the address used to reach them
+      checkServerIdentity: (_hostname, peer) =>
+        normalizeFingerprint(peer.fingerprint256) === fingerprint
+          ? undefined
+          : new Error(`Certificate of ${host.origin} does not match the pinned fingerprint`),
+    });
+  }
+  agents.set(key, agent);
+  return agent;
+};
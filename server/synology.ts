@@ -0,0 +1,691 @@
+// server/synology.ts
+// Synology client shared by the Express dev server and the Vercel function: one adapter per photo
+// application (Synology Photos or Photo Station), picked by probing SYNO.API.Info, behind one JSON API.
+import fetch from 'node-fetch';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import type { Agent } from 'https';
+import { findAllowedHost, getHostAgent, type AllowedHost } from './synology-hosts';
+
+// An allowed NAS origin plus the HTTPS agent its certificate trust calls for (see synology-hosts.ts)
+export interface SynologyConnection {
+  host: string;
+  agent?: Agent;
+}
+
+// Album, folder and item ids: numbers in Synology Photos, strings such as "album_3230" in Photo Station
+export type SynologyId = number | string;
+
+// An album in Synology Photos
+export interface SynologyAlbum {
+  id: SynologyId;
+  name: string;
+  itemCount: number;
+}
+
+// A folder in the Synology Photos personal space or the Photo Station share; name is the full path, e.g. "/2024/Japan"
+export interface SynologyFolder {
+  id: SynologyId;
+  name: string;
+}
+
+// The EXIF summary Synology Photos returns with additional=["exif"]; values are display strings
+export interface SynologyExif {
+  camera?: string;
+  lens?: string;
+  aperture?: string | number;
+  exposure_time?: string | number;
+  focal_length?: string | number;
+  iso?: string | number;
+}
+
+// A photo or video item in an album or folder
+export interface SynologyItem {
+  id: SynologyId;
+  filename: string;
+  folder_id?: SynologyId;
+  // Capture time in seconds; Synology stores the camera's local time as if it were UTC
+  time?: number;
+  type?: string;
+  additional?: {
+    exif?: SynologyExif;
+  };
+}
+
+// A page of items; hasMore tells the caller to request the next offset
+export interface SynologyItemPage {
+  items: SynologyItem[];
+  hasMore: boolean;
+}
+
+// Error with the HTTP status the proxy should answer with
+export class SynologyError extends Error {
+  status: number;
+  code?: number;
+
+  constructor(message: string, status: number, code?: number) {
+    super(message);
+    // Keep instanceof working when ts-node compiles for an ES5 target
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'SynologyError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+interface SynologyResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: { code: number };
+}
+
+// Where one API is served, as reported by SYNO.API.Info
+interface ApiInfo {
+  path: string;
+  minVersion: number;
+  maxVersion: number;
+}
+
+export type ApiInfoMap = { [api: string]: ApiInfo | undefined };
+
+const LIST_PAGE_SIZE = 100;
+export const MAX_ITEM_PAGE_SIZE = 500;
+
+// Messages for the DSM authentication error codes, shared by both backends
+const AUTH_ERROR_MESSAGES: { [code: number]: string } = {
+  400: '帳號或密碼錯誤。',
+  401: '此帳號已被停用。',
+  402: '此帳號沒有權限。',
+  403: '需要二階段驗證碼。',
+  404: '二階段驗證碼錯誤。',
+  406: '此帳號必須啟用二階段驗證。',
+};
+
+// Error codes meaning the account needs a one-time password to log in
+const OTP_REQUIRED_CODES = [403, 406];
+
+// Session timeout codes: 119 from DSM, 106/107 from Photo Station; all are reported as 119
+const SESSION_EXPIRED_CODE = 119;
+const SESSION_EXPIRED_CODES = [106, 107, SESSION_EXPIRED_CODE];
+const SESSION_EXPIRED_MESSAGE = '登入已過期，請重新連線。';
+
+const trimHost = (host: string) => host.replace(/\/+$/, '');
+
+// Mask passwords, one-time codes, session ids and tokens in anything that is logged
+const SECRET_PARAMS = /\b(passwd|password|otp_code|otpCode|_sid|sid|device_id|deviceId|token|PHPSESSID)([=:]\s*"?)[^&\s",;]+/g;
+const redactSecrets = (value: unknown): string =>
+  (value instanceof Error ? value.message : String(value)).replace(SECRET_PARAMS, '$1$2***');
+
+// Call a Synology Web API and return its data, throwing SynologyError when it reports a failure.
+// Parameters, including the password at login, go in a form-encoded POST body, never in the URL.
+// Redirects are not followed: they could lead past the host allowlist, and a 307 or 308 would
+// post the password to the new address.
+const callApi = async <T>(
+  connection: SynologyConnection,
+  path: string,
+  params: Record<string, string | number>,
+  describeError: (code: number) => string,
+  headers?: Record<string, string>
+): Promise<T> => {
+  const query = new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)]));
+  let response;
+  try {
+    response = await fetch(`${trimHost(connection.host)}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+      body: query.toString(),
+      redirect: 'manual',
+      // The agent only applies to HTTPS; plain HTTP hosts (e.g. the mock server) use the default
+      agent: url => (url.protocol === 'https:' ? connection.agent : undefined),
+    });
+  } catch (error) {
+    console.error('Synology request failed:', redactSecrets(error));
+    throw new SynologyError('無法連線到 NAS，請檢查主機位址。', 502);
+  }
+  if (response.status >= 300 && response.status < 400) {
+    console.error(`Synology request redirected (HTTP ${response.status}) to`, redactSecrets(response.headers.get('location')));
+    throw new SynologyError(`NAS 要求轉址（HTTP ${response.status}），為了安全不會跟隨；請確認位址，例如是否應使用 https://。`, 502);
+  }
+  if (!response.ok) {
+    throw new SynologyError(`NAS 回應 HTTP ${response.status}。`, 502);
+  }
+  const body = (await response.json()) as SynologyResponse<T>;
+  if (!body.success || body.data === undefined) {
+    const code = body.error?.code ?? 0;
+    if (SESSION_EXPIRED_CODES.includes(code)) {
+      throw new SynologyError(SESSION_EXPIRED_MESSAGE, 401, SESSION_EXPIRED_CODE);
+    }
+    throw new SynologyError(describeError(code), 502, code);
+  }
+  return body.data;
+};
+
+const describeApiError = (action: string) => (code: number) => `${action}（錯誤碼 ${code}）。`;
+
+// Authentication failures are the user's to fix, so they are answered with 401 rather than a gateway error
+const describeAuthError = (code: number) => AUTH_ERROR_MESSAGES[code] || `Synology 登入失敗（錯誤碼 ${code}）。`;
+const toAuthError = (error: unknown) =>
+  error instanceof SynologyError && error.code !== undefined && AUTH_ERROR_MESSAGES[error.code]
+    ? new SynologyError(error.message, 401, error.code)
+    : error;
+
+// Second factor for a login: a one-time password and/or a device id from an earlier trusted login
+export interface SynologyLoginOptions {
+  otpCode?: string;
+  deviceId?: string;
+  // Ask the NAS for a device id so later logins from this browser can skip the OTP
+  trustDevice?: boolean;
+}
+
+// The photo application the NAS runs: Synology Photos (DSM 7) or the older Photo Station (DSM 6)
+export type SynologyBackend = 'photos' | 'photostation';
+
+// One photo application on one NAS; every call after login takes the session id it returned
+export interface SynologyAdapter {
+  backend: SynologyBackend;
+  connection: SynologyConnection;
+  // What SYNO.API.Info reported, kept in the session token so later requests can rebuild the adapter
+  apis: ApiInfoMap;
+  login: (account: string, password: string, options?: SynologyLoginOptions) => Promise<{ sid: string; deviceId?: string }>;
+  // Failures are ignored since the session expires anyway
+  logout: (sid: string) => Promise<void>;
+  listAlbums: (sid: string) => Promise<SynologyAlbum[]>;
+  // Subfolders of a folder, or of the root folder when parentId is omitted
+  listFolders: (sid: string, parentId?: SynologyId) => Promise<SynologyFolder[]>;
+  // One page of the items of an album or folder, with their EXIF summary
+  listItems: (
+    sid: string,
+    container: { albumId: SynologyId } | { folderId: SynologyId },
+    offset: number,
+    limit: number
+  ) => Promise<SynologyItemPage>;
+}
+
+const clampPageSize = (limit: number) => Math.min(Math.max(1, limit), MAX_ITEM_PAGE_SIZE);
+
+const ignoreLogoutError = (error: unknown) => {
+  console.error('Synology logout failed:', redactSecrets(error));
+};
+
+/*
+ * Synology Photos: SYNO.API.Auth plus the SYNO.Foto.Browse.* APIs under /webapi.
+ */
+const createPhotosAdapter = (connection: SynologyConnection, apis: ApiInfoMap): SynologyAdapter => {
+  const pathOf = (api: string) => `/webapi/${apis[api]?.path ?? 'entry.cgi'}`;
+  const authPath = pathOf('SYNO.API.Auth');
+
+  // Fetch every page of a list API
+  const listAll = async <T>(api: string, params: Record<string, string | number>, action: string): Promise<T[]> => {
+    const all: T[] = [];
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const data = await callApi<{ list: T[] }>(connection, pathOf(api), {
+        api, ...params, offset, limit: LIST_PAGE_SIZE,
+      }, describeApiError(action));
+      all.push(...data.list);
+      if (data.list.length < LIST_PAGE_SIZE) return all;
+    }
+  };
+
+  return {
+    backend: 'photos',
+    connection,
+    apis,
+
+    login: async (account, password, { otpCode, deviceId, trustDevice = false } = {}) => {
+      let data: { sid: string; did?: string; device_id?: string };
+      try {
+        data = await callApi(connection, authPath, {
+          api: 'SYNO.API.Auth',
+          version: 7,
+          method: 'login',
+          account,
+          passwd: password,
+          format: 'sid',
+          ...(otpCode ? { otp_code: otpCode } : {}),
+          ...(deviceId ? { device_id: deviceId } : {}),
+          ...(trustDevice ? { enable_device_token: 'yes', device_name: 'Photo EXIF Statistics' } : {}),
+        }, describeAuthError);
+      } catch (error) {
+        throw toAuthError(error);
+      }
+      if (!data.sid) {
+        throw new SynologyError('Synology 登入失敗，請檢查主機位址與帳號密碼。', 401);
+      }
+      return { sid: data.sid, deviceId: data.did ?? data.device_id };
+    },
+
+    logout: sid =>
+      callApi(connection, authPath, {
+        api: 'SYNO.API.Auth', version: 1, method: 'logout', _sid: sid,
+      }, describeApiError('登出失敗')).then(() => undefined, ignoreLogoutError),
+
+    listAlbums: async sid => {
+      const albums = await listAll<{ id: number; name: string; item_count?: number }>('SYNO.Foto.Browse.Album', {
+        version: 1, method: 'list', _sid: sid,
+      }, '無法取得相簿清單');
+      return albums.map(album => ({ id: album.id, name: album.name, itemCount: album.item_count ?? 0 }));
+    },
+
+    listFolders: async (sid, parentId) => {
+      let id = parentId;
+      if (id === undefined) {
+        const root = await callApi<{ folder: SynologyFolder }>(connection, pathOf('SYNO.Foto.Browse.Folder'), {
+          api: 'SYNO.Foto.Browse.Folder', version: 1, method: 'get', _sid: sid,
+        }, describeApiError('無法取得資料夾'));
+        id = root.folder.id;
+      }
+      const folders = await listAll<SynologyFolder>('SYNO.Foto.Browse.Folder', {
+        version: 1, method: 'list', id, _sid: sid,
+      }, '無法取得資料夾清單');
+      return folders.map(folder => ({ id: folder.id, name: folder.name }));
+    },
+
+    listItems: async (sid, container, offset, limit) => {
+      const pageSize = clampPageSize(limit);
+      const data = await callApi<{ list: SynologyItem[] }>(connection, pathOf('SYNO.Foto.Browse.Item'), {
+        api: 'SYNO.Foto.Browse.Item',
+        version: 1,
+        method: 'list',
+        ...('albumId' in container ? { album_id: container.albumId } : { folder_id: container.folderId }),
+        offset,
+        limit: pageSize,
+        additional: '["exif"]',
+        _sid: sid,
+      }, describeApiError('無法獲取相簿內容'));
+      return { items: data.list, hasMore: data.list.length === pageSize };
+    },
+  };
+};
+
+/*
+ * Photo Station: SYNO.PhotoStation.* under /photo/webapi. Its albums are the folders of the
+ * photo share, so they are browsed as folders and the album list is empty. The session id
+ * travels in the PHPSESSID cookie.
+ */
+interface PhotoStationExif {
+  camera?: string;
+  lens?: string;
+  aperture?: string;
+  exposure?: string;
+  focal_length?: string;
+  iso?: string | number;
+}
+
+interface PhotoStationEntry {
+  id: string;
+  type: 'album' | 'photo' | 'video';
+  info: { name?: string; title?: string; sharepath?: string; takendate?: string };
+  additional?: { photo_exif?: PhotoStationExif };
+}
+
+interface PhotoStationList {
+  items: PhotoStationEntry[];
+  total: number;
+  offset: number;
+}
+
+// "2024-05-01 08:30:00" in the camera's local time, as seconds in the same wall-clock-as-UTC form Synology Photos uses
+const parseTakenDate = (takenDate: string | undefined): number | undefined => {
+  const time = takenDate ? Date.parse(`${takenDate.trim().replace(' ', 'T')}Z`) : NaN;
+  return Number.isFinite(time) ? time / 1000 : undefined;
+};
+
+// Photo Station entries in the Synology Photos item shape, so the browser handles both alike
+const toPhotoStationItem = (entry: PhotoStationEntry): SynologyItem => {
+  const exif = entry.additional?.photo_exif;
+  return {
+    id: entry.id,
+    filename: entry.info.name || entry.info.title || entry.id,
+    time: parseTakenDate(entry.info.takendate),
+    type: entry.type,
+    additional: exif
+      ? {
+        exif: {
+          camera: exif.camera,
+          lens: exif.lens,
+          aperture: exif.aperture,
+          exposure_time: exif.exposure,
+          focal_length: exif.focal_length,
+          iso: exif.iso,
+        },
+      }
+      : undefined,
+  };
+};
+
+const createPhotoStationAdapter = (connection: SynologyConnection, apis: ApiInfoMap): SynologyAdapter => {
+  const pathOf = (api: string) => `/photo/webapi/${apis[api]?.path ?? 'album.php'}`;
+  const authPath = pathOf('SYNO.PhotoStation.Auth');
+  const cookie = (sid: string) => ({ Cookie: `PHPSESSID=${sid}` });
+
+  const listAlbum = (sid: string, params: Record<string, string | number>, action: string) =>
+    callApi<PhotoStationList>(connection, pathOf('SYNO.PhotoStation.Album'), {
+      api: 'SYNO.PhotoStation.Album', version: 1, method: 'list', ...params,
+    }, describeApiError(action), cookie(sid));
+
+  return {
+    backend: 'photostation',
+    connection,
+    apis,
+
+    login: async (account, password, { otpCode } = {}) => {
+      let data: { sid: string };
+      try {
+        data = await callApi(connection, authPath, {
+          api: 'SYNO.PhotoStation.Auth',
+          version: 1,
+          method: 'login',
+          account,
+          passwd: password,
+          ...(otpCode ? { otp_code: otpCode } : {}),
+        }, describeAuthError);
+      } catch (error) {
+        throw toAuthError(error);
+      }
+      if (!data.sid) {
+        throw new SynologyError('Photo Station 登入失敗，請檢查主機位址與帳號密碼。', 401);
+      }
+      return { sid: data.sid };
+    },
+
+    logout: sid =>
+      callApi(connection, authPath, {
+        api: 'SYNO.PhotoStation.Auth', version: 1, method: 'logout',
+      }, describeApiError('登出失敗'), cookie(sid)).then(() => undefined, ignoreLogoutError),
+
+    listAlbums: async () => [],
+
+    listFolders: async (sid, parentId) => {
+      const folders: SynologyFolder[] = [];
+      for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+        const data = await listAlbum(sid, {
+          ...(parentId !== undefined ? { id: parentId } : {}),
+          type: 'album',
+          offset,
+          limit: LIST_PAGE_SIZE,
+        }, '無法取得資料夾清單');
+        data.items.forEach(entry => {
+          folders.push({ id: entry.id, name: `/${entry.info.sharepath || entry.info.name || entry.id}` });
+        });
+        if (offset + data.items.length >= data.total || data.items.length === 0) return folders;
+      }
+    },
+
+    listItems: async (sid, container, offset, limit) => {
+      const data = await listAlbum(sid, {
+        id: 'albumId' in container ? container.albumId : container.folderId,
+        type: 'photo,video',
+        additional: 'photo_exif',
+        offset,
+        limit: clampPageSize(limit),
+      }, '無法獲取相簿內容');
+      return { items: data.items.map(toPhotoStationItem), hasMore: offset + data.items.length < data.total };
+    },
+  };
+};
+
+// Ask a SYNO.API.Info endpoint which of the given APIs exist and where they are served
+const queryApiInfo = (connection: SynologyConnection, path: string, apis: string[]): Promise<ApiInfoMap> =>
+  callApi<ApiInfoMap>(connection, path, {
+    api: 'SYNO.API.Info', version: 1, method: 'query', query: apis.join(','),
+  }, describeApiError('無法查詢 NAS 的 API'));
+
+// Probe SYNO.API.Info for Synology Photos first, then Photo Station, and return the matching adapter
+export const detectSynologyAdapter = async (connection: SynologyConnection): Promise<SynologyAdapter> => {
+  const dsmApis = await queryApiInfo(
+    connection, '/webapi/query.cgi', ['SYNO.API.Auth', 'SYNO.Foto.Browse.Item', 'SYNO.Foto.Browse.Album', 'SYNO.Foto.Browse.Folder']
+  );
+  if (dsmApis['SYNO.Foto.Browse.Item']) {
+    return createPhotosAdapter(connection, dsmApis);
+  }
+  // Every DSM answers the query above; Photo Station's own endpoint only exists where it is installed
+  const photoStationApis = await queryApiInfo(
+    connection, '/photo/webapi/query.php', ['SYNO.PhotoStation.Auth', 'SYNO.PhotoStation.Album']
+  ).catch((): ApiInfoMap => ({}));
+  if (photoStationApis['SYNO.PhotoStation.Auth']) {
+    return createPhotoStationAdapter(connection, photoStationApis);
+  }
+  throw new SynologyError('這台 NAS 沒有安裝 Synology Photos 或 Photo Station。', 502);
+};
+
+/*
+ * Sessions: the NAS session id never leaves the server in readable form. The browser gets a
+ * token holding the NAS origin, the adapter and the session id, encrypted and authenticated
+ * with AES-256-GCM, and sends it back with every listing and paging call. Nothing is kept in
+ * memory, so any server instance that shares SYNOLOGY_SESSION_SECRET can serve any request.
+ * Without the variable each process makes up its own key, which is fine for a single server
+ * but means a restart (or another serverless instance) asks the user to connect again.
+ * Tokens expire SESSION_MAX_AGE_MS after login; the NAS ends idle sessions on its own.
+ */
+// The connection to an allowed host, with the HTTPS agent its certificate trust calls for
+const connectTo = async (allowedHost: AllowedHost): Promise<SynologyConnection> => {
+  try {
+    return { host: allowedHost.origin, agent: await getHostAgent(allowedHost) };
+  } catch (error) {
+    console.error('Synology certificate check failed:', redactSecrets(error));
+    throw new SynologyError('NAS 的憑證與伺服器設定的指紋不符，或無法取得憑證。', 502);
+  }
+};
+
+interface SessionPayload {
+  host: string;
+  backend: SynologyBackend;
+  apis: ApiInfoMap;
+  sid: string;
+  expiresAt: number;
+}
+
+export const SESSION_MAX_AGE_MS = 2 * 60 * 60 * 1000;
+
+const SESSION_KEY = process.env.SYNOLOGY_SESSION_SECRET
+  ? createHash('sha256').update(process.env.SYNOLOGY_SESSION_SECRET).digest()
+  : randomBytes(32);
+
+const SESSION_IV_LENGTH = 12;
+const SESSION_TAG_LENGTH = 16;
+
+const createSessionToken = (adapter: SynologyAdapter, sid: string): string => {
+  const payload: SessionPayload = {
+    host: adapter.connection.host,
+    backend: adapter.backend,
+    apis: adapter.apis,
+    sid,
+    expiresAt: Date.now() + SESSION_MAX_AGE_MS,
+  };
+  const iv = randomBytes(SESSION_IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', SESSION_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+};
+
+// The payload of a token this server issued, or undefined for a forged, foreign or expired one
+const readSessionToken = (token: unknown): SessionPayload | undefined => {
+  if (typeof token !== 'string') return undefined;
+  const bytes = Buffer.from(token, 'base64url');
+  if (bytes.length <= SESSION_IV_LENGTH + SESSION_TAG_LENGTH) return undefined;
+  let payload: SessionPayload;
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', SESSION_KEY, bytes.subarray(0, SESSION_IV_LENGTH));
+    decipher.setAuthTag(bytes.subarray(SESSION_IV_LENGTH, SESSION_IV_LENGTH + SESSION_TAG_LENGTH));
+    const json = Buffer.concat([decipher.update(bytes.subarray(SESSION_IV_LENGTH + SESSION_TAG_LENGTH)), decipher.final()]);
+    payload = JSON.parse(json.toString('utf8'));
+  } catch {
+    return undefined;
+  }
+  return payload.expiresAt > Date.now() ? payload : undefined;
+};
+
+// Rebuild the adapter of a live session; the host must still be allowed
+const openSession = async (token: unknown): Promise<{ adapter: SynologyAdapter; sid: string }> => {
+  const payload = readSessionToken(token);
+  const allowedHost = payload && findAllowedHost(payload.host);
+  if (!payload || !allowedHost) {
+    throw new SynologyError(SESSION_EXPIRED_MESSAGE, 401, SESSION_EXPIRED_CODE);
+  }
+  const connection = await connectTo(allowedHost);
+  const adapter = payload.backend === 'photostation'
+    ? createPhotoStationAdapter(connection, payload.apis)
+    : createPhotosAdapter(connection, payload.apis);
+  return { adapter, sid: payload.sid };
+};
+
+// Request body accepted by the /api/synology endpoint
+export type SynologyRequest =
+  | { action: 'login'; host: string; account: string; password: string; otpCode?: string; deviceId?: string; trustDevice?: boolean }
+  | { action: 'logout'; token: string }
+  | { action: 'albums'; token: string }
+  | { action: 'folders'; token: string; parentId?: SynologyId }
+  | { action: 'items'; token: string; albumId?: SynologyId; folderId?: SynologyId; offset?: number; limit?: number };
+
+// Status and JSON body to send back to the browser
+export interface SynologyResponseBody {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isId = (value: unknown): value is SynologyId => isNumber(value) || (typeof value === 'string' && value !== '');
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/*
+ * Login rate limiting: each client address gets MAX_FAILED_LOGINS rejected logins per
+ * LOGIN_WINDOW_MS; a successful login clears its count. Counts are kept in memory, so each
+ * server instance keeps its own: behind several instances the limit applies per instance.
+ */
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const MAX_FAILED_LOGINS = 5;
+const failedLogins = new Map<string, { count: number; resetAt: number }>();
+
+// Seconds until the client may try again, or 0 when it is not blocked
+const loginRetryAfter = (client: string, now: number): number => {
+  const entry = failedLogins.get(client);
+  if (!entry || entry.resetAt <= now) {
+    failedLogins.delete(client);
+    return 0;
+  }
+  return entry.count >= MAX_FAILED_LOGINS ? Math.ceil((entry.resetAt - now) / 1000) : 0;
+};
+
+const recordFailedLogin = (client: string, now: number) => {
+  const entry = failedLogins.get(client);
+  if (entry && entry.resetAt > now) {
+    entry.count += 1;
+  } else {
+    failedLogins.set(client, { count: 1, resetAt: now + LOGIN_WINDOW_MS });
+  }
+};
+
+// Log in and open a proxy session
+const handleLogin = async (body: Partial<Record<string, unknown>>, client: string): Promise<SynologyResponseBody> => {
+  if (typeof body.host !== 'string' || !/^https?:\/\//i.test(body.host)) {
+    return { status: 400, body: { success: false, message: '請輸入以 http:// 或 https:// 開頭的 NAS 位址。' } };
+  }
+  if (typeof body.account !== 'string' || typeof body.password !== 'string') {
+    return { status: 400, body: { success: false, message: '請輸入帳號與密碼。' } };
+  }
+  const allowedHost = findAllowedHost(body.host);
+  if (!allowedHost) {
+    return { status: 403, body: { success: false, message: '這個 NAS 位址不在伺服器允許的清單中（SYNOLOGY_ALLOWED_HOSTS）。' } };
+  }
+  const now = Date.now();
+  const retryAfter = loginRetryAfter(client, now);
+  if (retryAfter > 0) {
+    return {
+      status: 429,
+      body: { success: false, message: `登入失敗次數過多，請 ${Math.ceil(retryAfter / 60)} 分鐘後再試。`, retryAfter },
+    };
+  }
+
+  const connection = await connectTo(allowedHost);
+  try {
+    const adapter = await detectSynologyAdapter(connection);
+    const { sid, deviceId } = await adapter.login(body.account, body.password, {
+      otpCode: optionalString(body.otpCode),
+      deviceId: optionalString(body.deviceId),
+      trustDevice: body.trustDevice === true,
+    });
+    failedLogins.delete(client);
+    return {
+      status: 200,
+      body: {
+        success: true,
+        token: createSessionToken(adapter, sid),
+        backend: adapter.backend,
+        expiresIn: SESSION_MAX_AGE_MS / 1000,
+        deviceId,
+      },
+    };
+  } catch (error) {
+    if (error instanceof SynologyError && error.code !== undefined && OTP_REQUIRED_CODES.includes(error.code)) {
+      return { status: 401, body: { success: false, message: error.message, otpRequired: true } };
+    }
+    // Asking for the one-time password is part of a normal login; any other rejection counts
+    if (error instanceof SynologyError && error.status === 401) {
+      recordFailedLogin(client, now);
+    }
+    throw error;
+  }
+};
+
+// Answer for anything but POST, from both the Express route and the Vercel function
+export const METHOD_NOT_ALLOWED: SynologyResponseBody = {
+  status: 405,
+  body: { success: false, message: 'Method Not Allowed' },
+};
+
+// Run one /api/synology action; client identifies the caller (its IP address) for login rate limiting
+export const handleSynologyRequest = async (request: unknown, client = 'unknown'): Promise<SynologyResponseBody> => {
+  const body = (typeof request === 'object' && request !== null ? request : {}) as Partial<Record<string, unknown>>;
+  const fail = (status: number, message: string): SynologyResponseBody => ({ status, body: { success: false, message } });
+
+  try {
+    if (body.action === 'login') {
+      return await handleLogin(body, client);
+    }
+    if (body.action === 'logout') {
+      // Logging out ends the NAS session, so the token stops working even though it has not expired
+      const session = await openSession(body.token).catch(() => undefined);
+      if (session) {
+        await session.adapter.logout(session.sid);
+      }
+      return { status: 200, body: { success: true } };
+    }
+
+    const { adapter, sid } = await openSession(body.token);
+    switch (body.action) {
+      case 'albums':
+        return { status: 200, body: { success: true, albums: await adapter.listAlbums(sid) } };
+      case 'folders':
+        return {
+          status: 200,
+          body: { success: true, folders: await adapter.listFolders(sid, isId(body.parentId) ? body.parentId : undefined) },
+        };
+      case 'items': {
+        const container = isId(body.albumId)
+          ? { albumId: body.albumId }
+          : isId(body.folderId) ? { folderId: body.folderId } : null;
+        if (!container) {
+          return fail(400, '請指定相簿或資料夾。');
+        }
+        const page = await adapter.listItems(
+          sid,
+          container,
+          isNumber(body.offset) ? body.offset : 0,
+          isNumber(body.limit) ? body.limit : MAX_ITEM_PAGE_SIZE
+        );
+        return { status: 200, body: { success: true, ...page } };
+      }
+      default:
+        return fail(400, '不支援的操作。');
+    }
+  } catch (error) {
+    if (error instanceof SynologyError) {
+      return {
+        status: error.status,
+        body: { success: false, message: error.message, ...(error.code === SESSION_EXPIRED_CODE ? { expired: true } : {}) },
+      };
+    }
+    console.error('Synology proxy error:', redactSecrets(error));
+    return fail(500, '伺服器內部錯誤。');
+  }
+};
@@ -1,9 +1,104 @@
 // src/App.tsx
-import { useState, useMemo, useEffect, useRef } from 'react';
-import exifr from 'exifr';
+import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import { Bar } from 'react-chartjs-2';
 import { Sidebar } from './components/Sidebar';
-import { defaultCropFactors, type CropFactorMap } from './cameraData'; 
+import {
+  defaultCropFactors,
+  defaultLensFactorRules,
+  defaultMakeNames,
+  defaultModelNames,
+  type CropFactorMap,
+  type LensFactorRule,
+} from './cameraData';
+import {
+  DEFAULT_FOCAL_LENGTH_RANGES,
+  EXIF_CATEGORY_FIELDS,
+  FILE_FORMAT_IDS,
+  FocalRangeError,
+  GROUP_BY_FIELDS,
+  QueryError,
+  UNKNOWN_LENS,
+  UNKNOWN_MODEL,
+  aggregatePhotos,
+  buildHourWeekdayMatrix,
+  checkFocalLengthRanges,
+  compareCohorts,
+  compileQuery,
+  crossTabulate,
+  createCohortDefinition,
+  createFileMatcher,
+  createNameNormalizer,
+  createQueryCompleter,
+  createSnapshot,
+  filterPhotos,
+  formatComparisonCsv,
+  formatComparisonJson,
+  formatCrossTabCsv,
+  formatCrossTabJson,
+  formatSnapshot,
+  formatPhotosCsv,
+  formatPhotosJson,
+  formatHeatmapCsv,
+  formatHeatmapJson,
+  formatStatsCsv,
+  formatStatsJson,
+  getChangedSettings,
+  getMediaKind,
+  inferCropFactors,
+  isExposureField,
+  listExifFilterValues,
+  mergeLensFactorRules,
+  mergeNameRules,
+  parseFocalLengthRanges,
+  parseSnapshot,
+  resolveDuplicates,
+  selectBarPhotos,
+  summarizeEquivalentFocalLengths,
+  toCohort,
+  toInferredCropFactors,
+  toPhotoRows,
+  toStatRows,
+  type AggregateOptions,
+  type ApertureScale,
+  type CohortDefinition,
+  type ComparisonResult,
+  type CrossTabResult,
+  type DuplicatePolicy,
+  type ExifCategoryField,
+  type ExposureBucketMode,
+  type FileFormatId,
+  type FocalRange,
+  type FocalRangePreset,
+  type FocalLengthMode,
+  type GeoSelection,
+  type GroupByField,
+  type MediaKind,
+  type NameRule,
+  type PhotoData,
+  type PhotoQuery,
+  type ScanFailure,
+  type SnapshotSettings,
+  type StatRow,
+  type TimeGranularity,
+} from './stats';
+import { TimeHeatmap } from './components/TimeHeatmap';
+import { CachePanel } from './components/CachePanel';
+import { DataQualityPanel } from './components/DataQualityPanel';
+import { ExportPanel, type ChartImageFormat, type ExportFormat } from './components/ExportPanel';
+import { SnapshotPanel } from './components/SnapshotPanel';
+import { MapPanel } from './components/MapPanel';
+import { DrillDownPanel } from './components/DrillDownPanel';
+import { QueryBar } from './components/QueryBar';
+import { FocalRangeEditor } from './components/FocalRangeEditor';
+import { getLocalPhotoFile, type DirectoryHandles } from './localFiles';
+import { loadFocalRangePresets, saveFocalRangePresets } from './focalRangePresets';
+import { PivotTable } from './components/PivotTable';
+import { SynologyPanel } from './components/SynologyPanel';
+import { WebDavPanel } from './components/WebDavPanel';
+import { ComparePanel } from './components/ComparePanel';
+import { downloadBlob, downloadText, renderChartPng, renderChartSvg } from './chartExport';
+import { commitCacheSession, lookupCachedPhoto, openCacheSession, rememberPhoto } from './exifCache';
+import { createExifPool, type ExifPool, type ExifPoolJob } from './workers/exifPool';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -12,6 +107,7 @@ import {
   Title,
   Tooltip,
   Legend,
+  type ChartOptions,
 } from 'chart.js';
 import ChartDataLabels from 'chartjs-plugin-datalabels';
 import './App.css';
@@ -27,34 +123,79 @@ ChartJS.register(
   ChartDataLabels
 );
 
-// Define TypeScript interfaces for EXIF data and photo structure
-interface ExifData {
-  Make?: string;
-  Model?: string;
-  LensModel?: string;
-  ExposureTime?: number;
-  FNumber?: number;
-  ISOSpeedRatings?: number;
-  DateTimeOriginal?: Date;
-  FocalLength?: number;
-  FocalLengthIn35mmFormat?: number;
+// A file found while scanning a folder
+interface ScanEntry {
+  file: File;
+  relativePath: string;
+  folderPath: string;
 }
 
-type ParsedRange = {
-  label: string;
-  type: string;
-  test: (fl: number) => boolean;
+// Local photos are identified by their path below the opened folder, whichever way it was opened
+const getLocalPhotoId = (relativePath: string) => `local-${relativePath}`;
+
+// Progress state of a folder scan
+const IDLE_PROGRESS = {
+  loading: false,
+  paused: false,
+  total: 0,       
+  processed: 0,   
+  message: '',    
 };
 
-// Define the structure for photo data
-interface PhotoData {
+// An imported library snapshot
+interface SnapshotSource {
   id: string;
-  source: 'local' | 'synology';
-  filename: string;
-  exif: ExifData;
-  folderPath: string;
+  name: string;
+  createdAt: string;
+  anonymized: boolean;
+  photos: PhotoData[];
 }
 
+// Names of the snapshot settings, for asking whether to apply them
+const SNAPSHOT_SETTING_LABELS: Record<keyof SnapshotSettings, string> = {
+  groupBy: '分組方式',
+  focalLengthMode: '焦距模式',
+  focalLengthRanges: '焦段區間',
+  exposureMode: '曝光分組',
+  apertureScale: '光圈刻度',
+  timeView: '時間檢視',
+  duplicatePolicy: '重複檔案的計算方式',
+};
+
+// Compile a filter expression, keeping its error for display
+const tryCompileQuery = (text: string): { query?: PhotoQuery; error: QueryError | null } => {
+  try {
+    return { query: compileQuery(text), error: null };
+  } catch (e) {
+    if (e instanceof QueryError) return { error: e };
+    throw e;
+  }
+};
+
+// Parse focal length ranges, keeping the error for display
+const tryParseFocalRanges = (text: string): { ranges?: FocalRange[]; error: FocalRangeError | null } => {
+  try {
+    return { ranges: parseFocalLengthRanges(text), error: null };
+  } catch (e) {
+    if (e instanceof FocalRangeError) return { error: e };
+    throw e;
+  }
+};
+
+// One color per cohort in comparison mode
+const COHORT_COLORS = [
+  'rgba(54, 162, 235, 0.6)',
+  'rgba(255, 99, 132, 0.6)',
+  'rgba(75, 192, 192, 0.6)',
+  'rgba(255, 159, 64, 0.6)',
+  'rgba(153, 102, 255, 0.6)',
+  'rgba(201, 203, 207, 0.6)',
+];
+
+// Spread breakdown colors evenly around the hue circle
+const breakdownColor = (index: number, count: number) =>
+  `hsla(${Math.round((index * 360) / Math.max(1, count))}, 65%, 55%, 0.6)`;
+
 // Define the structure for chart data
 interface ChartData {
   labels: string[];
@@ -70,54 +211,211 @@ interface ChartData {
 // Define the type for crop factors
 function App() {
   const [localPhotos, setLocalPhotos] = useState<PhotoData[]>([]);
-  const [progress, setProgress] = useState({
-    loading: false,
-    total: 0,       
-    processed: 0,   
-    message: '',    
-  });
+  // Files whose metadata could not be read
+  const [scanFailures, setScanFailures] = useState<ScanFailure[]>([]);
+  const [isQualityPanelOpen, setQualityPanelOpen] = useState(false);
+  const [progress, setProgress] = useState(IDLE_PROGRESS);
   // Error message state
   const [error, setError] = useState('');
+  // EXIF cache panel state
+  const [isCachePanelOpen, setCachePanelOpen] = useState(false);
+  // Imported snapshots, kept as read-only photo sources next to local folders
+  const [snapshotSources, setSnapshotSources] = useState<SnapshotSource[]>([]);
+  const [isSnapshotPanelOpen, setSnapshotPanelOpen] = useState(false);
+  const [isSynologyPanelOpen, setSynologyPanelOpen] = useState(false);
+  const [isWebDavPanelOpen, setWebDavPanelOpen] = useState(false);
+  const [isMapPanelOpen, setMapPanelOpen] = useState(false);
+  const [cacheVersion, setCacheVersion] = useState(0);
+  const [lastScan, setLastScan] = useState<{ cached: number; parsed: number } | null>(null);
   // Filter and grouping states
-  const [groupBy, setGroupBy] = useState<keyof ExifData>('Model'); 
-  const [focalLengthMode, setFocalLengthMode] = useState<'range' | 'continuous'>('range'); 
-  const [focalLengthRanges, setFocalLengthRanges] = useState('14-23, 24-70, 70-200, other'); 
+  const [groupBy, setGroupBy] = useState<GroupByField>('Model'); 
+  const [focalLengthMode, setFocalLengthMode] = useState<FocalLengthMode>('range'); 
+  const [focalLengthRanges, setFocalLengthRanges] = useState(DEFAULT_FOCAL_LENGTH_RANGES);
+  // Focal range presets saved in this browser
+  const [focalRangePresets, setFocalRangePresets] = useState<FocalRangePreset[]>(loadFocalRangePresets);
+  // Exposure (aperture, shutter speed, ISO) bucketing options
+  const [exposureMode, setExposureMode] = useState<ExposureBucketMode>('preset');
+  const [apertureScale, setApertureScale] = useState<ApertureScale>('full');
+  // Timeline view: photos per day/month/year, or the hour × weekday heatmap
+  const [timeView, setTimeView] = useState<TimeGranularity | 'heatmap'>('month');
+  // Comparison mode: cohorts shown side by side as percentages
+  const [isCompareMode, setCompareMode] = useState(false);
+  const [cohortDefinitions, setCohortDefinitions] = useState<CohortDefinition[]>([
+    createCohortDefinition(1),
+    createCohortDefinition(2),
+  ]);
+  const [comparison, setComparison] = useState<ComparisonResult | null>(null);
+  // Second "break down by" dimension, rendered as stacked bars and a pivot table
+  const [breakdownBy, setBreakdownBy] = useState<GroupByField | ''>('');
+  const [crossTab, setCrossTab] = useState<CrossTabResult | null>(null);
   // Selected filters
   const [selectedModels, setSelectedModels] = useState<string[]>([]);
   const [selectedLenses, setSelectedLenses] = useState<string[]>([]);
   // Folder paths
-  const [allFolderPaths, setAllFolderPaths] = useState<string[]>([]);
   const [selectedFolderPaths, setSelectedFolderPaths] = useState<string[]>([]);
   // Chart data state
   const [chartData, setChartData] = useState<ChartData | null>(null);
+  // Aggregated rows behind the chart, for export
+  const [statRows, setStatRows] = useState<StatRow[]>([]);
+  // Hour × weekday heatmap data state
+  const [heatmapData, setHeatmapData] = useState<number[][] | null>(null);
+  // Photos behind the clicked bar
+  const [drillDown, setDrillDown] = useState<{ title: string; photos: PhotoData[] } | null>(null);
   // Sidebar visibility state
   const [isSidebarOpen, setSidebarOpen] = useState(false);
-  // Top focal length labels for highlighting
-  const [topFocalLengthLabels, setTopFocalLengthLabels] = useState<string[]>([]);
+  // Top labels for highlighting in continuous (histogram) modes
+  const [topLabels, setTopLabels] = useState<string[]>([]);
   // Crop factors state
   const [cropFactors, setCropFactors] = useState<CropFactorMap>(defaultCropFactors);
-  // Debounced focal length ranges for performance
+  // Accepted values of the additional EXIF fields; a missing field means no restriction
+  const [fieldFilters, setFieldFilters] = useState<Partial<Record<ExifCategoryField, string[]>>>({});
+  // Area drawn on the map; only photos inside it are counted
+  const [mapSelection, setMapSelection] = useState<GeoSelection | null>(null);
+  // Which files of a RAW+JPEG pair or of copied files count
+  const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>('frame');
+  // File types picked up by the next scans
+  const [fileFormats, setFileFormats] = useState<FileFormatId[]>(FILE_FORMAT_IDS);
+  const isScannedFile = useMemo(() => createFileMatcher(fileFormats), [fileFormats]);
+  // Filter expression; the charts follow it after typing pauses
+  const [queryText, setQueryText] = useState('');
+  const [debouncedQueryText, setDebouncedQueryText] = useState('');
+  // User alias and merge rules for camera and lens names
+  const [nameRules, setNameRules] = useState<NameRule[]>([]);
+  // Per-lens crop factor rules, checked before EXIF and body factors
+  const [lensFactorRules, setLensFactorRules] = useState<LensFactorRule[]>(defaultLensFactorRules);
+  // Debounced focal length ranges for performance; always the last text that parsed
   const [debouncedFocalLengthRanges, setDebouncedFocalLengthRanges] = useState(focalLengthRanges);
   // Mapping for group by labels
   const GROUP_BY_LABELS: { [key: string]: string } = {
     Model: '相機型號',
     LensModel: '鏡頭型號',
     FocalLength: '等效焦段',
+    FNumber: '光圈',
+    ExposureTime: '快門速度',
+    ISOSpeedRatings: 'ISO 感光度',
+    DateTimeOriginal: '拍攝時間',
+    ExposureCompensation: '曝光補償',
+    ExposureProgram: '曝光程式',
+    ExposureMode: '曝光模式',
+    MeteringMode: '測光模式',
+    Flash: '閃光燈',
+    WhiteBalance: '白平衡',
+    Orientation: '方向',
+    ImageSize: '影像尺寸',
+    BodySerialNumber: '機身（序號）',
+    LensSerialNumber: '鏡頭（序號）',
+    Software: '軟體／韌體',
+    GPS: 'GPS 定位',
+    MediaType: '照片／影片',
   };
   // Reference for hidden file input (legacy folder selection)
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Worker pool of the scan in progress, for pause/resume/cancel
+  const exifPoolRef = useRef<ExifPool | null>(null);
+  // Folders opened with the directory picker, by root name, for reading original files
+  const directoryHandlesRef = useRef<DirectoryHandles>(new Map());
+  const getPhotoFile = useCallback((photo: PhotoData) => getLocalPhotoFile(directoryHandlesRef.current, photo), []);
   // Combine all photos for easier processing
-  const allPhotos = useMemo(() => [...localPhotos], [localPhotos]);
+  const loadedPhotos = useMemo(
+    () => [...localPhotos, ...snapshotSources.flatMap(source => source.photos)],
+    [localPhotos, snapshotSources]
+  );
+  // The photos that count: copies and RAW+JPEG pairs are resolved by the duplicate policy
+  const duplicates = useMemo(() => resolveDuplicates(loadedPhotos, duplicatePolicy), [loadedPhotos, duplicatePolicy]);
+  const allPhotos = duplicates.photos;
+  // Photos and videos among them
+  const mediaCounts = useMemo(() => {
+    const counts: Record<MediaKind, number> = { photo: 0, video: 0 };
+    allPhotos.forEach(photo => counts[getMediaKind(photo)]++);
+    return counts;
+  }, [allPhotos]);
+  // Folder paths of all photos, local and imported
+  const allFolderPaths = useMemo(
+    () => Array.from(new Set(allPhotos.map(p => p.folderPath))).sort(),
+    [allPhotos]
+  );
+  // Drop selected folders that no longer contain any photo
+  useEffect(() => {
+    setSelectedFolderPaths(prevSelected => {
+      const remaining = prevSelected.filter(path => allFolderPaths.includes(path));
+      return remaining.length === prevSelected.length ? prevSelected : remaining;
+    });
+  }, [allFolderPaths]);
+  // Display names of cameras and lenses, shared by the filters and the charts
+  const names = useMemo(
+    () => createNameNormalizer(allPhotos, { makeNames: defaultMakeNames, modelNames: defaultModelNames, rules: nameRules }),
+    [allPhotos, nameRules]
+  );
+  // Errors show while typing; the charts only use the expression once typing pauses
+  const queryError = useMemo(() => tryCompileQuery(queryText).error, [queryText]);
+  const activeQuery = useMemo(() => tryCompileQuery(debouncedQueryText).query, [debouncedQueryText]);
+  const queryCompleter = useMemo(() => createQueryCompleter(allPhotos, names), [allPhotos, names]);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQueryText(queryText), 800);
+    return () => clearTimeout(timer);
+  }, [queryText]);
   // Compute available models and lenses from the photos
+  // "Unknown camera" is listed last so every photo can be selected
   const availableModels = useMemo(() => {
-    const models = new Set(allPhotos.map(p => p.exif.Model).filter(Boolean));
-    return Array.from(models).sort() as string[];
-  }, [allPhotos]);
-  // Compute available lenses from the photos
+    const models = new Set(allPhotos.map(names.model));
+    return Array.from(models).sort((a, b) => Number(a === UNKNOWN_MODEL) - Number(b === UNKNOWN_MODEL) || a.localeCompare(b));
+  }, [allPhotos, names]);
+  // Compute available lenses from the photos, with "Unknown lens" listed last
   const availableLenses = useMemo(() => {
-    const lenses = new Set(allPhotos.map(p => p.exif.LensModel).filter(Boolean));
-    return Array.from(lenses).sort() as string[];
-  }, [allPhotos]);
+    const lenses = new Set(allPhotos.map(names.lens));
+    return Array.from(lenses).sort((a, b) => Number(a === UNKNOWN_LENS) - Number(b === UNKNOWN_LENS) || a.localeCompare(b));
+  }, [allPhotos, names]);
+  // EXIF model strings with their display names; crop factors and lens rules are keyed by the EXIF value
+  const cameraModels = useMemo(() => {
+    const models = new Map<string, string>();
+    allPhotos.forEach(photo => {
+      if (photo.exif.Model && !models.has(photo.exif.Model)) models.set(photo.exif.Model, names.model(photo));
+    });
+    return Array.from(models, ([model, name]) => ({ model, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [allPhotos, names]);
+  // Values of the additional EXIF fields, for their filters; fields with a single value are not worth filtering
+  const extraFilterValues = useMemo(
+    () => EXIF_CATEGORY_FIELDS
+      .map(field => ({ field, values: listExifFilterValues(allPhotos, field, names) }))
+      .filter(({ values }) => values.length > 1),
+    [allPhotos, names]
+  );
+  // Drop filter values that no photo has any more
+  useEffect(() => {
+    setFieldFilters(prev => {
+      const next: Partial<Record<ExifCategoryField, string[]>> = {};
+      extraFilterValues.forEach(({ field, values }) => {
+        const selected = prev[field]?.filter(value => values.includes(value));
+        if (selected && selected.length < values.length) next[field] = selected;
+      });
+      const unchanged = Object.keys(next).length === Object.keys(prev).length
+        && Object.entries(next).every(([field, values]) => values.length === prev[field as ExifCategoryField]?.length);
+      return unchanged ? prev : next;
+    });
+  }, [extraFilterValues]);
+  // Photos the map shows: every filter except the map's own area applies
+  const mapPhotos = useMemo(
+    () => (isMapPanelOpen ? filterPhotos(allPhotos, {
+      folders: selectedFolderPaths,
+      models: selectedModels,
+      lenses: selectedLenses,
+      fields: fieldFilters,
+      query: activeQuery,
+    }, names) : []),
+    [isMapPanelOpen, allPhotos, selectedFolderPaths, selectedModels, selectedLenses, fieldFilters, activeQuery, names]
+  );
+  // Crop factors inferred from the photos' own EXIF
+  const cropInferences = useMemo(() => inferCropFactors(allPhotos), [allPhotos]);
+  // Entered (or built-in) crop factors, falling back to inferred ones for other models
+  const effectiveCropFactors = useMemo(
+    () => ({ ...toInferredCropFactors(cropInferences), ...cropFactors }),
+    [cropInferences, cropFactors]
+  );
+  // How each body and lens got its equivalent focal length, for the sidebar
+  const focalSources = useMemo(
+    () => summarizeEquivalentFocalLengths(allPhotos, effectiveCropFactors, lensFactorRules),
+    [allPhotos, effectiveCropFactors, lensFactorRules]
+  );
   // Automatically select all models and lenses when they change
   useEffect(() => {
     setSelectedModels(availableModels);
@@ -126,15 +424,25 @@ function App() {
   useEffect(() => {
     setSelectedLenses(availableLenses);
   }, [availableLenses]);
+  // Errors and warnings show while typing; text that does not parse is never applied
+  const focalRangeParse = useMemo(() => tryParseFocalRanges(focalLengthRanges), [focalLengthRanges]);
+  const focalRangeWarnings = useMemo(
+    () => focalRangeParse.ranges ? checkFocalLengthRanges(focalRangeParse.ranges) : [],
+    [focalRangeParse]
+  );
   // Debounce focal length range input to avoid excessive updates
   useEffect(() => {
+    if (focalRangeParse.error) return;
     const timer = setTimeout(() => {
       setDebouncedFocalLengthRanges(focalLengthRanges);
     }, 800);
     return () => {
       clearTimeout(timer);
     };
-  }, [focalLengthRanges]);
+  }, [focalLengthRanges, focalRangeParse]);
+  useEffect(() => {
+    saveFocalRangePresets(focalRangePresets);
+  }, [focalRangePresets]);
   // Regenerate chart when dependencies change
   useEffect(() => {
     if (allPhotos.length > 0) {
@@ -145,140 +453,197 @@ function App() {
     groupBy,              
     focalLengthMode,      
     debouncedFocalLengthRanges,
+    exposureMode,
+    apertureScale,
+    timeView,
+    isCompareMode,
+    cohortDefinitions,
+    breakdownBy,
     selectedModels,       
     selectedLenses,       
     selectedFolderPaths,  
-    cropFactors,          
+    effectiveCropFactors,
+    lensFactorRules,
+    names,
+    fieldFilters,
+    mapSelection,
+    activeQuery,
     allPhotos             
   ]);
+  // Select values of an additional EXIF field; selecting all removes the restriction
+  const handleFieldFilterChange = (field: ExifCategoryField, selected: string[]) => {
+    const values = extraFilterValues.find(entry => entry.field === field)?.values ?? [];
+    setFieldFilters(prev => {
+      const next = { ...prev };
+      if (selected.length === values.length) {
+        delete next[field];
+      } else {
+        next[field] = selected;
+      }
+      return next;
+    });
+  };
+  // Count photos, videos or both; the media type filter of the additional fields holds the choice.
+  // Like the other fields, it only exists while the library has both kinds, otherwise it is dropped at once
+  const canChangeMediaScope = extraFilterValues.some(({ field }) => field === 'MediaType');
+  const mediaScope: MediaKind | 'all' = fieldFilters.MediaType?.length === 1
+    ? (fieldFilters.MediaType[0] === 'Video' ? 'video' : 'photo')
+    : 'all';
+  const handleMediaScopeChange = (scope: MediaKind | 'all') => {
+    if (!canChangeMediaScope) return;
+    handleFieldFilterChange('MediaType', scope === 'all' ? ['Photo', 'Video'] : [scope === 'video' ? 'Video' : 'Photo']);
+  };
   // Handle changes to crop factors
   const handleCropFactorChange = (model: string, factorStr: string) => {
+    // Clearing the input falls back to the inferred factor
+    if (factorStr.trim() === '') {
+      setCropFactors(prev => {
+        const next = { ...prev };
+        delete next[model];
+        return next;
+      });
+      return;
+    }
     const factor = parseFloat(factorStr);
     setCropFactors(prev => ({
       ...prev,
       [model]: isNaN(factor) || factor <= 0 ? 1.0 : factor,
     }));
   };
-  // Function to recursively count image files in a directory
-  const countFiles = async (dirHandle: FileSystemDirectoryHandle): Promise<number> => {
-    let count = 0;
-    const imageRegex = /\.(jpe?g|heic|cr3|arw)$/i;
+  // Function to recursively collect image files in a directory
+  const collectDirectoryFiles = async (dirHandle: FileSystemDirectoryHandle, currentPath: string): Promise<ScanEntry[]> => {
+    const entries: ScanEntry[] = [];
     for await (const entry of dirHandle.values()) {
-      if (entry.kind === 'file' && imageRegex.test(entry.name)) {
-        count++;
+      const entryPath = `${currentPath}/${entry.name}`;
+      if (entry.kind === 'file' && isScannedFile(entry.name)) {
+        entries.push({ file: await entry.getFile(), relativePath: entryPath, folderPath: currentPath });
       } else if (entry.kind === 'directory') {
-        count += await countFiles(entry); 
+        entries.push(...await collectDirectoryFiles(entry, entryPath));
       }
     }
-    return count;
+    return entries;
   };
-  // Function to recursively process a directory and extract photo data
-  const processDirectory = async (dirHandle: FileSystemDirectoryHandle, currentPath: string, onProgress: () => void): Promise<PhotoData[]> => {
-    const photoResults: PhotoData[] = [];
-    const imageRegex = /\.(jpe?g|heic|cr3|arw)$/i; 
-    for await (const entry of dirHandle.values()) {
-      const entryPath = `${currentPath}/${entry.name}`;
-      if (entry.kind === 'file' && imageRegex.test(entry.name)) {
-        const file = await entry.getFile();
-        try {
-          const exifObj = await exifr.parse(file);
-          let processedExif: ExifData = {};
-          if (exifObj) {
-            processedExif = {
-              Make: exifObj.Make,  
-              Model: exifObj.Model,
-              LensModel: exifObj.LensModel,
-              ExposureTime: exifObj.ExposureTime,
-              FNumber: exifObj.FNumber,
-              ISOSpeedRatings: exifObj.ISOSpeedRatings,
-              DateTimeOriginal: exifObj.DateTimeOriginal,
-              FocalLength: exifObj.FocalLength,
-              FocalLengthIn35mmFormat: exifObj.FocalLengthIn35mmFormat,
-            };
-          }
-          photoResults.push({
-            id: `local-${file.name}-${file.lastModified}`,
-            source: 'local',
-            filename: file.name,
-            exif: processedExif,
-            folderPath: currentPath, 
-          });
-        } catch (e) {
-          console.warn(`無法解析檔案 ${file.name} 的 EXIF`, e);
-        } finally {
-          onProgress();
-        }
-      } else if (entry.kind === 'directory') {
-        const subFolderPhotos = await processDirectory(entry, entryPath, onProgress);
-        photoResults.push(...subFolderPhotos);
+  // Record the failures of a scan; a complete scan replaces the earlier failures of the same root folder
+  const mergeScanFailures = (rootName: string, failures: ScanFailure[], replaceRoot: boolean) => {
+    setScanFailures(prevFailures => {
+      const newKeys = new Set(failures.map(f => `${f.folderPath}/${f.filename}`));
+      const keptFailures = prevFailures.filter(f =>
+        !newKeys.has(`${f.folderPath}/${f.filename}`)
+        && !(replaceRoot && (f.folderPath === rootName || f.folderPath.startsWith(`${rootName}/`)))
+      );
+      return [...keptFailures, ...failures];
+    });
+  };
+  // Merge the photos of a scanned folder with existing ones, avoiding duplicates.
+  // After a complete scan, photos previously loaded from the same root folder are replaced, so deleted files disappear.
+  const mergeScannedPhotos = (rootName: string, newPhotos: PhotoData[], replaceRoot: boolean) => {
+    setLocalPhotos(prevPhotos => {
+      const keptPhotos = replaceRoot
+        ? prevPhotos.filter(p => p.folderPath !== rootName && !p.folderPath.startsWith(`${rootName}/`))
+        : prevPhotos;
+      const existingIds = new Set(keptPhotos.map(p => p.id));
+      const uniqueNewPhotos = newPhotos.filter(p => !existingIds.has(p.id));
+      const combinedPhotos = [...keptPhotos, ...uniqueNewPhotos];
+      const newPaths = Array.from(new Set(uniqueNewPhotos.map(p => p.folderPath)));
+      setSelectedFolderPaths(prevSelected => Array.from(new Set([...prevSelected, ...newPaths])).sort());
+      return combinedPhotos;
+    });
+  };
+  // Add the photos of a NAS album or folder, replacing an earlier import of the same one
+  const mergeSynologyPhotos = (folderPath: string, newPhotos: PhotoData[]) => {
+    setLocalPhotos(prevPhotos => [...prevPhotos.filter(p => p.folderPath !== folderPath), ...newPhotos]);
+    setSelectedFolderPaths(prevSelected => Array.from(new Set([...prevSelected, folderPath])).sort());
+  };
+  // Add the photos of a WebDAV folder; like a complete local scan, it replaces earlier imports below that folder
+  const mergeWebDavPhotos = (rootName: string, newPhotos: PhotoData[], failures: ScanFailure[]) => {
+    mergeScannedPhotos(rootName, newPhotos, true);
+    mergeScanFailures(rootName, failures, true);
+  };
+  // Parse the files of a root folder in the worker pool, reusing cached EXIF of unchanged files
+  const scanFiles = async (rootName: string, entries: ScanEntry[]) => {
+    const cache = await openCacheSession(rootName);
+    const photos: PhotoData[] = [];
+    const failures: ScanFailure[] = [];
+    const jobs: ExifPoolJob[] = [];
+    entries.forEach((entry, index) => {
+      const cachedPhoto = lookupCachedPhoto(cache, entry.relativePath, entry.file);
+      if (cachedPhoto) {
+        // Entries cached before ids were path-based carry the old id
+        photos.push({ ...cachedPhoto, id: getLocalPhotoId(entry.relativePath) });
+      } else {
+        jobs.push({ index, file: entry.file });
       }
+    });
+    setProgress({ loading: true, paused: false, processed: photos.length, total: entries.length, message: '正在解析照片 EXIF 資訊...' });
+
+    const pool = createExifPool();
+    exifPoolRef.current = pool;
+    const status = await pool.run(jobs, results => {
+      results.forEach(result => {
+        const { file, relativePath, folderPath } = entries[result.index];
+        if (result.error !== undefined) {
+          console.warn(`無法解析檔案 ${file.name} 的 EXIF`, result.error);
+          failures.push({ filename: file.name, folderPath, reason: result.error });
+          return;
+        }
+        const photo: PhotoData = {
+          id: getLocalPhotoId(relativePath),
+          source: 'local',
+          filename: file.name,
+          exif: result.exif,
+          folderPath,
+          contentHash: result.contentHash,
+        };
+        photos.push(photo);
+        rememberPhoto(cache, relativePath, file, photo);
+      });
+      setProgress(prev => ({ ...prev, processed: prev.processed + results.length }));
+    });
+    exifPoolRef.current = null;
+
+    const completed = status === 'completed';
+    // Persist newly parsed files; only a complete scan may drop cache entries of deleted files
+    await commitCacheSession(cache, { prune: completed });
+    setLastScan({ cached: cache.hits, parsed: cache.fresh.length });
+    setCacheVersion(v => v + 1);
+    // Keep the partial results of a cancelled scan usable
+    mergeScannedPhotos(rootName, photos, completed);
+    mergeScanFailures(rootName, failures, completed);
+    if (!completed) {
+      setError(`已取消解析，保留已完成的 ${photos.length} / ${entries.length} 張照片。`);
     }
-    return photoResults;
   };
   // Handle legacy folder selection via hidden file input
   const handleLegacyFolderSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     setError('');
-    const files = event.target.files;
+    const input = event.target;
+    const files = input.files;
     if (!files || files.length === 0) {
       return; 
     }
-    const fileArray = Array.from(files);
-    const totalFiles = fileArray.length;
-    // Set progress state to loading
-    setProgress({ loading: true, processed: 0, total: totalFiles, message: '正在解析照片 EXIF 資訊...' });
-    // Process each file to extract EXIF data
-    const photoPromises = fileArray.map(async (file) => {
-      try {
-        const exifObj = await exifr.parse(file);
-        let processedExif: ExifData = {};
-        if (exifObj) {
-          processedExif = {
-            Make: exifObj.Make,
-            Model: exifObj.Model,
-            LensModel: exifObj.LensModel,
-            ExposureTime: exifObj.ExposureTime,
-            FNumber: exifObj.FNumber,
-            ISOSpeedRatings: exifObj.ISOSpeedRatings,
-            DateTimeOriginal: exifObj.DateTimeOriginal,
-            FocalLength: exifObj.FocalLength,
-            FocalLengthIn35mmFormat: exifObj.FocalLengthIn35mmFormat,
-          };
-        }
-        const folderPath = file.webkitRelativePath.substring(0, file.webkitRelativePath.lastIndexOf('/')) || 'Selected Folder';
-        // Update progress after processing each file
-        setProgress(prev => ({ ...prev, processed: prev.processed + 1 }));
-        return {
-          id: `local-${file.name}-${file.lastModified}`,
-          source: 'local',
-          filename: file.name,
-          exif: processedExif,
-          folderPath: folderPath,
-        };
-      } catch (e) {
-        console.warn(`無法解析檔案 ${file.name} 的 EXIF`, e);
-        setProgress(prev => ({ ...prev, processed: prev.processed + 1 }));
-        return null;
-      }
-    });
-    // Wait for all files to be processed and filter out any null results
-    const newPhotos = (await Promise.all(photoPromises)).filter(Boolean) as PhotoData[];
-    // Merge new photos with existing ones, avoiding duplicates
-    setLocalPhotos(prevPhotos => {
-      const existingIds = new Set(prevPhotos.map(p => p.id));
-      const uniqueNewPhotos = newPhotos.filter(p => !existingIds.has(p.id));
-      const combinedPhotos = [...prevPhotos, ...uniqueNewPhotos];
-      const allPaths = Array.from(new Set(combinedPhotos.map(p => p.folderPath))).sort();
-      setAllFolderPaths(allPaths);
-      const newPaths = Array.from(new Set(uniqueNewPhotos.map(p => p.folderPath)));
-      setSelectedFolderPaths(prevSelected => Array.from(new Set([...prevSelected, ...newPaths])).sort());
-      return combinedPhotos;
-    });
+    const fileArray = Array.from(files).filter(file => isScannedFile(file.name));
     // Reset the file input value to allow re-selection of the same folder
-    if (event.target) {
-      event.target.value = '';
+    input.value = '';
+    if (fileArray.length === 0) {
+      setError('在選擇的資料夾及其子資料夾中沒有找到符合所選檔案類型的照片或影片。');
+      return;
+    }
+    // The first path segment is the selected folder, matching the directory picker's paths
+    const rootName = fileArray[0].webkitRelativePath.split('/')[0] || 'Selected Folder';
+    const entries: ScanEntry[] = fileArray.map(file => ({
+      file,
+      relativePath: file.webkitRelativePath || `${rootName}/${file.name}`,
+      folderPath: file.webkitRelativePath.substring(0, file.webkitRelativePath.lastIndexOf('/')) || 'Selected Folder',
+    }));
+    try {
+      await scanFiles(rootName, entries);
+    } catch (e) {
+      console.error(e);
+      setError('讀取本地資料夾失敗。');
+    } finally {
+      // Reset progress state
+      setProgress(IDLE_PROGRESS);
     }
-    // Reset progress state
-    setProgress({ loading: false, processed: 0, total: 0, message: '' });
   };
   
   // Handle folder selection using the File System Access API
@@ -288,31 +653,14 @@ function App() {
       setError('');
       try {
         const dirHandle = await window.showDirectoryPicker();
-        setProgress({ loading: true, processed: 0, total: 0, message: '正在掃描檔案總數...' });
-        const totalFiles = await countFiles(dirHandle);
-        if (totalFiles === 0) {
-          setError('在選擇的資料夾及其子資料夾中沒有找到符合條件的照片檔案。');
-          setProgress({ loading: false, processed: 0, total: 0, message: '' });
+        directoryHandlesRef.current.set(dirHandle.name, dirHandle);
+        setProgress({ ...IDLE_PROGRESS, loading: true, message: '正在掃描檔案總數...' });
+        const entries = await collectDirectoryFiles(dirHandle, dirHandle.name);
+        if (entries.length === 0) {
+          setError('在選擇的資料夾及其子資料夾中沒有找到符合所選檔案類型的照片或影片。');
           return;
         }
-        // Set progress state to loading
-        setProgress({ loading: true, processed: 0, total: totalFiles, message: '正在解析照片 EXIF 資訊...' });
-        const onProgressUpdate = () => {
-          setProgress(prev => ({ ...prev, processed: prev.processed + 1 }));
-        };
-        // Process the selected directory
-        const newPhotos = await processDirectory(dirHandle, dirHandle.name, onProgressUpdate);
-        // Merge new photos with existing ones, avoiding duplicates
-        setLocalPhotos(prevPhotos => {
-          const existingIds = new Set(prevPhotos.map(p => p.id));
-          const uniqueNewPhotos = newPhotos.filter(p => !existingIds.has(p.id));
-          const combinedPhotos = [...prevPhotos, ...uniqueNewPhotos];
-          const allPaths = Array.from(new Set(combinedPhotos.map(p => p.folderPath))).sort();
-          setAllFolderPaths(allPaths);
-          const newPaths = Array.from(new Set(uniqueNewPhotos.map(p => p.folderPath)));
-          setSelectedFolderPaths(prevSelected => Array.from(new Set([...prevSelected, ...newPaths])).sort());
-          return combinedPhotos;
-        });
+        await scanFiles(dirHandle.name, entries);
       } catch (e) {
         console.error(e);
         if (e instanceof DOMException && e.name === 'AbortError') {
@@ -321,7 +669,7 @@ function App() {
           setError('讀取本地資料夾失敗。');
         }
       } finally {
-        setProgress({ loading: false, processed: 0, total: 0, message: '' });
+        setProgress(IDLE_PROGRESS);
       }
     } else {
       console.log("瀏覽器不支援，使用傳統 input (備用方案)");
@@ -330,84 +678,53 @@ function App() {
       }
     }
   };
-
-  // Calculate equivalent focal length based on crop factor
-  const getEquivalentFocalLength = (photo: PhotoData): number | undefined => {
-    const { exif } = photo;
-    // Use 35mm equivalent if available
-    if (typeof exif.FocalLengthIn35mmFormat === 'number' && exif.FocalLengthIn35mmFormat > 0) {
-      return exif.FocalLengthIn35mmFormat;
-    }
-    // Apply crop factor if known
-    if (exif.Model && cropFactors[exif.Model] && typeof exif.FocalLength === 'number') {
-      return Math.round(exif.FocalLength * cropFactors[exif.Model]);
+  // Pause or resume the running scan
+  const handleTogglePause = () => {
+    const pool = exifPoolRef.current;
+    if (!pool) return;
+    if (progress.paused) {
+      pool.resume();
+    } else {
+      pool.pause();
     }
-    // Fallback to actual focal length
-    return exif.FocalLength;
-  }
-
-  // Parse focal length ranges input into structured rules
-  const parseFocalLengthRanges = (rangesStr: string): ParsedRange[] => {
-    const groups = rangesStr.split(',');
-    return (groups.map(group => {
-      const trimmedGroup = group.trim();
-      if (trimmedGroup.toLowerCase() === 'other') {
-        return {
-          label: 'Other',
-          type: 'other',
-
-          test: () => false, 
-        };
-      }
-      // Handle merged ranges like "18-55+70-200"
-      if (trimmedGroup.includes('+')) {
-        const subRanges = trimmedGroup.split('+').map(r => r.trim());
-        const parsedSubRanges = subRanges.map(sub => {
-          const [min, max] = sub.split('-').map(Number);
-          return { min, max };
-        });
-        // If any sub-range is invalid, skip this rule
-        if (parsedSubRanges.some(r => isNaN(r.min) || isNaN(r.max))) {
-          return null; 
-        }
-        // Create a test function that checks if a focal length falls within any of the sub-ranges
-        return {
-          label: subRanges.map(s => `[${s}]`).join('+') + 'mm',
-          type: 'merged',
-          test: (fl: number) => parsedSubRanges.some(r => fl >= r.min && fl <= r.max),
-        };
-      }
+    setProgress(prev => ({ ...prev, paused: !prev.paused }));
+  };
+  // Cancel the running scan, keeping what has been parsed so far
+  const handleCancelScan = () => {
+    exifPoolRef.current?.cancel();
+  };
 
-      // Handle single focal lengths like "50"
-      if (!trimmedGroup.includes('-')) {
-        const focalLength = Number(trimmedGroup);
-        if (!isNaN(focalLength)) {
-          return {
-            label: `${focalLength}mm`,
-            type: 'single',
-            test: (fl: number) => Math.round(fl) === focalLength,
-          };
-        }
-      }
+  // Apply the folder, model and lens selections
+  const filteredPhotos = useMemo(() => filterPhotos(allPhotos, {
+    folders: selectedFolderPaths,
+    models: selectedModels,
+    lenses: selectedLenses,
+    fields: fieldFilters,
+    query: activeQuery,
+    area: mapSelection ?? undefined,
+  }, names), [allPhotos, selectedFolderPaths, selectedModels, selectedLenses, fieldFilters, activeQuery, mapSelection, names]);
 
-      // Handle ranges like "24-70"
-      const [min, max] = trimmedGroup.split('-').map(Number);
-      if (!isNaN(min) && !isNaN(max)) {
-        return {
-          label: `${min}-${max}mm`,
-          type: 'range',
-          test: (fl: number) => fl >= min && fl <= max,
-        };
-      }
-      return null; 
-    }).filter(Boolean) as ParsedRange[]); 
-  };
+  // Grouping and bucketing options of the current chart
+  const getAggregateOptions = (): AggregateOptions => ({
+    groupBy,
+    cropFactors: effectiveCropFactors,
+    lensFactorRules,
+    names,
+    focalLengthMode,
+    focalLengthRanges: debouncedFocalLengthRanges,
+    exposureMode,
+    apertureScale,
+    timeGranularity: timeView === 'heatmap' ? undefined : timeView,
+  });
 
   // Generate chart data based on current filters and grouping
   const handleGenerateChart = () => {
-    const photosFromSelectedFolders = allPhotos.filter(photo =>
-      selectedFolderPaths.includes(photo.folderPath)
-    );
+    // A listed bar may no longer exist or hold the same photos
+    setDrillDown(null);
+    setHeatmapData(null);
+    setStatRows([]);
+    setComparison(null);
+    setCrossTab(null);
     // If no models or lenses are selected, clear the chart
     if (selectedModels.length === 0 || selectedLenses.length === 0) {
       setChartData({
@@ -422,80 +739,74 @@ function App() {
       });
       return; 
     }
-    // Filter photos based on selected models and lenses
-    const filteredPhotos = photosFromSelectedFolders.filter(photo => {
-      const modelMatch = selectedModels.includes(photo.exif.Model || '');
-      let lensMatch = true;
-      if (photo.exif.LensModel) {
-        lensMatch = selectedLenses.includes(photo.exif.LensModel);
-      }
-      return modelMatch && lensMatch;
-    });
-    // If no photos match the filters, clear the chart
-    const counts: { [key: string]: number } = {};
-    let labels: string[] = [];
-
-    // Handle grouping by focal length with different modes
-    if (groupBy === 'FocalLength') {
-      if (focalLengthMode === 'range') { 
-        const parsedRanges = parseFocalLengthRanges(focalLengthRanges);
-        const otherRule = parsedRanges.find(r => r.type === 'other');
-        const regularRules = parsedRanges.filter(r => r.type !== 'other');
+    // The hour × weekday heatmap is rendered outside Chart.js
+    if (groupBy === 'DateTimeOriginal' && timeView === 'heatmap') {
+      const dates = filteredPhotos.map(photo => photo.exif.DateTimeOriginal).filter(Boolean) as Date[];
+      setChartData(null);
+      setHeatmapData(dates.length > 0 ? buildHourWeekdayMatrix(dates) : null);
+      return;
+    }
 
-        labels = parsedRanges.map(r => r.label);
-        labels.forEach(l => counts[l] = 0);
+    const aggregateOptions = getAggregateOptions();
 
-        filteredPhotos.forEach(photo => {
-          const focalLength = getEquivalentFocalLength(photo);
-          if (typeof focalLength === 'number') {
+    // Comparison mode: one dataset per cohort, normalized to percentages
+    if (isCompareMode) {
+      const compared = compareCohorts(filteredPhotos, cohortDefinitions.map(toCohort), aggregateOptions);
+      setComparison(compared);
+      if (!compared) {
+        setChartData(null);
+        return;
+      }
+      setChartData({
+        labels: compared.labels,
+        datasets: compared.series.map((series, i) => {
+          const color = COHORT_COLORS[i % COHORT_COLORS.length];
+          return {
+            label: `${series.name}（${series.total} 張）`,
+            data: series.percentages,
+            backgroundColor: compared.labels.map(() => color),
+            borderColor: compared.labels.map(() => color.replace('0.6', '1')),
+            borderWidth: 1,
+          };
+        }),
+      });
+      return;
+    }
 
-            const foundRule = regularRules.find(rule => rule.test(focalLength));
-            
-            if (foundRule) {
-              counts[foundRule.label]++;
-            } else if (otherRule) {
-              counts[otherRule.label]++;
-            }
-          }
-        });
-        // Remove "Other" label if it has zero count
-        if (otherRule && counts[otherRule.label] === 0) {
-          delete counts[otherRule.label];
-          labels = labels.filter(l => l !== otherRule.label);
-        }
-      } else { 
-          // Continuous mode: count each focal length individually
-          const focalLengths = filteredPhotos.map(getEquivalentFocalLength).filter(fl => typeof fl === 'number') as number[];
-          if(focalLengths.length === 0) {
-              setChartData(null);
-              return;
-          }
-          const minFl = Math.min(...focalLengths);
-          const maxFl = Math.max(...focalLengths);
-          
-          for (let i = minFl; i <= maxFl; i++) {
-              counts[i.toString()] = 0;
-          }
-          focalLengths.forEach(fl => {
-              counts[Math.round(fl).toString()]++;
-          });
-          labels = Object.keys(counts);
-
-          const sortedByCount = Object.keys(counts).sort((a, b) => counts[b] - counts[a]);
-          setTopFocalLengthLabels(sortedByCount.slice(0, 3));
+    // Breakdown: one stacked dataset per value of the second dimension
+    if (breakdownBy && breakdownBy !== groupBy) {
+      const table = crossTabulate(filteredPhotos, aggregateOptions, breakdownBy);
+      setCrossTab(table);
+      if (!table) {
+        setChartData(null);
+        return;
       }
-    } else { 
-        filteredPhotos.forEach(photo => {
-            const key = (photo.exif[groupBy] as string) || 'Unknown';
-            counts[key] = (counts[key] || 0) + 1;
-        });
-
-        labels = Object.keys(counts).sort((a, b) => counts[b] - counts[a]);
-        setTopFocalLengthLabels([]);
+      setChartData({
+        labels: table.rowLabels,
+        datasets: table.columnLabels.map((label, column) => {
+          const color = breakdownColor(column, table.columnLabels.length);
+          return {
+            label,
+            data: table.counts.map(rowCounts => rowCounts[column]),
+            backgroundColor: table.rowLabels.map(() => color),
+            borderColor: table.rowLabels.map(() => color.replace('0.6', '1')),
+            borderWidth: 1,
+          };
+        }),
+      });
+      return;
+    }
+
+    const result = aggregatePhotos(filteredPhotos, aggregateOptions);
+    if (!result) {
+      setChartData(null);
+      return;
     }
+    setTopLabels(result.topLabels);
+    setStatRows(toStatRows(result));
     
     // Prepare data for Chart.js
-    const data = labels.map(label => counts[label]);
+    const { labels, counts: data } = result;
     const colors = data.map(() => `rgba(${Math.floor(Math.random() * 255)}, ${Math.floor(Math.random() * 255)}, ${Math.floor(Math.random() * 255)}, 0.6)`);
 
     // Highlight top 3 focal lengths in continuous mode
@@ -511,10 +822,264 @@ function App() {
     });
   };
 
+  // Change the grouping; a breakdown by the same field would be meaningless, so drop it
+  const handleGroupByChange = (field: GroupByField) => {
+    setGroupBy(field);
+    if (field === breakdownBy) {
+      setBreakdownBy('');
+    }
+  };
+
   // Determine if the chart should be horizontal based on grouping
-  const isHorizontal = ['Model', 'LensModel'].includes(groupBy);
+  const isHorizontal = ['Model', 'LensModel', 'BodySerialNumber', 'LensSerialNumber', 'Software'].includes(groupBy);
+  // Continuous modes only label the top bars to keep the histogram readable
+  const isContinuousView = (groupBy === 'FocalLength' && focalLengthMode === 'continuous')
+    || (isExposureField(groupBy) && exposureMode === 'continuous');
   const activeFilterCount = selectedModels.length + selectedLenses.length + selectedFolderPaths.length;
 
+  // Bar label: count and percentage; continuous modes only label the top bars
+  const formatDataLabel = (value: number, label: string, data: number[]): string | null => {
+    if (isContinuousView && !topLabels.includes(label)) {
+      return null;
+    }
+    const total = data.reduce((sum, val) => sum + (Number(val) || 0), 0);
+    if (total === 0) return '0%';
+    const percentage = ((value / total) * 100).toFixed(1) + '%';
+    return `${value} (${percentage})`;
+  };
+
+  // Comparison bars show their percentage, unless there are too many bars to read
+  const formatCohortLabel = (value: number, labelCount: number, datasetCount: number): string | null =>
+    labelCount * datasetCount <= 30 ? `${value}%` : null;
+
+  // Stacked segments are identified by the legend and tooltip, so they carry no labels
+  const formatBarLabel = (value: number, label: string, data: number[], labelCount: number, datasetCount: number) => {
+    if (crossTab) return null;
+    return comparison ? formatCohortLabel(value, labelCount, datasetCount) : formatDataLabel(value, label, data);
+  };
+
+  const chartTitle = comparison
+    ? `依 ${GROUP_BY_LABELS[groupBy] || groupBy} 比較各組照片比例（%）`
+    : crossTab && breakdownBy
+      ? `依 ${GROUP_BY_LABELS[groupBy] || groupBy} × ${GROUP_BY_LABELS[breakdownBy] || breakdownBy} 統計之照片張數`
+      : chartData?.datasets[0].label;
+  // Comparison charts plot percentages on the value axis
+  const percentTicks = { callback: (value: string | number) => `${value}%` };
+
+  // List the photos of a clicked bar; in comparison and breakdown charts the dataset picks the cohort or column
+  const handleBarClick = (index: number, datasetIndex: number) => {
+    const label = chartData?.labels[index];
+    if (label === undefined) return;
+    const groupLabel = `${GROUP_BY_LABELS[groupBy] || groupBy}：${label}`;
+    if (comparison) {
+      const definition = cohortDefinitions[datasetIndex];
+      if (!definition) return;
+      const cohort = toCohort(definition);
+      setDrillDown({
+        title: `${cohort.name} · ${groupLabel}`,
+        photos: selectBarPhotos(filteredPhotos, getAggregateOptions(), { label, cohort }),
+      });
+    } else if (crossTab && breakdownBy) {
+      const breakdownLabel = crossTab.columnLabels[datasetIndex];
+      setDrillDown({
+        title: `${groupLabel} · ${GROUP_BY_LABELS[breakdownBy] || breakdownBy}：${breakdownLabel}`,
+        photos: selectBarPhotos(filteredPhotos, getAggregateOptions(), { label, breakdownBy, breakdownLabel }),
+      });
+    } else {
+      setDrillDown({ title: groupLabel, photos: selectBarPhotos(filteredPhotos, getAggregateOptions(), { label }) });
+    }
+  };
+
+  // Chart.js options shared by the on-screen chart and the PNG export
+  const chartOptions: ChartOptions<'bar'> = {
+    indexAxis: isHorizontal ? 'y' : 'x', 
+    responsive: true,
+    onClick: (_event, elements) => {
+      if (elements.length > 0) handleBarClick(elements[0].index, elements[0].datasetIndex);
+    },
+    onHover: (event, elements) => {
+      const canvas = event.native?.target;
+      if (canvas instanceof HTMLElement) canvas.style.cursor = elements.length > 0 ? 'pointer' : 'default';
+    },
+    layout: {
+      padding: {
+        top: 0,
+        right: 40 
+      }
+    },
+    plugins: {
+      legend: { display: !!comparison || !!crossTab },
+      title: { display: true, text: chartTitle },
+      tooltip: comparison ? {
+        callbacks: {
+          label: context => {
+            const series = comparison.series[context.datasetIndex];
+            return `${series.name}: ${context.parsed[isHorizontal ? 'x' : 'y']}%（${series.counts[context.dataIndex]} 張）`;
+          },
+        },
+      } : {},
+      datalabels: {
+        anchor: 'end',
+        align: 'end',
+        clip: false,
+        formatter: (value, context) => formatBarLabel(
+          value,
+          context.chart.data.labels?.[context.dataIndex] as string,
+          context.chart.data.datasets[0].data as number[],
+          context.chart.data.labels?.length || 0,
+          context.chart.data.datasets.length
+        ),
+        color: '#333',
+        font: {
+            weight: 'bold',
+        }
+      }
+    },
+    scales: {
+        x: {
+            stacked: !!crossTab,
+            ...(comparison && isHorizontal ? { ticks: percentTicks } : {})
+        },
+        y: {
+            stacked: !!crossTab,
+            ticks: {
+                autoSkip: false,
+                ...(comparison && !isHorizontal ? percentTicks : {})
+            }
+        }
+    }
+  };
+
+  // File name stem for exports, e.g. photo-stats-FocalLength
+  const exportName = `photo-stats-${groupBy}${comparison ? '-compare' : ''}${crossTab ? `-by-${breakdownBy}` : ''}`;
+
+  // Export the aggregated statistics
+  const handleExportStats = (format: ExportFormat) => {
+    if (crossTab) {
+      if (format === 'csv') {
+        downloadText(`${exportName}.csv`, formatCrossTabCsv(crossTab), 'text/csv');
+      } else {
+        downloadText(`${exportName}.json`, formatCrossTabJson(crossTab), 'application/json');
+      }
+    } else if (comparison) {
+      if (format === 'csv') {
+        downloadText(`${exportName}.csv`, formatComparisonCsv(comparison), 'text/csv');
+      } else {
+        downloadText(`${exportName}.json`, formatComparisonJson(comparison), 'application/json');
+      }
+    } else if (heatmapData) {
+      if (format === 'csv') {
+        downloadText(`${exportName}-heatmap.csv`, formatHeatmapCsv(heatmapData), 'text/csv');
+      } else {
+        downloadText(`${exportName}-heatmap.json`, formatHeatmapJson(heatmapData), 'application/json');
+      }
+    } else if (format === 'csv') {
+      downloadText(`${exportName}.csv`, formatStatsCsv(statRows), 'text/csv');
+    } else {
+      downloadText(`${exportName}.json`, formatStatsJson(statRows), 'application/json');
+    }
+  };
+
+  // Export the per-photo table with the current filters applied
+  const handleExportPhotos = (format: ExportFormat) => {
+    const rows = toPhotoRows(filteredPhotos, effectiveCropFactors, lensFactorRules);
+    if (format === 'csv') {
+      downloadText('photos.csv', formatPhotosCsv(rows), 'text/csv');
+    } else {
+      downloadText('photos.json', formatPhotosJson(rows), 'application/json');
+    }
+  };
+
+  // Export the chart as PNG (rendered by Chart.js) or SVG (vector)
+  const handleExportChart = async (format: ChartImageFormat, width: number, height: number, scale: number) => {
+    if (!chartData) return;
+    try {
+      if (format === 'png') {
+        const blob = await renderChartPng(chartData, chartOptions, width, height, scale);
+        downloadBlob(`${exportName}.png`, blob);
+      } else {
+        const svg = renderChartSvg({
+          labels: chartData.labels,
+          datasets: chartData.datasets.map(dataset => ({
+            label: dataset.label,
+            data: dataset.data,
+            colors: dataset.backgroundColor,
+            dataLabels: chartData.labels.map((label, i) =>
+              formatBarLabel(dataset.data[i], label, dataset.data, chartData.labels.length, chartData.datasets.length)),
+          })),
+          title: chartTitle || '',
+          horizontal: isHorizontal,
+          stacked: !!crossTab,
+          valueSuffix: comparison ? '%' : undefined,
+        }, width, height);
+        downloadText(`${exportName}.svg`, svg, 'image/svg+xml');
+      }
+    } catch (e) {
+      console.error(e);
+      setError('匯出圖表失敗。');
+    }
+  };
+
+  // Export the library as a metadata-only snapshot
+  const handleExportSnapshot = (anonymize: boolean) => {
+    // Every loaded file is exported, so the duplicate policy can still be changed after import
+    const snapshot = createSnapshot(loadedPhotos, cropFactors, {
+      groupBy,
+      focalLengthMode,
+      focalLengthRanges: debouncedFocalLengthRanges,
+      exposureMode,
+      apertureScale,
+      timeView,
+      duplicatePolicy,
+    }, { anonymize, lensFactorRules, nameRules });
+    downloadText('photo-stats-snapshot.json', formatSnapshot(snapshot), 'application/json');
+  };
+
+  // Import a snapshot as a read-only source; its rules are merged, its analysis settings applied on request
+  const handleImportSnapshot = async (file: File) => {
+    setError('');
+    try {
+      const snapshot = parseSnapshot(await file.text());
+      const name = file.name.replace(/\.json$/i, '');
+      const id = `${name}-${Date.now()}`;
+      // Prefix ids and folders so imported photos never collide with local ones
+      const photos = snapshot.photos.map(photo => ({
+        ...photo,
+        id: `snapshot:${id}:${photo.id}`,
+        folderPath: photo.folderPath ? `${name}/${photo.folderPath}` : name,
+      }));
+      setSnapshotSources(prev => [...prev, { id, name, createdAt: snapshot.createdAt, anonymized: snapshot.anonymized, photos }]);
+      setSelectedFolderPaths(prev => Array.from(new Set([...prev, ...photos.map(p => p.folderPath)])).sort());
+      setCropFactors(prev => ({ ...prev, ...snapshot.cropFactors }));
+      setLensFactorRules(prev => mergeLensFactorRules(prev, snapshot.lensFactorRules));
+      setNameRules(prev => mergeNameRules(prev, snapshot.nameRules));
+      const settings = getChangedSettings(snapshot.settings, {
+        groupBy,
+        focalLengthMode,
+        focalLengthRanges: debouncedFocalLengthRanges,
+        exposureMode,
+        apertureScale,
+        timeView,
+        duplicatePolicy,
+      });
+      const changed = (Object.keys(settings) as (keyof SnapshotSettings)[]).map(key => SNAPSHOT_SETTING_LABELS[key]);
+      if (changed.length === 0
+        || !window.confirm(`快照的分析設定與目前不同：${changed.join('、')}。要改用快照的設定嗎？（取消則保留目前設定）`)) {
+        return;
+      }
+      if (settings.groupBy) setGroupBy(settings.groupBy);
+      if (settings.focalLengthMode) setFocalLengthMode(settings.focalLengthMode);
+      if (settings.focalLengthRanges) setFocalLengthRanges(settings.focalLengthRanges);
+      if (settings.exposureMode) setExposureMode(settings.exposureMode);
+      if (settings.apertureScale) setApertureScale(settings.apertureScale);
+      if (settings.timeView) setTimeView(settings.timeView);
+      if (settings.duplicatePolicy) setDuplicatePolicy(settings.duplicatePolicy);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : '匯入快照失敗。');
+    }
+  };
+
   // Component for rendering filter groups with select all functionality
   return (
     <div className="container">
@@ -537,7 +1102,11 @@ function App() {
             {progress.total > 0 && (
               <>
                 <progress value={progress.processed} max={progress.total}></progress>
-                <span>{progress.processed} / {progress.total}</span>
+                <span>{progress.processed} / {progress.total}{progress.paused && '（已暫停）'}</span>
+                <div className="progress-controls">
+                  <button onClick={handleTogglePause}>{progress.paused ? '繼續' : '暫停'}</button>
+                  <button onClick={handleCancelScan}>取消</button>
+                </div>
               </>
             )}
           </div>
@@ -548,7 +1117,51 @@ function App() {
             篩選與設定 {activeFilterCount > 0 && `(${activeFilterCount})`}
           </button>
         )}
+        {(allPhotos.length > 0 || scanFailures.length > 0) && (
+          <button onClick={() => setQualityPanelOpen(open => !open)} style={{ marginLeft: '10px' }}>
+            資料品質 {scanFailures.length > 0 && `(${scanFailures.length} 個錯誤)`}
+          </button>
+        )}
+        {allPhotos.length > 0 && (
+          <button onClick={() => setMapPanelOpen(open => !open)} style={{ marginLeft: '10px' }}>
+            {isMapPanelOpen ? '隱藏地圖' : '拍攝地圖'} {mapSelection && '(已選取範圍)'}
+          </button>
+        )}
+        <button onClick={() => setSynologyPanelOpen(open => !open)} style={{ marginLeft: '10px' }}>
+          {isSynologyPanelOpen ? '隱藏 NAS 連線' : '連線 Synology NAS'}
+        </button>
+        <button onClick={() => setWebDavPanelOpen(open => !open)} style={{ marginLeft: '10px' }}>
+          {isWebDavPanelOpen ? '隱藏 WebDAV 連線' : '連線 WebDAV / Nextcloud'}
+        </button>
+        <button onClick={() => setSnapshotPanelOpen(open => !open)} style={{ marginLeft: '10px' }}>
+          {isSnapshotPanelOpen ? '隱藏快照' : '快照匯入/匯出'}
+        </button>
+        <button onClick={() => setCachePanelOpen(open => !open)} style={{ marginLeft: '10px' }}>
+          {isCachePanelOpen ? '隱藏快取資訊' : 'EXIF 快取'}
+        </button>
       </div>
+      {isSynologyPanelOpen && <SynologyPanel onImport={mergeSynologyPhotos} />}
+      {isWebDavPanelOpen && <WebDavPanel onImport={mergeWebDavPhotos} isScannedFile={isScannedFile} />}
+      {isSnapshotPanelOpen && (
+        <SnapshotPanel
+          sources={snapshotSources.map(source => ({
+            id: source.id,
+            name: source.name,
+            photoCount: source.photos.length,
+            createdAt: source.createdAt,
+            anonymized: source.anonymized,
+          }))}
+          canExport={allPhotos.length > 0}
+          onExport={handleExportSnapshot}
+          onImport={handleImportSnapshot}
+          onRemove={id => setSnapshotSources(prev => prev.filter(source => source.id !== id))}
+        />
+      )}
+      {isCachePanelOpen && <CachePanel refreshKey={cacheVersion} lastScan={lastScan} />}
+      {isQualityPanelOpen && <DataQualityPanel photos={loadedPhotos} failures={scanFailures} />}
+      {isMapPanelOpen && allPhotos.length > 0 && (
+        <MapPanel photos={mapPhotos} selection={mapSelection} onSelectionChange={setMapSelection} />
+      )}
       <Sidebar
         isOpen={isSidebarOpen}
         onClose={() => setSidebarOpen(false)}
@@ -561,24 +1174,101 @@ function App() {
         availableLenses={availableLenses}
         selectedLenses={selectedLenses}
         onLensChange={setSelectedLenses}
+        extraFilters={extraFilterValues.map(({ field, values }) => ({
+          field,
+          label: GROUP_BY_LABELS[field],
+          values,
+          selected: fieldFilters[field] ?? values,
+        }))}
+        onExtraFilterChange={handleFieldFilterChange}
+        cameraModels={cameraModels}
+        getVariants={names.variants}
+        nameRules={nameRules}
+        onNameRulesChange={setNameRules}
         cropFactors={cropFactors}
+        cropInferences={cropInferences}
         onCropFactorChange={handleCropFactorChange}
+        lensFactorRules={lensFactorRules}
+        onLensFactorRulesChange={setLensFactorRules}
+        focalSources={focalSources}
+        duplicatePolicy={duplicatePolicy}
+        onDuplicatePolicyChange={setDuplicatePolicy}
+        duplicateSummary={duplicates}
+        fileFormats={fileFormats}
+        onFileFormatsChange={setFileFormats}
+        mediaCounts={mediaCounts}
+        mediaScope={mediaScope}
+        canChangeMediaScope={canChangeMediaScope}
+        onMediaScopeChange={handleMediaScopeChange}
       />
 
       {allPhotos.length > 0 && (
         <div className="main-layout">
           <div className="content-area">
+            <QueryBar value={queryText} onChange={setQueryText} error={queryError} complete={queryCompleter} />
             <div className="card">
-              <h2>分析及統計項目（共 {allPhotos.length} 張）</h2>
+              <h2>
+                分析及統計項目（共 {allPhotos.length} 張
+                {mediaCounts.video > 0 && `，其中 ${mediaCounts.video} 部影片`}
+                {duplicates.hidden > 0 && `，另有 ${duplicates.hidden} 個重複或 RAW+JPEG 檔案未計入`}）
+              </h2>
               <div className="form-group form-group-full-width">
-                <select value={groupBy} onChange={e => setGroupBy(e.target.value as keyof ExifData)}>
+                <select value={groupBy} onChange={e => handleGroupByChange(e.target.value as GroupByField)}>
                   <option value="Model">相機型號</option>
                   <option value="LensModel">鏡頭型號</option>
                   <option value="FocalLength">等效焦段</option>
+                  <option value="FNumber">光圈</option>
+                  <option value="ExposureTime">快門速度</option>
+                  <option value="ISOSpeedRatings">ISO 感光度</option>
+                  <option value="DateTimeOriginal">拍攝時間</option>
+                  <optgroup label="更多 EXIF 欄位">
+                    {EXIF_CATEGORY_FIELDS.map(field => (
+                      <option key={field} value={field}>{GROUP_BY_LABELS[field]}</option>
+                    ))}
+                  </optgroup>
                 </select>
               </div>
+              {!isCompareMode && !(groupBy === 'DateTimeOriginal' && timeView === 'heatmap') && (
+                <div className="form-group form-group-full-width">
+                  <label>細分依據:</label>
+                  <select value={breakdownBy} onChange={e => setBreakdownBy(e.target.value as GroupByField | '')}>
+                    <option value="">不細分</option>
+                    {GROUP_BY_FIELDS.filter(field => field !== groupBy).map(field => (
+                      <option key={field} value={field}>{GROUP_BY_LABELS[field]}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
             
+            <div className="card focal-options-card">
+              <h3>比較模式</h3>
+              <div className="form-group">
+                <div className="button-group">
+                  <button className={!isCompareMode ? 'active' : ''} onClick={() => setCompareMode(false)}>
+                    <span className="icon">單一資料</span>
+                  </button>
+                  <button className={isCompareMode ? 'active' : ''} onClick={() => setCompareMode(true)}>
+                    <span className="icon">比較組別</span>
+                  </button>
+                </div>
+              </div>
+              {isCompareMode && (
+                <>
+                  <ComparePanel
+                    cohorts={cohortDefinitions}
+                    onChange={setCohortDefinitions}
+                    availableFolders={allFolderPaths}
+                    availableModels={availableModels}
+                    availableLenses={availableLenses}
+                  />
+                  <small className="helper-text">
+                    每個組別以資料夾、日期區間、相機或鏡頭定義，並套用側欄的篩選；各組以自身張數換算百分比，方便比較不同大小的組別。時段 × 星期熱圖不支援比較。
+                  </small>
+                </>
+              )}
+            </div>
+
             {groupBy === 'FocalLength' && (
               <div className="card focal-options-card">
                 <h3>焦段設定</h3>
@@ -602,19 +1292,100 @@ function App() {
                   </div>
                   
                   {focalLengthMode === 'range' && (
+                    <FocalRangeEditor
+                      value={focalLengthRanges}
+                      onChange={setFocalLengthRanges}
+                      error={focalRangeParse.error}
+                      warnings={focalRangeWarnings}
+                      presets={focalRangePresets}
+                      onPresetsChange={setFocalRangePresets}
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+
+            {isExposureField(groupBy) && (
+              <div className="card focal-options-card">
+                <h3>{GROUP_BY_LABELS[groupBy]}設定</h3>
+                <div className="focal-options-grid">
+                  <div className="form-group">
+                    <label>統計模式:</label>
+                    <div className="button-group">
+                      <button 
+                        className={exposureMode === 'preset' ? 'active' : ''} 
+                        onClick={() => setExposureMode('preset')}
+                      >
+                        <span className="icon">標準級數</span>
+                      </button>
+                      <button 
+                        className={exposureMode === 'continuous' ? 'active' : ''} 
+                        onClick={() => setExposureMode('continuous')}
+                      >
+                        <span className="icon">全部數值</span>
+                      </button>
+                    </div>
+                  </div>
+
+                  {groupBy === 'FNumber' && exposureMode === 'preset' && (
                     <div className="form-group">
-                      <label>焦段區間設定:</label>
-                      <input 
-                        type="text" 
-                        value={focalLengthRanges} 
-                        onChange={e => setFocalLengthRanges(e.target.value)} 
-                      />
-                      <small className="helper-text">
-                        用 `,` 分隔，支援 `24-70` (區間), `85` (單值), `24-70+100-400` (合併), `other` (其他)。
-                      </small>
+                      <label>光圈級距:</label>
+                      <div className="button-group">
+                        <button 
+                          className={apertureScale === 'full' ? 'active' : ''} 
+                          onClick={() => setApertureScale('full')}
+                        >
+                          <span className="icon">整級</span>
+                        </button>
+                        <button 
+                          className={apertureScale === 'third' ? 'active' : ''} 
+                          onClick={() => setApertureScale('third')}
+                        >
+                          <span className="icon">1/3 級</span>
+                        </button>
+                      </div>
                     </div>
                   )}
                 </div>
+                <small className="helper-text">
+                  標準級數會將數值歸入最接近的標準檔位（光圈 f/2.8、快門 1/250、ISO 以倍數遞增）。
+                </small>
+              </div>
+            )}
+
+            {groupBy === 'DateTimeOriginal' && (
+              <div className="card focal-options-card">
+                <h3>拍攝時間設定</h3>
+                <div className="focal-options-grid">
+                  <div className="form-group">
+                    <label>統計方式:</label>
+                    <div className="button-group">
+                      {([
+                        ['day', '每日'],
+                        ['month', '每月'],
+                        ['year', '每年'],
+                        ['heatmap', '時段 × 星期'],
+                      ] as const).map(([view, label]) => (
+                        <button
+                          key={view}
+                          className={timeView === view ? 'active' : ''}
+                          onClick={() => setTimeView(view)}
+                        >
+                          <span className="icon">{label}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+                <small className="helper-text">
+                  以相機記錄的拍攝當地時間統計，不受瀏覽器所在時區影響；沒有拍攝時間的照片不列入計算。
+                </small>
+              </div>
+            )}
+
+            {heatmapData && (
+              <div className="card chart-container">
+                <TimeHeatmap title="依 拍攝時段 × 星期 統計之照片張數" matrix={heatmapData} />
               </div>
             )}
 
@@ -622,54 +1393,34 @@ function App() {
               <div className="card chart-container">
                 <Bar 
                   data={chartData} 
-                  options={{
-                    indexAxis: isHorizontal ? 'y' : 'x', 
-                    responsive: true,
-                    layout: {
-                      padding: {
-                        top: 0,
-                        right: 40 
-                      }
-                    },
-                    plugins: {
-                      legend: { display: false },
-                      title: { display: true, text: chartData.datasets[0].label },
-                      datalabels: {
-                        anchor: 'end',
-                        align: 'end',
-                        clip: false,
-                        formatter: (value, context) => {
-                          if (groupBy === 'FocalLength' && focalLengthMode === 'continuous') {
-                            const currentLabel = context.chart.data.labels?.[context.dataIndex] as string;
-                            if (!topFocalLengthLabels.includes(currentLabel)) {
-                              return null;
-                            }
-                          }
-                          const total = context.chart.data.datasets[0].data.reduce<number>(
-                              (sum, val) => sum + (Number(val) || 0),
-                              0
-                          );
-                          if (total === 0) return '0%';
-                          const percentage = ((value / total) * 100).toFixed(1) + '%';
-                          return `${value} (${percentage})`;
-                        },
-                        color: '#333',
-                        font: {
-                            weight: 'bold',
-                        }
-                      }
-                    },
-                    scales: {
-                        y: {
-                            ticks: {
-                                autoSkip: false
-                            }
-                        }
-                    }
-                  }}
+                  options={chartOptions}
                 />
               </div>
             )}
+
+            {drillDown && (
+              <DrillDownPanel
+                title={drillDown.title}
+                photos={drillDown.photos}
+                cropFactors={effectiveCropFactors}
+                lensFactorRules={lensFactorRules}
+                getFile={getPhotoFile}
+                onClose={() => setDrillDown(null)}
+              />
+            )}
+
+            {crossTab && chartTitle && <PivotTable title={chartTitle} result={crossTab} />}
+
+            {(chartData || heatmapData) && (
+              <ExportPanel
+                canExportStats={statRows.length > 0 || !!comparison || !!crossTab || !!heatmapData}
+                canExportChart={!!chartData && (statRows.length > 0 || !!comparison || !!crossTab)}
+                photoCount={filteredPhotos.length}
+                onExportStats={handleExportStats}
+                onExportPhotos={handleExportPhotos}
+                onExportChart={handleExportChart}
+              />
+            )}
           </div>
         </div>
       )}
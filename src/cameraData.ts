@@ -50,4 +50,78 @@ export type CropFactorMap = {
     'X-S20': 1.5,
     'X100VI': 1.5,
     'GFX100S': 0.79,
-  };
\ No newline at end of file
+  };
+
+// A crop factor tied to a lens rather than a body. lens is matched against LensModel: a substring or a
+// regular expression written as "/.../", both case-insensitive. A rule with a model only applies to that body.
+// 'replace' uses the factor instead of the body's (an APS-C lens putting a full-frame body in crop mode);
+// 'multiply' applies it on top of the body's (a speed booster, e.g. 0.71).
+export interface LensFactorRule {
+  id: string;
+  lens: string;
+  model?: string;
+  factor: number;
+  mode: 'replace' | 'multiply';
+  label?: string;
+}
+
+// Lens lines made for smaller sensors; full-frame bodies switch to crop mode with them
+export const defaultLensFactorRules: LensFactorRule[] = [
+  { id: 'sony-dt', lens: '/^DT /', factor: 1.5, mode: 'replace', label: 'Sony DT (APS-C)' },
+  { id: 'sony-e', lens: '/^E \\d/', factor: 1.5, mode: 'replace', label: 'Sony E (APS-C)' },
+  { id: 'nikon-dx', lens: '/\\bDX\\b/', factor: 1.5, mode: 'replace', label: 'Nikon DX' },
+  { id: 'canon-efs', lens: '/^(EF-S|RF-S)/', factor: 1.6, mode: 'replace', label: 'Canon EF-S / RF-S' },
+];
+
+// Manufacturer names as written in EXIF Make, mapped to how they are shown
+export const defaultMakeNames: { [make: string]: string } = {
+  'SONY': 'Sony',
+  'NIKON': 'Nikon',
+  'NIKON CORPORATION': 'Nikon',
+  'Canon': 'Canon',
+  'FUJIFILM': 'Fujifilm',
+  'OLYMPUS CORPORATION': 'Olympus',
+  'OLYMPUS IMAGING CORP.': 'Olympus',
+  'OM Digital Solutions': 'OM System',
+  'Panasonic': 'Panasonic',
+  'RICOH IMAGING COMPANY, LTD.': 'Ricoh',
+  'PENTAX': 'Pentax',
+  'LEICA CAMERA AG': 'Leica',
+  'Hasselblad': 'Hasselblad',
+  'SIGMA': 'Sigma',
+  'DJI': 'DJI',
+  'Apple': 'Apple',
+  'Google': 'Google',
+  'samsung': 'Samsung',
+};
+
+// Friendly names for model codes that do not say what the camera is
+export const defaultModelNames: { [model: string]: string } = {
+  // --- Sony ---
+  'ILCE-7M4': 'Sony α7 IV',
+  'ILCE-7M3': 'Sony α7 III',
+  'ILCE-7RM5': 'Sony α7R V',
+  'ILCE-7RM4': 'Sony α7R IV',
+  'ILCE-7CM2': 'Sony α7C II',
+  'ILCE-7C': 'Sony α7C',
+  'ILCE-9M3': 'Sony α9 III',
+  'ILCE-1': 'Sony α1',
+  'ILCE-6700': 'Sony α6700',
+  'ILCE-6400': 'Sony α6400',
+  'ZV-E1': 'Sony ZV-E1',
+  'ZV-E10': 'Sony ZV-E10',
+
+  // --- Nikon ---
+  'NIKON Z 6_2': 'Nikon Z 6II',
+  'NIKON Z 7_2': 'Nikon Z 7II',
+  'NIKON Z 6_3': 'Nikon Z 6III',
+
+  // --- Fujifilm and others that omit the brand ---
+  'X-T5': 'Fujifilm X-T5',
+  'X-H2': 'Fujifilm X-H2',
+  'X-H2S': 'Fujifilm X-H2S',
+  'X-S20': 'Fujifilm X-S20',
+  'X100VI': 'Fujifilm X100VI',
+  'GFX100S': 'Fujifilm GFX100S',
+  'FC3582': 'DJI Mini 3 Pro',
+};
@@ -0,0 +1,230 @@
+// src/chartExport.ts
+import { Chart as ChartJS, type ChartData as ChartJSData, type ChartOptions, type Plugin } from 'chart.js';
+
+// One series of bars in an exported chart
+export interface ExportChartDataset {
+  label: string;
+  data: number[];
+  colors: string[];
+  // Text drawn at the end of each bar, or null to omit it
+  dataLabels: (string | null)[];
+}
+
+// Bar chart content needed to render an export; several datasets are drawn as grouped (or stacked) bars with a legend
+export interface ExportChartData {
+  labels: string[];
+  datasets: ExportChartDataset[];
+  title: string;
+  horizontal: boolean;
+  stacked?: boolean;
+  // Appended to the value axis ticks, e.g. "%"
+  valueSuffix?: string;
+}
+
+// Trigger a browser download for a Blob
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Trigger a browser download for text content
+export const downloadText = (filename: string, text: string, type: string) => {
+  // Prefix CSV with a BOM so spreadsheet apps detect UTF-8 (camera and folder names may be non-ASCII)
+  const content = type === 'text/csv' ? ['\uFEFF', text] : [text];
+  downloadBlob(filename, new Blob(content, { type: `${type};charset=utf-8` }));
+};
+
+// Paint a white background behind the chart, since canvases are transparent by default
+const whiteBackground: Plugin<'bar'> = {
+  id: 'exportWhiteBackground',
+  beforeDraw: (chart) => {
+    const { ctx, width, height } = chart;
+    ctx.save();
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+  },
+};
+
+// Render the bar chart with Chart.js on an off-screen canvas; scale multiplies the pixel resolution
+export const renderChartPng = async (
+  data: ChartJSData<'bar', number[], string>,
+  options: ChartOptions<'bar'>,
+  width: number,
+  height: number,
+  scale: number
+): Promise<Blob> => {
+  const container = document.createElement('div');
+  container.style.cssText = `position: fixed; left: -100000px; top: 0; width: ${width}px; height: ${height}px;`;
+  const canvas = document.createElement('canvas');
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+  container.appendChild(canvas);
+  document.body.appendChild(container);
+
+  // Copy the datasets: Chart.js keeps internal state on the objects it renders
+  const chart = new ChartJS<'bar', number[], string>(canvas, {
+    type: 'bar',
+    data: {
+      labels: [...(data.labels || [])],
+      datasets: data.datasets.map(dataset => ({ ...dataset, data: [...dataset.data] })),
+    },
+    options: {
+      ...options,
+      responsive: false,
+      maintainAspectRatio: false,
+      animation: false,
+      devicePixelRatio: scale,
+    },
+    plugins: [whiteBackground],
+  });
+  try {
+    chart.resize(width, height);
+    chart.draw();
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('無法產生圖片。'))), 'image/png');
+    });
+  } finally {
+    chart.destroy();
+    container.remove();
+  }
+};
+
+// Escape text for use in SVG markup
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Round an axis maximum up to a readable value (1, 2, 2.5 or 5 × 10^n)
+const niceMax = (value: number): number => {
+  if (value <= 0) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [1, 2, 2.5, 5, 10].find(s => s * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+// Render the bar chart as a standalone vector SVG with title, axes and data labels
+export const renderChartSvg = (chart: ExportChartData, width: number, height: number): string => {
+  const font = 'font-family="-apple-system, BlinkMacSystemFont, Segoe UI, Roboto, Helvetica, Arial, sans-serif"';
+  // Lay out legend items in centered lines under the title, one swatch per dataset
+  const legendLines: { index: number; width: number }[][] = [];
+  if (chart.datasets.length > 1) {
+    chart.datasets.forEach((dataset, index) => {
+      const itemWidth = 24 + dataset.label.length * 7 + 16;
+      const line = legendLines[legendLines.length - 1];
+      if (line && line.reduce((sum, item) => sum + item.width, 0) + itemWidth <= width - 40) {
+        line.push({ index, width: itemWidth });
+      } else {
+        legendLines.push([{ index, width: itemWidth }]);
+      }
+    });
+  }
+  const longestLabel = Math.max(0, ...chart.labels.map(l => l.length));
+  const count = Math.max(1, chart.labels.length);
+  const rotateLabels = !chart.horizontal && count > 12;
+  // Rough text metrics: 7px per character at 12px font size
+  const margin = {
+    top: 50 + legendLines.length * 20,
+    right: 90,
+    bottom: chart.horizontal ? 40 : rotateLabels ? Math.min(160, 20 + longestLabel * 5) : 40,
+    left: chart.horizontal ? Math.min(width / 3, 20 + longestLabel * 7) : 60,
+  };
+  const plotWidth = width - margin.left - margin.right;
+  const plotHeight = height - margin.top - margin.bottom;
+  const barTotals = chart.stacked
+    ? chart.labels.map((_, i) => chart.datasets.reduce((sum, dataset) => sum + (dataset.data[i] || 0), 0))
+    : chart.datasets.flatMap(dataset => dataset.data);
+  const maxValue = niceMax(Math.max(0, ...barTotals));
+  const band = (chart.horizontal ? plotHeight : plotWidth) / count;
+  const groupSize = band * 0.8;
+  const barSize = chart.stacked ? groupSize : groupSize / Math.max(1, chart.datasets.length);
+
+  const parts: string[] = [];
+  parts.push(`<rect width="${width}" height="${height}" fill="#ffffff"/>`);
+  parts.push(`<text x="${width / 2}" y="28" text-anchor="middle" font-size="16" font-weight="bold" fill="#666" ${font}>${escapeXml(chart.title)}</text>`);
+
+  legendLines.forEach((line, lineIndex) => {
+    const y = 44 + lineIndex * 20;
+    let x = (width - line.reduce((sum, item) => sum + item.width, 0)) / 2;
+    line.forEach(({ index, width: itemWidth }) => {
+      const dataset = chart.datasets[index];
+      const color = dataset.colors[0] || 'rgba(54, 162, 235, 0.6)';
+      parts.push(`<rect x="${x}" y="${y}" width="16" height="12" fill="${color}" stroke="${color.replace('0.6', '1')}"/>`);
+      parts.push(`<text x="${x + 22}" y="${y + 10}" font-size="12" fill="#666" ${font}>${escapeXml(dataset.label)}</text>`);
+      x += itemWidth;
+    });
+  });
+
+  // Value axis grid lines and ticks
+  const tickCount = 5;
+  for (let i = 0; i <= tickCount; i++) {
+    const value = (maxValue / tickCount) * i;
+    const tickLabel = Number(value.toFixed(2)).toString() + (chart.valueSuffix || '');
+    if (chart.horizontal) {
+      const x = margin.left + (plotWidth * i) / tickCount;
+      parts.push(`<line x1="${x}" y1="${margin.top}" x2="${x}" y2="${margin.top + plotHeight}" stroke="#e5e5e5"/>`);
+      parts.push(`<text x="${x}" y="${margin.top + plotHeight + 18}" text-anchor="middle" font-size="12" fill="#666" ${font}>${tickLabel}</text>`);
+    } else {
+      const y = margin.top + plotHeight - (plotHeight * i) / tickCount;
+      parts.push(`<line x1="${margin.left}" y1="${y}" x2="${margin.left + plotWidth}" y2="${y}" stroke="#e5e5e5"/>`);
+      parts.push(`<text x="${margin.left - 8}" y="${y + 4}" text-anchor="end" font-size="12" fill="#666" ${font}>${tickLabel}</text>`);
+    }
+  }
+
+  // Category labels, then one bar per dataset inside each category band
+  chart.labels.forEach((label, i) => {
+    const groupStart = band * i + (band - groupSize) / 2;
+    if (chart.horizontal) {
+      const y = margin.top + groupStart;
+      parts.push(`<text x="${margin.left - 8}" y="${y + groupSize / 2 + 4}" text-anchor="end" font-size="12" fill="#666" ${font}>${escapeXml(label)}</text>`);
+    } else {
+      const x = margin.left + groupStart;
+      const labelY = margin.top + plotHeight + 16;
+      parts.push(rotateLabels
+        ? `<text transform="translate(${x + groupSize / 2} ${labelY - 6}) rotate(-45)" text-anchor="end" font-size="12" fill="#666" ${font}>${escapeXml(label)}</text>`
+        : `<text x="${x + groupSize / 2}" y="${labelY}" text-anchor="middle" font-size="12" fill="#666" ${font}>${escapeXml(label)}</text>`);
+    }
+
+    // Running total of the stacked segments already drawn in this category
+    let stackBase = 0;
+    chart.datasets.forEach((dataset, d) => {
+      const value = dataset.data[i] || 0;
+      const color = dataset.colors[i] || dataset.colors[0] || 'rgba(54, 162, 235, 0.6)';
+      const stroke = color.replace('0.6', '1');
+      const dataLabel = dataset.dataLabels[i];
+      const offset = chart.stacked ? groupStart : groupStart + barSize * d;
+      const base = stackBase;
+      if (chart.stacked) stackBase += value;
+      if (chart.horizontal) {
+        const y = margin.top + offset;
+        const barStart = margin.left + (plotWidth * base) / maxValue;
+        const barWidth = (plotWidth * value) / maxValue;
+        parts.push(`<rect x="${barStart}" y="${y}" width="${barWidth}" height="${barSize}" fill="${color}" stroke="${stroke}"/>`);
+        if (dataLabel) {
+          parts.push(`<text x="${barStart + barWidth + 6}" y="${y + barSize / 2 + 4}" font-size="12" font-weight="bold" fill="#333" ${font}>${escapeXml(dataLabel)}</text>`);
+        }
+      } else {
+        const x = margin.left + offset;
+        const barHeight = (plotHeight * value) / maxValue;
+        const y = margin.top + plotHeight - (plotHeight * base) / maxValue - barHeight;
+        parts.push(`<rect x="${x}" y="${y}" width="${barSize}" height="${barHeight}" fill="${color}" stroke="${stroke}"/>`);
+        if (dataLabel) {
+          parts.push(`<text x="${x + barSize / 2}" y="${y - 6}" text-anchor="middle" font-size="12" font-weight="bold" fill="#333" ${font}>${escapeXml(dataLabel)}</text>`);
+        }
+      }
+    });
+  });
+
+  // Axis lines
+  parts.push(`<line x1="${margin.left}" y1="${margin.top}" x2="${margin.left}" y2="${margin.top + plotHeight}" stroke="#999"/>`);
+  parts.push(`<line x1="${margin.left}" y1="${margin.top + plotHeight}" x2="${margin.left + plotWidth}" y2="${margin.top + plotHeight}" stroke="#999"/>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">\n${parts.join('\n')}\n</svg>\n`;
+};
@@ -0,0 +1,89 @@
+// src/components/CachePanel.tsx
+import React, { useEffect, useState } from 'react';
+import { clearCache, getCacheSummary, type CacheSummary } from '../exifCache';
+
+// Define the props for the CachePanel component
+interface CachePanelProps {
+  // Changes whenever a scan has written to the cache, so the summary is reloaded
+  refreshKey: number;
+  lastScan: { cached: number; parsed: number } | null;
+}
+
+// Panel for inspecting and clearing the IndexedDB EXIF cache
+export const CachePanel: React.FC<CachePanelProps> = ({ refreshKey, lastScan }) => {
+  const [summary, setSummary] = useState<CacheSummary[] | null>(null);
+  const [storageUsage, setStorageUsage] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Load the per-folder summary and the browser storage estimate
+  useEffect(() => {
+    let cancelled = false;
+    getCacheSummary()
+      .then(result => {
+        if (!cancelled) {
+          setSummary(result);
+          setError('');
+        }
+      })
+      .catch(e => {
+        console.warn(e);
+        if (!cancelled) setError('此瀏覽器無法使用 EXIF 快取。');
+      });
+    navigator.storage?.estimate?.()
+      .then(estimate => {
+        if (!cancelled) setStorageUsage(estimate.usage ?? null);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, reloadCount]);
+
+  const handleClear = async (root?: string) => {
+    const message = root ? `確定要清除「${root}」的快取嗎？` : '確定要清除所有 EXIF 快取嗎？';
+    if (!window.confirm(message)) return;
+    try {
+      await clearCache(root);
+    } catch (e) {
+      console.error(e);
+      setError('清除快取失敗。');
+    }
+    setReloadCount(c => c + 1);
+  };
+
+  const total = summary?.reduce((sum, item) => sum + item.count, 0) ?? 0;
+
+  return (
+    <div className="card cache-panel">
+      <h3>EXIF 快取</h3>
+      {error && <p className="error-message">{error}</p>}
+      {lastScan && (
+        <p className="helper-text">
+          上次掃描：{lastScan.cached} 張從快取載入，{lastScan.parsed} 張重新解析。
+        </p>
+      )}
+      {summary && summary.length === 0 && <p className="helper-text">快取是空的。</p>}
+      {summary && summary.length > 0 && (
+        <>
+          <ul className="cache-list">
+            {summary.map(item => (
+              <li key={item.root}>
+                <span className="model-name" title={item.root}>{item.root}</span>
+                <span>{item.count} 張</span>
+                <button onClick={() => handleClear(item.root)}>清除</button>
+              </li>
+            ))}
+          </ul>
+          <div className="cache-footer">
+            <span>
+              共 {total} 張
+              {storageUsage !== null && `，網站儲存空間約 ${(storageUsage / 1024 / 1024).toFixed(1)} MB`}
+            </span>
+            <button onClick={() => handleClear()}>清除全部快取</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+// src/components/ComparePanel.tsx
+import React from 'react';
+import { createCohortDefinition, type CohortDefinition, type CohortKind } from '../stats';
+
+const KIND_LABELS: { [kind in CohortKind]: string } = {
+  folder: '資料夾',
+  date: '日期區間',
+  model: '相機',
+  lens: '鏡頭',
+};
+
+// Define the props for the ComparePanel component
+interface ComparePanelProps {
+  cohorts: CohortDefinition[];
+  onChange: (cohorts: CohortDefinition[]) => void;
+  availableFolders: string[];
+  availableModels: string[];
+  availableLenses: string[];
+}
+
+// Editor for the cohorts shown side by side in comparison mode
+export const ComparePanel: React.FC<ComparePanelProps> = ({
+  cohorts, onChange, availableFolders, availableModels, availableLenses,
+}) => {
+  const updateCohort = (id: number, changes: Partial<CohortDefinition>) => {
+    onChange(cohorts.map(cohort => (cohort.id === id ? { ...cohort, ...changes } : cohort)));
+  };
+  const handleAdd = () => {
+    const nextId = Math.max(0, ...cohorts.map(c => c.id)) + 1;
+    onChange([...cohorts, createCohortDefinition(nextId)]);
+  };
+  const itemsFor = (kind: CohortKind) =>
+    kind === 'folder' ? availableFolders : kind === 'model' ? availableModels : availableLenses;
+
+  return (
+    <div className="compare-cohorts">
+      {cohorts.map(cohort => (
+        <div key={cohort.id} className="compare-cohort">
+          <div className="compare-cohort-header">
+            <input
+              type="text"
+              value={cohort.name}
+              onChange={e => updateCohort(cohort.id, { name: e.target.value })}
+              aria-label="組別名稱"
+            />
+            <select
+              value={cohort.kind}
+              onChange={e => updateCohort(cohort.id, { kind: e.target.value as CohortKind, values: [] })}
+            >
+              {(Object.keys(KIND_LABELS) as CohortKind[]).map(kind => (
+                <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+            <button onClick={() => onChange(cohorts.filter(c => c.id !== cohort.id))} disabled={cohorts.length <= 2}>
+              移除
+            </button>
+          </div>
+          {cohort.kind === 'date' ? (
+            <div className="compare-dates">
+              <input type="date" value={cohort.dateFrom} onChange={e => updateCohort(cohort.id, { dateFrom: e.target.value })} />
+              <span>至</span>
+              <input type="date" value={cohort.dateTo} onChange={e => updateCohort(cohort.id, { dateTo: e.target.value })} />
+            </div>
+          ) : (
+            <div className="filter-list">
+              {itemsFor(cohort.kind).map(item => (
+                <label key={item}>
+                  <input
+                    type="checkbox"
+                    checked={cohort.values.includes(item)}
+                    onChange={e => updateCohort(cohort.id, {
+                      values: e.target.checked ? [...cohort.values, item] : cohort.values.filter(v => v !== item),
+                    })}
+                  />
+                  {item}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      <button onClick={handleAdd}>新增組別</button>
+    </div>
+  );
+};
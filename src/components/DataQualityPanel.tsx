@@ -0,0 +1,86 @@
+// src/components/DataQualityPanel.tsx
+import React, { useMemo } from 'react';
+import { QUALITY_FIELDS, countMissingFields, type PhotoData, type ScanFailure } from '../stats';
+
+// Display names of the reported fields
+const FIELD_LABELS: { [field: string]: string } = {
+  Make: '廠牌',
+  Model: '相機型號',
+  LensModel: '鏡頭型號',
+  FocalLength: '焦距',
+  FocalLengthIn35mmFormat: '35mm 等效焦距',
+  FNumber: '光圈',
+  ExposureTime: '快門速度',
+  ISOSpeedRatings: 'ISO 感光度',
+  DateTimeOriginal: '拍攝時間',
+};
+
+// Define the props for the DataQualityPanel component
+interface DataQualityPanelProps {
+  photos: PhotoData[];
+  failures: ScanFailure[];
+}
+
+// Report of files that could not be parsed and of photos missing metadata
+export const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ photos, failures }) => {
+  const missing = useMemo(() => countMissingFields(photos), [photos]);
+  const scanned = photos.length + failures.length;
+
+  return (
+    <div className="card quality-panel">
+      <h3>資料品質報告</h3>
+      <p>
+        共掃描 {scanned} 個檔案：{photos.length} 張成功讀取，{failures.length} 個無法解析。
+      </p>
+
+      <h4>缺少欄位的照片</h4>
+      <table className="quality-table">
+        <thead>
+          <tr>
+            <th>欄位</th>
+            <th>缺少張數</th>
+            <th>比例</th>
+          </tr>
+        </thead>
+        <tbody>
+          {QUALITY_FIELDS.map(field => (
+            <tr key={field}>
+              <td>{FIELD_LABELS[field] || field}</td>
+              <td>{missing[field]}</td>
+              <td>{photos.length > 0 ? ((missing[field] / photos.length) * 100).toFixed(1) : '0.0'}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <small className="helper-text">
+        缺少相機或鏡頭型號的照片會以「Unknown camera」與「Unknown lens」出現在篩選條件與圖表中。
+      </small>
+
+      {failures.length > 0 && (
+        <>
+          <h4>無法解析的檔案</h4>
+          <div className="quality-failures">
+            <table className="quality-table">
+              <thead>
+                <tr>
+                  <th>檔名</th>
+                  <th>資料夾</th>
+                  <th>原因</th>
+                </tr>
+              </thead>
+              <tbody>
+                {failures.map(failure => (
+                  <tr key={`${failure.folderPath}/${failure.filename}`}>
+                    <td>{failure.filename}</td>
+                    <td>{failure.folderPath}</td>
+                    <td>{failure.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+// src/components/DrillDownPanel.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import type { CropFactorMap, LensFactorRule } from '../cameraData';
+import {
+  PHOTO_SORT_KEYS,
+  formatAperture,
+  formatIso,
+  formatShutterSpeed,
+  formatWallClock,
+  getEquivalentFocalLength,
+  sortPhotos,
+  type PhotoData,
+  type PhotoSortKey,
+} from '../stats';
+import { getThumbnailUrl } from '../localFiles';
+
+const SORT_LABELS: Record<PhotoSortKey, string> = {
+  date: '拍攝時間',
+  filename: '檔名',
+  folder: '資料夾',
+  focalLength: '等效焦距',
+  aperture: '光圈',
+  shutter: '快門速度',
+  iso: 'ISO',
+};
+
+const PAGE_SIZE = 24;
+
+// Define the props for the DrillDownPanel component
+interface DrillDownPanelProps {
+  title: string;
+  photos: PhotoData[];
+  cropFactors: CropFactorMap;
+  lensFactorRules: LensFactorRule[];
+  // Reads the original file of a photo; resolves to undefined when it is not reachable
+  getFile: (photo: PhotoData) => Promise<File | undefined>;
+  onClose: () => void;
+}
+
+// Photos behind a clicked chart bar, with their embedded thumbnails and exposure
+export const DrillDownPanel: React.FC<DrillDownPanelProps> = ({
+  title,
+  photos,
+  cropFactors,
+  lensFactorRules,
+  getFile,
+  onClose,
+}) => {
+  const [sortKey, setSortKey] = useState<PhotoSortKey>('date');
+  const [descending, setDescending] = useState(false);
+  const [page, setPage] = useState(0);
+  const [thumbnails, setThumbnails] = useState<{ [id: string]: string | null }>({});
+  const [openError, setOpenError] = useState('');
+
+  const sorted = useMemo(
+    () => sortPhotos(photos, sortKey, descending, { cropFactors, lensFactorRules }),
+    [photos, sortKey, descending, cropFactors, lensFactorRules]
+  );
+  const pageCount = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pagePhotos = useMemo(
+    () => sorted.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE),
+    [sorted, currentPage]
+  );
+
+  // A new bar starts at the first page
+  useEffect(() => {
+    setPage(0);
+    setOpenError('');
+  }, [photos]);
+
+  // Load the thumbnails of the visible page; null marks photos without one
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+    setThumbnails({});
+    (async () => {
+      for (const photo of pagePhotos) {
+        const file = await getFile(photo);
+        const url = file && await getThumbnailUrl(file);
+        if (cancelled) {
+          if (url) URL.revokeObjectURL(url);
+          return;
+        }
+        if (url) urls.push(url);
+        setThumbnails(prev => ({ ...prev, [photo.id]: url ?? null }));
+      }
+    })();
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [pagePhotos, getFile]);
+
+  // Open the original in a new tab; the URL is kept long enough for the tab to load it
+  const handleOpen = async (photo: PhotoData) => {
+    setOpenError('');
+    const file = await getFile(photo);
+    if (!file) {
+      setOpenError(`無法開啟 ${photo.filename}：只有以「選擇資料夾」開啟的本地照片能開啟原始檔。`);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    window.open(url, '_blank', 'noopener');
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  const describeExposure = (photo: PhotoData) => {
+    const { FNumber, ExposureTime, ISOSpeedRatings } = photo.exif;
+    const focalLength = getEquivalentFocalLength(photo, cropFactors, lensFactorRules);
+    return [
+      typeof focalLength === 'number' ? `${Math.round(focalLength)}mm` : '',
+      typeof FNumber === 'number' ? formatAperture(FNumber) : '',
+      typeof ExposureTime === 'number' ? formatShutterSpeed(ExposureTime) : '',
+      typeof ISOSpeedRatings === 'number' ? formatIso(ISOSpeedRatings) : '',
+    ].filter(Boolean).join(' · ') || '無曝光資訊';
+  };
+
+  return (
+    <div className="card drilldown-panel">
+      <div className="drilldown-header">
+        <h3>{title}（{photos.length} 張）</h3>
+        <button onClick={onClose}>關閉</button>
+      </div>
+      <div className="export-row">
+        <span className="export-label">排序:</span>
+        <select value={sortKey} onChange={e => setSortKey(e.target.value as PhotoSortKey)}>
+          {PHOTO_SORT_KEYS.map(key => <option key={key} value={key}>{SORT_LABELS[key]}</option>)}
+        </select>
+        <button onClick={() => setDescending(prev => !prev)}>{descending ? '遞減 ↓' : '遞增 ↑'}</button>
+        <span className="drilldown-pages">
+          <button onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0}>上一頁</button>
+          {currentPage + 1} / {pageCount}
+          <button onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1}>下一頁</button>
+        </span>
+      </div>
+      {openError && <p className="error-message">{openError}</p>}
+      <ul className="drilldown-list">
+        {pagePhotos.map(photo => (
+          <li key={photo.id} className="drilldown-item">
+            <div className="drilldown-thumbnail">
+              {thumbnails[photo.id]
+                ? <img src={thumbnails[photo.id] ?? undefined} alt={photo.filename} loading="lazy" />
+                : <span>{thumbnails[photo.id] === null ? '無縮圖' : '…'}</span>}
+            </div>
+            <div className="drilldown-info">
+              <button className="drilldown-filename" onClick={() => handleOpen(photo)} title="開啟原始檔">
+                {photo.filename}
+              </button>
+              <small className="drilldown-folder" title={photo.folderPath}>{photo.folderPath}</small>
+              <small>{describeExposure(photo)}</small>
+              {photo.exif.DateTimeOriginal && <small>{formatWallClock(photo.exif.DateTimeOriginal)}</small>}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+// src/components/ExportPanel.tsx
+import React, { useState } from 'react';
+
+export type ExportFormat = 'csv' | 'json';
+export type ChartImageFormat = 'png' | 'svg';
+
+// Define the props for the ExportPanel component
+interface ExportPanelProps {
+  // Whether there are statistics rows, a comparison, a pivot table or a heatmap to export
+  canExportStats: boolean;
+  canExportChart: boolean;
+  photoCount: number;
+  onExportStats: (format: ExportFormat) => void;
+  onExportPhotos: (format: ExportFormat) => void;
+  onExportChart: (format: ChartImageFormat, width: number, height: number, scale: number) => void;
+}
+
+// Preset chart sizes in CSS pixels
+const SIZE_PRESETS = [
+  { label: '1200 × 675 (16:9)', width: 1200, height: 675 },
+  { label: '1080 × 1080 (1:1)', width: 1080, height: 1080 },
+  { label: '1600 × 900 (16:9)', width: 1600, height: 900 },
+  { label: '800 × 600 (4:3)', width: 800, height: 600 },
+];
+
+// Export controls for the statistics, the per-photo table and the chart image
+export const ExportPanel: React.FC<ExportPanelProps> = ({
+  canExportStats, canExportChart, photoCount, onExportStats, onExportPhotos, onExportChart,
+}) => {
+  const [sizeIndex, setSizeIndex] = useState(0);
+  const [scale, setScale] = useState(2);
+  const size = SIZE_PRESETS[sizeIndex];
+
+  return (
+    <div className="card export-panel">
+      <h3>匯出</h3>
+      <div className="export-row">
+        <span className="export-label">統計結果</span>
+        <button onClick={() => onExportStats('csv')} disabled={!canExportStats}>CSV</button>
+        <button onClick={() => onExportStats('json')} disabled={!canExportStats}>JSON</button>
+      </div>
+      <div className="export-row">
+        <span className="export-label">照片清單（{photoCount} 張，套用目前篩選）</span>
+        <button onClick={() => onExportPhotos('csv')} disabled={photoCount === 0}>CSV</button>
+        <button onClick={() => onExportPhotos('json')} disabled={photoCount === 0}>JSON</button>
+      </div>
+      <div className="export-row">
+        <span className="export-label">圖表圖片</span>
+        <select value={sizeIndex} onChange={e => setSizeIndex(Number(e.target.value))}>
+          {SIZE_PRESETS.map((preset, i) => (
+            <option key={preset.label} value={i}>{preset.label}</option>
+          ))}
+        </select>
+        <select value={scale} onChange={e => setScale(Number(e.target.value))}>
+          {[1, 2, 3, 4].map(s => (
+            <option key={s} value={s}>{s}x（{size.width * s} × {size.height * s} px）</option>
+          ))}
+        </select>
+        <button onClick={() => onExportChart('png', size.width, size.height, scale)} disabled={!canExportChart}>PNG</button>
+        <button onClick={() => onExportChart('svg', size.width, size.height, scale)} disabled={!canExportChart}>SVG</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+// src/components/FocalRangeEditor.tsx
+import React, { useState } from 'react';
+import { FOCAL_RANGE_PRESETS, type FocalRangeError, type FocalRangePreset, type FocalRangeWarning } from '../stats';
+
+// Define the props for the FocalRangeEditor component
+interface FocalRangeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Error of the current text, if it does not parse
+  error: FocalRangeError | null;
+  warnings: FocalRangeWarning[];
+  // Presets saved by the user, after the built-in ones
+  presets: FocalRangePreset[];
+  onPresetsChange: (presets: FocalRangePreset[]) => void;
+}
+
+// The text with the given spans marked; spans are sorted and do not overlap
+const renderMarked = (text: string, spans: { start: number; end: number }[], className: string) => {
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  spans.forEach(({ start, end }) => {
+    if (start < pos) return;
+    parts.push(text.slice(pos, start));
+    parts.push(<mark key={start} className={className}>{text.slice(start, end) || ' '}</mark>);
+    pos = end;
+  });
+  parts.push(text.slice(pos));
+  return <code>{parts}</code>;
+};
+
+// Range input with inline errors, overlap and gap warnings, and named presets
+export const FocalRangeEditor: React.FC<FocalRangeEditorProps> = ({
+  value,
+  onChange,
+  error,
+  warnings,
+  presets,
+  onPresetsChange,
+}) => {
+  const [presetName, setPresetName] = useState('');
+
+  const allPresets = [...FOCAL_RANGE_PRESETS, ...presets];
+  const selected = allPresets.find(preset => preset.ranges.trim() === value.trim());
+  const isSaved = !!selected && presets.includes(selected);
+  const warnedSpans = Array.from(new Map(warnings.map(warning => [warning.start, warning])).values())
+    .sort((a, b) => a.start - b.start);
+
+  // Saving under an existing name replaces that preset
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name || error) return;
+    const existing = presets.find(preset => preset.name === name);
+    onPresetsChange(existing
+      ? presets.map(preset => preset === existing ? { ...preset, ranges: value.trim() } : preset)
+      : [...presets, { id: `preset-${Date.now()}`, name, ranges: value.trim() }]);
+    setPresetName('');
+  };
+
+  return (
+    <div className="form-group focal-range-editor">
+      <label htmlFor="focal-range-input">焦段區間設定:</label>
+      <div className="export-row">
+        <span>組合:</span>
+        <select
+          value={selected?.id ?? ''}
+          onChange={e => {
+            const preset = allPresets.find(p => p.id === e.target.value);
+            if (preset) onChange(preset.ranges);
+          }}
+        >
+          <option value="" disabled>（自訂）</option>
+          <optgroup label="內建">
+            {FOCAL_RANGE_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+          </optgroup>
+          {presets.length > 0 && (
+            <optgroup label="我的組合">
+              {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        {isSaved && (
+          <button onClick={() => onPresetsChange(presets.filter(preset => preset !== selected))}>刪除此組合</button>
+        )}
+      </div>
+      <input
+        id="focal-range-input"
+        type="text"
+        className={error ? 'focal-range-input has-error' : 'focal-range-input'}
+        value={value}
+        spellCheck={false}
+        onChange={e => onChange(e.target.value)}
+      />
+      {error ? (
+        <div className="focal-range-message focal-range-error">
+          {renderMarked(value, [error], 'error')}
+          <span>{error.message}（區間有誤，目前沿用上一個有效的設定）</span>
+        </div>
+      ) : warnings.length > 0 && (
+        <div className="focal-range-message focal-range-warning">
+          {renderMarked(value, warnedSpans, 'warning')}
+          <ul>
+            {warnings.map((warning, i) => <li key={i}>{warning.message}</li>)}
+          </ul>
+        </div>
+      )}
+      <div className="export-row">
+        <input
+          type="text"
+          placeholder="組合名稱"
+          value={presetName}
+          onChange={e => setPresetName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSave()}
+        />
+        <button onClick={handleSave} disabled={!presetName.trim() || !!error}>儲存為組合</button>
+      </div>
+      <small className="helper-text">
+        用 `,` 分隔：`24-70`（區間）、`85`（單一焦距）、`&lt;24`／`300+`（以下／以上，也可用 `&lt;=`、`&gt;`、`&gt;=`）、
+        `18-55+70-200`（合併）、`other`（其他）。前面加上「名稱:」自訂標籤，例如 `超廣角:&lt;24`。
+        焦距以整數 mm 比對，落在多個區間時計入最前面的一個。
+      </small>
+    </div>
+  );
+};
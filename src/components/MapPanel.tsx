@@ -0,0 +1,334 @@
+// src/components/MapPanel.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  buildDensityGrid,
+  clusterPoints,
+  countByCountry,
+  createCountryLocator,
+  filterBySelection,
+  getPhotoPosition,
+  type GeoSelection,
+  type LonLat,
+  type PhotoData,
+} from '../stats';
+import { loadWorldMap, type WorldMap } from '../worldMap';
+
+// Define the props for the MapPanel component
+interface MapPanelProps {
+  // Photos passing every other filter; the map selection narrows them further
+  photos: PhotoData[];
+  selection: GeoSelection | null;
+  onSelectionChange: (selection: GeoSelection | null) => void;
+}
+
+type MapTool = 'pan' | 'box' | 'lasso';
+type MapMode = 'cluster' | 'grid';
+
+interface MapView {
+  lon: number;
+  lat: number;
+  zoom: number;
+}
+
+// Canvas size in pixels; the canvas is scaled to the card width with CSS
+const WIDTH = 960;
+const HEIGHT = 480;
+const WORLD_VIEW: MapView = { lon: 0, lat: 0, zoom: 1 };
+const MAX_ZOOM = 256;
+const CLUSTER_SIZE = 40;
+// Density cells aim for about this many pixels, rounded to one of these sizes in degrees
+const GRID_CELL_PIXELS = 14;
+const GRID_CELL_DEGREES = [0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10];
+
+// Equirectangular projection: pixels per degree at a zoom level
+const getScale = (zoom: number) => WIDTH / 360 * zoom;
+
+const toScreen = (view: MapView, [lon, lat]: LonLat) => {
+  const scale = getScale(view.zoom);
+  return { x: WIDTH / 2 + (lon - view.lon) * scale, y: HEIGHT / 2 - (lat - view.lat) * scale };
+};
+
+const toLonLat = (view: MapView, x: number, y: number): LonLat => {
+  const scale = getScale(view.zoom);
+  return [view.lon + (x - WIDTH / 2) / scale, view.lat - (y - HEIGHT / 2) / scale];
+};
+
+// Keep the view over the world
+const clampView = (view: MapView): MapView => ({
+  zoom: Math.min(MAX_ZOOM, Math.max(1, view.zoom)),
+  lon: Math.min(180, Math.max(-180, view.lon)),
+  lat: Math.min(90, Math.max(-90, view.lat)),
+});
+
+// Outline of polygons as a path in degrees, drawn through the view transform
+const buildPath = (polygons: LonLat[][][]) => {
+  const path = new Path2D();
+  polygons.forEach(polygon => polygon.forEach(ring => {
+    ring.forEach(([lon, lat], i) => (i === 0 ? path.moveTo(lon, lat) : path.lineTo(lon, lat)));
+    path.closePath();
+  }));
+  return path;
+};
+
+const buildLinePath = (lines: LonLat[][]) => {
+  const path = new Path2D();
+  lines.forEach(line => line.forEach(([lon, lat], i) => (i === 0 ? path.moveTo(lon, lat) : path.lineTo(lon, lat))));
+  return path;
+};
+
+// The selection's outline in screen coordinates
+const traceSelection = (context: CanvasRenderingContext2D, view: MapView, selection: GeoSelection) => {
+  context.beginPath();
+  if (selection.kind === 'box') {
+    const topLeft = toScreen(view, [selection.west, selection.north]);
+    const bottomRight = toScreen(view, [selection.east, selection.south]);
+    context.rect(topLeft.x, topLeft.y, bottomRight.x - topLeft.x, bottomRight.y - topLeft.y);
+  } else {
+    selection.points.forEach((point, i) => {
+      const { x, y } = toScreen(view, point);
+      if (i === 0) context.moveTo(x, y); else context.lineTo(x, y);
+    });
+    context.closePath();
+  }
+};
+
+const formatDegrees = (value: number) => value.toFixed(2);
+
+// Map of photo positions on the bundled world outlines, with box or lasso selection
+export const MapPanel: React.FC<MapPanelProps> = ({ photos, selection, onSelectionChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [world, setWorld] = useState<WorldMap | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [view, setView] = useState<MapView>(WORLD_VIEW);
+  const [mode, setMode] = useState<MapMode>('cluster');
+  const [tool, setTool] = useState<MapTool>('pan');
+  // Selection being drawn, shown until the pointer is released
+  const [draft, setDraft] = useState<GeoSelection | null>(null);
+  const dragRef = useRef<{ start: LonLat; startView: MapView; x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    loadWorldMap().then(setWorld).catch(e => {
+      console.error(e);
+      setLoadError('無法載入世界地圖資料。');
+    });
+  }, []);
+
+  const positions = useMemo(
+    () => photos.map(getPhotoPosition).filter((position): position is LonLat => !!position),
+    [photos]
+  );
+  const landPath = useMemo(() => world && buildPath(world.land), [world]);
+  const borderPath = useMemo(() => world && buildLinePath(world.borders), [world]);
+  const locateCountry = useMemo(() => world && createCountryLocator(world.countries), [world]);
+  const selectedPhotos = useMemo(() => (selection ? filterBySelection(photos, selection) : photos), [photos, selection]);
+  const countries = useMemo(
+    () => (locateCountry ? countByCountry(selectedPhotos, locateCountry) : []),
+    [selectedPhotos, locateCountry]
+  );
+  const locatedCount = countries.reduce((sum, row) => sum + row.count, 0);
+
+  // Redraw the map whenever the view, data or selection changes
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    const scale = getScale(view.zoom);
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.fillStyle = '#dce9f5';
+    context.fillRect(0, 0, WIDTH, HEIGHT);
+
+    if (landPath && borderPath) {
+      context.setTransform(scale, 0, 0, -scale, WIDTH / 2 - view.lon * scale, HEIGHT / 2 + view.lat * scale);
+      context.fillStyle = '#f4f1ea';
+      context.fill(landPath);
+      context.lineWidth = 0.8 / scale;
+      context.strokeStyle = '#9aa5b1';
+      context.stroke(landPath);
+      context.strokeStyle = '#c4b9a8';
+      context.stroke(borderPath);
+      context.setTransform(1, 0, 0, 1, 0, 0);
+    }
+
+    if (mode === 'grid') {
+      const cellSize = GRID_CELL_DEGREES.find(size => size * scale >= GRID_CELL_PIXELS) ?? 10;
+      const cells = buildDensityGrid(positions, cellSize);
+      const max = Math.max(1, ...cells.map(cell => cell.count));
+      cells.forEach(cell => {
+        const { x, y } = toScreen(view, [cell.lon, cell.lat + cellSize]);
+        const intensity = Math.log(cell.count + 1) / Math.log(max + 1);
+        context.fillStyle = `rgba(220, 53, 69, ${0.2 + intensity * 0.7})`;
+        context.fillRect(x, y, cellSize * scale, cellSize * scale);
+      });
+    } else {
+      const clusters = clusterPoints(positions.map(position => toScreen(view, position)), CLUSTER_SIZE);
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.font = '11px sans-serif';
+      clusters.forEach(({ x, y, count }) => {
+        const radius = count > 1 ? 8 + Math.log2(count) * 3 : 4;
+        context.beginPath();
+        context.arc(x, y, radius, 0, Math.PI * 2);
+        context.fillStyle = 'rgba(0, 123, 255, 0.65)';
+        context.fill();
+        context.strokeStyle = '#fff';
+        context.lineWidth = 1;
+        context.stroke();
+        if (count > 1) {
+          context.fillStyle = '#fff';
+          context.fillText(String(count), x, y);
+        }
+      });
+    }
+
+    [selection, draft].forEach(area => {
+      if (!area) return;
+      traceSelection(context, view, area);
+      context.fillStyle = 'rgba(255, 159, 64, 0.15)';
+      context.fill();
+      context.setLineDash([6, 4]);
+      context.strokeStyle = 'rgba(255, 159, 64, 1)';
+      context.lineWidth = 2;
+      context.stroke();
+      context.setLineDash([]);
+    });
+  }, [view, landPath, borderPath, positions, mode, selection, draft]);
+
+  // Zoom around the pointer; wheel listeners must be non-passive to keep the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const x = (e.clientX - rect.left) * WIDTH / rect.width;
+      const y = (e.clientY - rect.top) * HEIGHT / rect.height;
+      setView(prev => {
+        const zoom = Math.min(MAX_ZOOM, Math.max(1, prev.zoom * (e.deltaY < 0 ? 1.25 : 0.8)));
+        const [lon, lat] = toLonLat(prev, x, y);
+        // Keep the position under the pointer in place
+        const scale = getScale(zoom);
+        return clampView({ zoom, lon: lon - (x - WIDTH / 2) / scale, lat: lat + (y - HEIGHT / 2) / scale });
+      });
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const getCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) * WIDTH / rect.width, y: (e.clientY - rect.top) * HEIGHT / rect.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = getCanvasPoint(e);
+    const start = toLonLat(view, x, y);
+    dragRef.current = { start, startView: view, x, y };
+    if (tool === 'lasso') setDraft({ kind: 'lasso', points: [start] });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = getCanvasPoint(e);
+    if (tool === 'pan') {
+      const scale = getScale(drag.startView.zoom);
+      setView(clampView({
+        ...drag.startView,
+        lon: drag.startView.lon - (x - drag.x) / scale,
+        lat: drag.startView.lat + (y - drag.y) / scale,
+      }));
+    } else if (tool === 'box') {
+      const [lon, lat] = toLonLat(view, x, y);
+      setDraft({
+        kind: 'box',
+        west: Math.min(drag.start[0], lon),
+        east: Math.max(drag.start[0], lon),
+        south: Math.min(drag.start[1], lat),
+        north: Math.max(drag.start[1], lat),
+      });
+    } else {
+      setDraft(prev => (prev?.kind === 'lasso' ? { ...prev, points: [...prev.points, toLonLat(view, x, y)] } : prev));
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    if (!draft) return;
+    // A click without a drag is not a selection
+    const scale = getScale(view.zoom);
+    const isLargeEnough = draft.kind === 'box'
+      ? (draft.east - draft.west) * scale > 4 && (draft.north - draft.south) * scale > 4
+      : draft.points.length >= 3;
+    if (isLargeEnough) onSelectionChange(draft);
+    setDraft(null);
+  };
+
+  const zoomBy = (factor: number) => setView(prev => clampView({ ...prev, zoom: prev.zoom * factor }));
+
+  // Zoom to the photos
+  const fitPhotos = () => {
+    if (positions.length === 0) return;
+    const lons = positions.map(([lon]) => lon);
+    const lats = positions.map(([, lat]) => lat);
+    const [west, east, south, north] = [Math.min(...lons), Math.max(...lons), Math.min(...lats), Math.max(...lats)];
+    const zoom = Math.min(360 / Math.max(east - west, 0.01), 360 * HEIGHT / WIDTH / Math.max(north - south, 0.01)) * 0.8;
+    setView(clampView({ lon: (west + east) / 2, lat: (south + north) / 2, zoom }));
+  };
+
+  return (
+    <div className="card map-panel">
+      <h3>拍攝地圖</h3>
+      <div className="export-row">
+        <div className="button-group">
+          <button className={mode === 'cluster' ? 'active' : ''} onClick={() => setMode('cluster')}>聚合點</button>
+          <button className={mode === 'grid' ? 'active' : ''} onClick={() => setMode('grid')}>密度網格</button>
+        </div>
+        <div className="button-group">
+          <button className={tool === 'pan' ? 'active' : ''} onClick={() => setTool('pan')}>拖曳</button>
+          <button className={tool === 'box' ? 'active' : ''} onClick={() => setTool('box')}>框選</button>
+          <button className={tool === 'lasso' ? 'active' : ''} onClick={() => setTool('lasso')}>套索</button>
+        </div>
+        <button onClick={() => zoomBy(2)}>＋</button>
+        <button onClick={() => zoomBy(0.5)}>－</button>
+        <button onClick={fitPhotos} disabled={positions.length === 0}>顯示全部照片</button>
+        <button onClick={() => setView(WORLD_VIEW)}>世界</button>
+        {selection && <button onClick={() => onSelectionChange(null)}>清除選取範圍</button>}
+      </div>
+      <canvas
+        ref={canvasRef}
+        className={`map-canvas map-tool-${tool}`}
+        width={WIDTH}
+        height={HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      />
+      <p className="helper-text">
+        {positions.length} / {photos.length} 張照片有 GPS 位置。
+        {selection
+          ? `選取範圍內 ${selectedPhotos.length} 張，圖表只統計這些照片${selection.kind === 'box'
+            ? `（經度 ${formatDegrees(selection.west)}～${formatDegrees(selection.east)}，緯度 ${formatDegrees(selection.south)}～${formatDegrees(selection.north)}）`
+            : ''}。`
+          : '以框選或套索圈出範圍，即可只統計範圍內的照片。'}
+        地圖資料：Natural Earth。
+      </p>
+      {loadError && <p className="error-message">{loadError}</p>}
+      {countries.length > 0 && (
+        <table className="map-country-table">
+          <thead>
+            <tr><th>國家／地區</th><th>張數</th><th>比例</th></tr>
+          </thead>
+          <tbody>
+            {countries.map(row => (
+              <tr key={row.country}>
+                <td>{row.country}</td>
+                <td>{row.count}</td>
+                <td>{((row.count / locatedCount) * 100).toFixed(1)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
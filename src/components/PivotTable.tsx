@@ -0,0 +1,49 @@
+// src/components/PivotTable.tsx
+import React from 'react';
+import type { CrossTabResult } from '../stats';
+
+// Define the props for the PivotTable component
+interface PivotTableProps {
+  title: string;
+  result: CrossTabResult;
+}
+
+// Render a cross-tabulation with row and column totals
+export const PivotTable: React.FC<PivotTableProps> = ({ title, result }) => {
+  return (
+    <div className="card pivot-panel">
+      <h3>{title}</h3>
+      <div className="pivot-scroll">
+        <table className="quality-table pivot-table">
+          <thead>
+            <tr>
+              <th></th>
+              {result.columnLabels.map(label => <th key={label}>{label}</th>)}
+              <th>合計</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.rowLabels.map((label, row) => (
+              <tr key={label}>
+                <th>{label}</th>
+                {result.counts[row].map((count, column) => (
+                  <td key={result.columnLabels[column]} className={count === 0 ? 'pivot-zero' : ''}>{count}</td>
+                ))}
+                <td className="pivot-total">{result.rowTotals[row]}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <th>合計</th>
+              {result.columnTotals.map((total, column) => (
+                <td key={result.columnLabels[column]} className="pivot-total">{total}</td>
+              ))}
+              <td className="pivot-total">{result.total}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+// src/components/QueryBar.tsx
+import React, { useMemo, useRef, useState } from 'react';
+import type { QueryCompletion, QueryError } from '../stats';
+
+// Define the props for the QueryBar component
+interface QueryBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Error of the current expression, if it does not compile
+  error: QueryError | null;
+  complete: (text: string, cursor: number) => QueryCompletion;
+}
+
+// Filter expression input with autocompletion and inline errors
+export const QueryBar: React.FC<QueryBarProps> = ({ value, onChange, error, complete }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(0);
+  const [isOpen, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const completion = useMemo(() => complete(value, cursor), [complete, value, cursor]);
+  const suggestions = isOpen ? completion.suggestions : [];
+
+  const updateCursor = () => {
+    setCursor(inputRef.current?.selectionStart ?? value.length);
+    setActiveIndex(0);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(e.target.value);
+    setCursor(e.target.selectionStart ?? e.target.value.length);
+    setActiveIndex(0);
+    setOpen(true);
+  };
+
+  // Replace the completed part and put the cursor after the inserted text
+  const accept = (index: number) => {
+    const suggestion = suggestions[index];
+    if (!suggestion) return;
+    const next = value.slice(0, completion.from) + suggestion.insert + value.slice(completion.to);
+    const nextCursor = completion.from + suggestion.insert.length;
+    onChange(next);
+    setCursor(nextCursor);
+    setActiveIndex(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) {
+      if (e.key === 'ArrowDown') setOpen(true);
+      return;
+    }
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(prev => (prev + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(activeIndex);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="card query-bar">
+      <label htmlFor="query-input">篩選式:</label>
+      <div className="query-input-wrapper">
+        <input
+          id="query-input"
+          ref={inputRef}
+          type="text"
+          className={error ? 'query-input has-error' : 'query-input'}
+          value={value}
+          placeholder='例如 iso > 3200 lens:"70-200" date:2024 NOT folder:Drafts'
+          spellCheck={false}
+          autoComplete="off"
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onKeyUp={e => !['ArrowDown', 'ArrowUp', 'Enter', 'Tab', 'Escape'].includes(e.key) && updateCursor()}
+          onClick={() => {
+            updateCursor();
+            setOpen(true);
+          }}
+          onBlur={() => setOpen(false)}
+        />
+        {suggestions.length > 0 && (
+          <ul className="query-suggestions" role="listbox">
+            {suggestions.map((suggestion, i) => (
+              <li
+                key={`${suggestion.label}-${i}`}
+                role="option"
+                aria-selected={i === activeIndex}
+                className={i === activeIndex ? 'active' : ''}
+                // Keep the input focused so the blur does not close the list before the click
+                onMouseDown={e => {
+                  e.preventDefault();
+                  accept(i);
+                }}
+              >
+                <span>{suggestion.label}</span>
+                {suggestion.detail && <small>{suggestion.detail}</small>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {error ? (
+        <div className="query-error">
+          <code>
+            {value.slice(0, error.start)}
+            <mark>{value.slice(error.start, error.end) || ' '}</mark>
+            {value.slice(error.end)}
+          </code>
+          <span>{error.message}（篩選式有誤，目前未套用）</span>
+        </div>
+      ) : (
+        <small className="helper-text">
+          比較：iso &gt; 3200、shutter &lt;= 1/500、lens:"70-200"（包含）、camera="Sony α7 IV"（完全相同）、
+          lens:/GM$/ 或 lens ~ "GM$"（正規表示式，不分大小寫，加上 c 旗標如 /GM$/c 則區分）、focal:24..70、date:2023-06..2024（範圍）、lens:*（有記錄）。
+          以 AND、OR、NOT 與括號組合，空白相連視為 AND；沒有欄位的文字會搜尋檔名、資料夾、相機與鏡頭。
+          會與資料夾、相機與鏡頭的勾選一併套用。
+        </small>
+      )}
+    </div>
+  );
+};
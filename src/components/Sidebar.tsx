@@ -1,97 +1,398 @@
-// src/components/Sidebar.tsx
-import React from 'react';
-
-// A reusable component for filter groups
-const FilterGroup: React.FC<{
-  title: string;
-  items: string[];
-  selectedItems: string[];
-  onChange: (selected: string[]) => void;
-}> = ({ title, items, selectedItems, onChange }) => {
-  const handleSelectAll = (e: React.ChangeEvent<HTMLInputElement>) => {
-    onChange(e.target.checked ? items : []);
-  };
-  const handleItemChange = (item: string, checked: boolean) => {
-    onChange(checked ? [...selectedItems, item] : selectedItems.filter(i => i !== item));
-  };
-  const isAllSelected = items.length > 0 && selectedItems.length === items.length;
-  // Render the filter group UI
-  return (
-    <div className="filter-group">
-      <h4>{title}</h4>
-      <div className="filter-list">
-        <label>
-          <input type="checkbox" checked={isAllSelected} onChange={handleSelectAll} />
-          <strong>(全選/取消)</strong>
-        </label>
-        {items.map(item => (
-          <label key={item}>
-            <input type="checkbox" value={item} checked={selectedItems.includes(item)} onChange={e => handleItemChange(item, e.target.checked)} />
-            {item}
-          </label>
-        ))}
-      </div>
-    </div>
-  );
-};
-
-// Define the props for the Sidebar component
-interface SidebarProps {
-  isOpen: boolean;
-  onClose: () => void;
-  availableFolders: string[];
-  selectedFolders: string[];
-  onFolderChange: (selected: string[]) => void;
-  availableModels: string[];
-  selectedModels: string[];
-  onModelChange: (selected: string[]) => void;
-  availableLenses: string[];
-  selectedLenses: string[];
-  onLensChange: (selected: string[]) => void;
-  cropFactors: { [model: string]: number | undefined };
-  onCropFactorChange: (model: string, factor: string) => void;
-}
-
-// The main Sidebar component
-export const Sidebar: React.FC<SidebarProps> = ({
-  isOpen, onClose,
-  availableFolders, selectedFolders, onFolderChange,
-  availableModels, selectedModels, onModelChange,
-  availableLenses, selectedLenses, onLensChange,
-  cropFactors, onCropFactorChange
-}) => {
-  return (
-    <>
-      <div className={`sidebar-overlay ${isOpen ? 'open' : ''}`} onClick={onClose}></div>
-      <aside className={`sidebar ${isOpen ? 'open' : ''}`}>
-        <div className="sidebar-header">
-          <h3>篩選與設定</h3>
-          <button onClick={onClose}>關閉</button>
-        </div>
-        <div className="sidebar-content">
-          <FilterGroup title="資料夾" items={availableFolders} selectedItems={selectedFolders} onChange={onFolderChange} />
-          <FilterGroup title="相機型號" items={availableModels} selectedItems={selectedModels} onChange={onModelChange} />
-          <FilterGroup title="鏡頭型號" items={availableLenses} selectedItems={selectedLenses} onChange={onLensChange} />
-          <div className="filter-group">
-            <h4>相機等效焦段倍率</h4>
-            <div className="crop-factor-list">
-              {availableModels.map(model => (
-                <div key={model} className="crop-factor-item">
-                  <span className="model-name" title={model}>{model}</span>
-                  <input
-                    type="number"
-                    className="crop-factor-input"
-                    placeholder="e.g. 1.5"
-                    step="0.1"
-                    value={cropFactors[model] || ''}
-                    onChange={(e) => onCropFactorChange(model, e.target.value)}
-                  />
-                </div>
-              ))}
-            </div>
-          </div>
-        </div>
-      </aside>
-    </>
-  );
+// src/components/Sidebar.tsx
+import React from 'react';
+import type { LensFactorRule } from '../cameraData';
+import {
+  FILE_FORMATS,
+  isCropFactorMismatch,
+  type CropFactorInference,
+  type DuplicatePolicy,
+  type DuplicateSummary,
+  type EquivalentFocalSummaryRow,
+  type ExifCategoryField,
+  type FileFormatId,
+  type MediaKind,
+  type NameField,
+  type NameRule,
+} from '../stats';
+
+// An EXIF model string and its display name
+interface CameraModel {
+  model: string;
+  name: string;
+}
+
+const CONFIDENCE_LABELS = { high: '高', medium: '中', low: '低' };
+const DUPLICATE_POLICY_LABELS: Record<DuplicatePolicy, string> = {
+  frame: '每個畫面只計一次（RAW+JPEG 計 JPEG）',
+  'prefer-raw': '每個畫面只計一次，優先計 RAW',
+  all: '全部檔案都計入',
+};
+const MEDIA_SCOPE_LABELS: Record<MediaKind | 'all', string> = {
+  all: '照片與影片一起計',
+  photo: '只計照片',
+  video: '只計影片',
+};
+const METHOD_LABELS = { 'focal-35mm': '35mm 等效焦距', 'focal-plane': '感光元件尺寸' };
+
+// Tooltip listing the EXIF spellings merged under a name
+const describeVariants = (variants: string[]): string => `EXIF：${variants.join('、')}`;
+
+// Where an inferred crop factor came from, for the tooltip
+const describeInference = (inference: CropFactorInference): string =>
+  `由 ${inference.samples} 張照片的${METHOD_LABELS[inference.method]}推算約為 ${inference.factor}`
+  + `（誤差 ${(inference.spread * 100).toFixed(1)}%，可信度${CONFIDENCE_LABELS[inference.confidence]}）`;
+
+// A reusable component for filter groups
+const FilterGroup: React.FC<{
+  title: string;
+  items: string[];
+  selectedItems: string[];
+  onChange: (selected: string[]) => void;
+  // Tooltip of an item, e.g. the EXIF values behind a name
+  getItemTitle?: (item: string) => string | undefined;
+}> = ({ title, items, selectedItems, onChange, getItemTitle }) => {
+  const handleSelectAll = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(e.target.checked ? items : []);
+  };
+  const handleItemChange = (item: string, checked: boolean) => {
+    onChange(checked ? [...selectedItems, item] : selectedItems.filter(i => i !== item));
+  };
+  const isAllSelected = items.length > 0 && selectedItems.length === items.length;
+  // Render the filter group UI
+  return (
+    <div className="filter-group">
+      <h4>{title}</h4>
+      <div className="filter-list">
+        <label>
+          <input type="checkbox" checked={isAllSelected} onChange={handleSelectAll} />
+          <strong>(全選/取消)</strong>
+        </label>
+        {items.map(item => (
+          <label key={item} title={getItemTitle?.(item)}>
+            <input type="checkbox" value={item} checked={selectedItems.includes(item)} onChange={e => handleItemChange(item, e.target.checked)} />
+            {item}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Editable list of per-lens crop factor rules
+const LensFactorRuleEditor: React.FC<{
+  rules: LensFactorRule[];
+  models: CameraModel[];
+  onChange: (rules: LensFactorRule[]) => void;
+}> = ({ rules, models, onChange }) => {
+  const updateRule = (id: string, changes: Partial<LensFactorRule>) => {
+    onChange(rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+  };
+  // New rules go first so they win over the built-in lens-only rules
+  const addRule = () => {
+    onChange([{ id: `rule-${Date.now()}`, lens: '', factor: 1.5, mode: 'replace' }, ...rules]);
+  };
+  return (
+    <div className="filter-group">
+      <h4>鏡頭倍率規則</h4>
+      <span className="helper-text">
+        鏡頭名稱可填部分文字或 /正規表示式/。指定機身的規則優先，其次依列表順序；規則以外才使用 EXIF 35mm 焦距或機身倍率。
+      </span>
+      <div className="lens-rule-list">
+        {rules.map(rule => (
+          <div key={rule.id} className="lens-rule-item">
+            <input
+              type="text"
+              className="lens-rule-pattern"
+              placeholder="鏡頭，例如 DT 或 /^E \d/"
+              title={rule.label}
+              value={rule.lens}
+              onChange={e => updateRule(rule.id, { lens: e.target.value, label: undefined })}
+            />
+            <select value={rule.model ?? ''} onChange={e => updateRule(rule.id, { model: e.target.value || undefined })}>
+              <option value="">任何機身</option>
+              {/* Keep a rule's body listed even when no loaded photo uses it */}
+              {rule.model && !models.some(m => m.model === rule.model) && <option value={rule.model}>{rule.model}</option>}
+              {models.map(({ model, name }) => (
+                <option key={model} value={model}>{name}</option>
+              ))}
+            </select>
+            <select value={rule.mode} onChange={e => updateRule(rule.id, { mode: e.target.value as LensFactorRule['mode'] })}>
+              <option value="replace">取代機身倍率</option>
+              <option value="multiply">乘上機身倍率</option>
+            </select>
+            <input
+              type="number"
+              className="crop-factor-input"
+              step="0.1"
+              min="0.1"
+              value={rule.factor}
+              onChange={e => {
+                const factor = parseFloat(e.target.value);
+                if (factor > 0) updateRule(rule.id, { factor });
+              }}
+            />
+            <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} title="刪除規則">✕</button>
+          </div>
+        ))}
+      </div>
+      <button onClick={addRule}>新增規則</button>
+    </div>
+  );
+};
+
+// Editable list of camera and lens alias rules
+const NameRuleEditor: React.FC<{
+  rules: NameRule[];
+  onChange: (rules: NameRule[]) => void;
+}> = ({ rules, onChange }) => {
+  const updateRule = (id: string, changes: Partial<NameRule>) => {
+    onChange(rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+  };
+  return (
+    <div className="filter-group">
+      <h4>名稱對照規則</h4>
+      <span className="helper-text">
+        將符合的 EXIF 名稱（完整名稱或 /正規表示式/）顯示為新名稱；多條規則使用相同名稱即可合併。
+      </span>
+      <div className="lens-rule-list">
+        {rules.map(rule => (
+          <div key={rule.id} className="lens-rule-item">
+            <select value={rule.field} onChange={e => updateRule(rule.id, { field: e.target.value as NameField })}>
+              <option value="model">相機</option>
+              <option value="lens">鏡頭</option>
+            </select>
+            <input
+              type="text"
+              className="lens-rule-pattern"
+              placeholder="原名稱，例如 ILCE-7M4 或 /24-70/"
+              value={rule.match}
+              onChange={e => updateRule(rule.id, { match: e.target.value })}
+            />
+            <input
+              type="text"
+              className="lens-rule-pattern"
+              placeholder="顯示名稱"
+              value={rule.name}
+              onChange={e => updateRule(rule.id, { name: e.target.value })}
+            />
+            <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} title="刪除規則">✕</button>
+          </div>
+        ))}
+      </div>
+      <button onClick={() => onChange([...rules, { id: `name-${Date.now()}`, field: 'model', match: '', name: '' }])}>
+        新增規則
+      </button>
+    </div>
+  );
+};
+
+// Define the props for the Sidebar component
+interface SidebarProps {
+  isOpen: boolean;
+  onClose: () => void;
+  availableFolders: string[];
+  selectedFolders: string[];
+  onFolderChange: (selected: string[]) => void;
+  availableModels: string[];
+  selectedModels: string[];
+  onModelChange: (selected: string[]) => void;
+  availableLenses: string[];
+  selectedLenses: string[];
+  onLensChange: (selected: string[]) => void;
+  // Filters of the additional EXIF fields that have more than one value
+  extraFilters: { field: ExifCategoryField; label: string; values: string[]; selected: string[] }[];
+  onExtraFilterChange: (field: ExifCategoryField, selected: string[]) => void;
+  // Cameras by EXIF model, for the crop factor inputs and lens rules
+  cameraModels: CameraModel[];
+  getVariants: (field: NameField, name: string) => string[];
+  nameRules: NameRule[];
+  onNameRulesChange: (rules: NameRule[]) => void;
+  cropFactors: { [model: string]: number | undefined };
+  cropInferences: Map<string, CropFactorInference>;
+  onCropFactorChange: (model: string, factor: string) => void;
+  lensFactorRules: LensFactorRule[];
+  onLensFactorRulesChange: (rules: LensFactorRule[]) => void;
+  // How each body and lens got its equivalent focal length
+  focalSources: EquivalentFocalSummaryRow[];
+  duplicatePolicy: DuplicatePolicy;
+  onDuplicatePolicyChange: (policy: DuplicatePolicy) => void;
+  duplicateSummary: Omit<DuplicateSummary, 'photos'>;
+  // File types picked up by the next scans
+  fileFormats: FileFormatId[];
+  onFileFormatsChange: (formats: FileFormatId[]) => void;
+  mediaCounts: Record<MediaKind, number>;
+  mediaScope: MediaKind | 'all';
+  // Only when the library holds both photos and videos
+  canChangeMediaScope: boolean;
+  onMediaScopeChange: (scope: MediaKind | 'all') => void;
+}
+
+// The main Sidebar component
+export const Sidebar: React.FC<SidebarProps> = ({
+  isOpen, onClose,
+  availableFolders, selectedFolders, onFolderChange,
+  availableModels, selectedModels, onModelChange,
+  availableLenses, selectedLenses, onLensChange,
+  extraFilters, onExtraFilterChange,
+  cameraModels, getVariants, nameRules, onNameRulesChange,
+  cropFactors, cropInferences, onCropFactorChange,
+  lensFactorRules, onLensFactorRulesChange, focalSources,
+  duplicatePolicy, onDuplicatePolicyChange, duplicateSummary,
+  fileFormats, onFileFormatsChange, mediaCounts, mediaScope, canChangeMediaScope, onMediaScopeChange
+}) => {
+  return (
+    <>
+      <div className={`sidebar-overlay ${isOpen ? 'open' : ''}`} onClick={onClose}></div>
+      <aside className={`sidebar ${isOpen ? 'open' : ''}`}>
+        <div className="sidebar-header">
+          <h3>篩選與設定</h3>
+          <button onClick={onClose}>關閉</button>
+        </div>
+        <div className="sidebar-content">
+          <FilterGroup title="資料夾" items={availableFolders} selectedItems={selectedFolders} onChange={onFolderChange} />
+          <FilterGroup
+            title="相機型號"
+            items={availableModels}
+            selectedItems={selectedModels}
+            onChange={onModelChange}
+            getItemTitle={item => describeVariants(getVariants('model', item))}
+          />
+          <FilterGroup
+            title="鏡頭型號"
+            items={availableLenses}
+            selectedItems={selectedLenses}
+            onChange={onLensChange}
+            getItemTitle={item => describeVariants(getVariants('lens', item))}
+          />
+          {extraFilters.length > 0 && (
+            <details className="extra-filters">
+              <summary>
+                更多 EXIF 篩選
+                {extraFilters.some(filter => filter.selected.length < filter.values.length) && '（已套用）'}
+              </summary>
+              {extraFilters.map(filter => (
+                <FilterGroup
+                  key={filter.field}
+                  title={filter.label}
+                  items={filter.values}
+                  selectedItems={filter.selected}
+                  onChange={selected => onExtraFilterChange(filter.field, selected)}
+                />
+              ))}
+            </details>
+          )}
+          <div className="filter-group">
+            <h4>重複檔案與 RAW+JPEG</h4>
+            <div className="filter-list">
+              {(Object.keys(DUPLICATE_POLICY_LABELS) as DuplicatePolicy[]).map(policy => (
+                <label key={policy}>
+                  <input
+                    type="radio"
+                    name="duplicate-policy"
+                    checked={duplicatePolicy === policy}
+                    onChange={() => onDuplicatePolicyChange(policy)}
+                  />
+                  {DUPLICATE_POLICY_LABELS[policy]}
+                </label>
+              ))}
+            </div>
+            <span className="helper-text">
+              找到 {duplicateSummary.rawPairs} 組 RAW+JPEG（以檔名與拍攝時間配對）與 {duplicateSummary.copies} 個重複載入的檔案
+              {duplicateSummary.hidden > 0 ? `，${duplicateSummary.hidden} 個檔案未計入。` : '。'}
+            </span>
+          </div>
+          <div className="filter-group">
+            <h4>檔案類型</h4>
+            {canChangeMediaScope && (
+              <div className="filter-list">
+                {(Object.keys(MEDIA_SCOPE_LABELS) as (MediaKind | 'all')[]).map(scope => (
+                  <label key={scope}>
+                    <input
+                      type="radio"
+                      name="media-scope"
+                      checked={mediaScope === scope}
+                      onChange={() => onMediaScopeChange(scope)}
+                    />
+                    {MEDIA_SCOPE_LABELS[scope]}
+                    {scope !== 'all' && `（${mediaCounts[scope]}）`}
+                  </label>
+                ))}
+              </div>
+            )}
+            <div className="filter-list">
+              {FILE_FORMATS.map(format => (
+                <label key={format.id} title={format.extensions.map(extension => `.${extension}`).join(' ')}>
+                  <input
+                    type="checkbox"
+                    checked={fileFormats.includes(format.id)}
+                    onChange={e => onFileFormatsChange(e.target.checked
+                      ? [...fileFormats, format.id]
+                      : fileFormats.filter(id => id !== format.id))}
+                  />
+                  {format.label}
+                  {format.kind === 'video' && '（影片）'}
+                </label>
+              ))}
+            </div>
+            <span className="helper-text">
+              勾選的類型在下次選擇或匯入資料夾時讀取。影片會讀取 MP4/MOV 中記錄的相機、鏡頭、等效焦距、拍攝時間與位置。
+            </span>
+          </div>
+          <NameRuleEditor rules={nameRules} onChange={onNameRulesChange} />
+          <div className="filter-group">
+            <h4>相機等效焦段倍率</h4>
+            <div className="crop-factor-list">
+              {cameraModels.map(({ model, name }) => {
+                const inference = cropInferences.get(model);
+                const entered = cropFactors[model];
+                return (
+                  <div key={model} className="crop-factor-entry">
+                    <div className="crop-factor-item">
+                      <span className="model-name" title={model}>{name}</span>
+                      {inference && entered === undefined && (
+                        <span className={`crop-confidence crop-confidence-${inference.confidence}`} title={describeInference(inference)}>
+                          推算·{CONFIDENCE_LABELS[inference.confidence]}
+                        </span>
+                      )}
+                      <input
+                        type="number"
+                        className="crop-factor-input"
+                        placeholder="e.g. 1.5"
+                        step="0.1"
+                        value={entered ?? inference?.factor ?? ''}
+                        onChange={(e) => onCropFactorChange(model, e.target.value)}
+                      />
+                    </div>
+                    {inference && isCropFactorMismatch(entered, inference) && (
+                      <span className="crop-factor-warning" title={describeInference(inference)}>
+                        ⚠ EXIF 推算約為 {inference.factor}，與設定的 {entered} 不符
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <span className="helper-text">清空欄位即改用由 EXIF 推算的倍率。</span>
+          </div>
+          <LensFactorRuleEditor
+            rules={lensFactorRules}
+            models={cameraModels}
+            onChange={onLensFactorRulesChange}
+          />
+          <div className="filter-group">
+            <h4>等效焦段來源</h4>
+            <ul className="focal-source-list">
+              {focalSources.map(row => (
+                <li key={`${row.model}|${row.lens}|${row.description}`}>
+                  <span className="model-name" title={`${row.model} · ${row.lens}`}>{row.model} · {row.lens}</span>
+                  <span className="focal-source-description">{row.description}（{row.count} 張）</span>
+                </li>
+              ))}
+            </ul>
+            {focalSources.length === 0 && <span className="helper-text">沒有含焦距資料的照片。</span>}
+          </div>
+        </div>
+      </aside>
+    </>
+  );
 };
\ No newline at end of file
@@ -0,0 +1,72 @@
+// src/components/SnapshotPanel.tsx
+import React, { useRef, useState } from 'react';
+
+// An imported snapshot, listed as a read-only source
+export interface SnapshotSourceInfo {
+  id: string;
+  name: string;
+  photoCount: number;
+  createdAt: string;
+  anonymized: boolean;
+}
+
+// Define the props for the SnapshotPanel component
+interface SnapshotPanelProps {
+  sources: SnapshotSourceInfo[];
+  canExport: boolean;
+  onExport: (anonymize: boolean) => void;
+  onImport: (file: File) => void;
+  onRemove: (id: string) => void;
+}
+
+// Export the library as a metadata-only snapshot and manage imported snapshots
+export const SnapshotPanel: React.FC<SnapshotPanelProps> = ({ sources, canExport, onExport, onImport, onRemove }) => {
+  const [anonymize, setAnonymize] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImport(file);
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="card snapshot-panel">
+      <h3>資料庫快照</h3>
+      <p className="helper-text">
+        快照只包含 EXIF 資訊、資料夾清單、等效焦段倍率與目前的分析設定，不包含任何照片檔案。
+      </p>
+      <div className="export-row">
+        <label className="export-label">
+          <input type="checkbox" checked={anonymize} onChange={e => setAnonymize(e.target.checked)} />
+          {' '}匿名化檔名、資料夾名稱與序號，並移除 GPS 位置
+        </label>
+        <button onClick={() => onExport(anonymize)} disabled={!canExport}>匯出快照</button>
+        <button onClick={() => fileInputRef.current?.click()}>匯入快照</button>
+        <input
+          type="file"
+          accept=".json,application/json"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          style={{ display: 'none' }}
+        />
+      </div>
+      {sources.length > 0 && (
+        <ul className="cache-list">
+          {sources.map(source => (
+            <li key={source.id}>
+              <span className="model-name" title={source.name}>
+                {source.name}（唯讀{source.anonymized && '，已匿名化'}）
+              </span>
+              <span>{source.photoCount} 張</span>
+              {source.createdAt && <span>{new Date(source.createdAt).toLocaleDateString()}</span>}
+              <button onClick={() => onRemove(source.id)}>移除</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
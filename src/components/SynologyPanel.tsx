@@ -0,0 +1,243 @@
+// src/components/SynologyPanel.tsx
+import React, { useState } from 'react';
+import type { PhotoData } from '../stats';
+import {
+  connectSynology,
+  disconnectSynology,
+  fetchSynologyPhotos,
+  getSynologyFolderPath,
+  listSynologyAlbums,
+  listSynologyFolders,
+  SynologyProxyError,
+  type SynologyAlbum,
+  type SynologyContainer,
+  type SynologyFolder,
+  type SynologyId,
+  type SynologySession,
+} from '../synology';
+
+// Define the props for the SynologyPanel component
+interface SynologyPanelProps {
+  // Called once per imported album or folder with all of its photos
+  onImport: (folderPath: string, photos: PhotoData[]) => void;
+}
+
+const containerKey = (container: SynologyContainer) => `${container.kind}:${container.id}`;
+
+// "Connect NAS" flow: log in, pick albums and folders, then load every item of the selection
+export const SynologyPanel: React.FC<SynologyPanelProps> = ({ onImport }) => {
+  const [host, setHost] = useState('');
+  const [account, setAccount] = useState('');
+  const [password, setPassword] = useState('');
+  // Two-factor login: shown once the NAS asks for a one-time password
+  const [otpRequired, setOtpRequired] = useState(false);
+  const [otpCode, setOtpCode] = useState('');
+  const [trustDevice, setTrustDevice] = useState(false);
+  const [session, setSession] = useState<SynologySession | null>(null);
+  const [albums, setAlbums] = useState<SynologyAlbum[]>([]);
+  // Subfolders by parent id; the root folder's children are stored under ''
+  const [subfolders, setSubfolders] = useState<{ [parentId: string]: SynologyFolder[] }>({});
+  const [expandedFolders, setExpandedFolders] = useState<SynologyId[]>([]);
+  const [selected, setSelected] = useState<{ [key: string]: SynologyContainer }>({});
+  const [busyMessage, setBusyMessage] = useState('');
+  const [error, setError] = useState('');
+
+  // Run a network action, showing its progress message and any error
+  const runAction = async (message: string, action: () => Promise<void>) => {
+    setBusyMessage(message);
+    setError('');
+    try {
+      await action();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : '發生未知錯誤。');
+      if (e instanceof SynologyProxyError) {
+        if (e.otpRequired) setOtpRequired(true);
+        if (e.expired) resetSession();
+      }
+    } finally {
+      setBusyMessage('');
+    }
+  };
+
+  const handleConnect = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction('正在連線到 NAS...', async () => {
+      const newSession = await connectSynology(host, account, password, {
+        otpCode: otpRequired ? otpCode : undefined,
+        trustDevice: otpRequired && trustDevice,
+      });
+      setPassword('');
+      setOtpCode('');
+      setOtpRequired(false);
+      const [albumList, rootFolders] = await Promise.all([
+        listSynologyAlbums(newSession),
+        listSynologyFolders(newSession),
+      ]);
+      setSession(newSession);
+      setAlbums(albumList);
+      setSubfolders({ '': rootFolders });
+      setExpandedFolders([]);
+      setSelected({});
+    });
+  };
+
+  // Forget the session and everything listed with it
+  const resetSession = () => {
+    setSession(null);
+    setAlbums([]);
+    setSubfolders({});
+    setSelected({});
+  };
+
+  const handleDisconnect = async () => {
+    if (session) {
+      await disconnectSynology(session);
+    }
+    resetSession();
+  };
+
+  const toggleSelected = (container: SynologyContainer, checked: boolean) => {
+    setSelected(prev => {
+      const next = { ...prev };
+      if (checked) {
+        next[containerKey(container)] = container;
+      } else {
+        delete next[containerKey(container)];
+      }
+      return next;
+    });
+  };
+
+  // Expand a folder, loading its subfolders the first time
+  const toggleFolder = (folder: SynologyFolder) => {
+    if (expandedFolders.includes(folder.id)) {
+      setExpandedFolders(prev => prev.filter(id => id !== folder.id));
+      return;
+    }
+    if (subfolders[folder.id] || !session) {
+      setExpandedFolders(prev => [...prev, folder.id]);
+      return;
+    }
+    runAction(`正在讀取 ${folder.name}...`, async () => {
+      const children = await listSynologyFolders(session, folder.id);
+      setSubfolders(prev => ({ ...prev, [folder.id]: children }));
+      setExpandedFolders(prev => [...prev, folder.id]);
+    });
+  };
+
+  const handleImport = () => {
+    if (!session) return;
+    runAction('正在讀取照片...', async () => {
+      for (const container of Object.values(selected)) {
+        const photos = await fetchSynologyPhotos(session, container, loaded => {
+          setBusyMessage(`正在讀取「${container.name}」：已取得 ${loaded} 張`);
+        });
+        onImport(getSynologyFolderPath(session.host, container), photos);
+      }
+      setSelected({});
+    });
+  };
+
+  const renderFolders = (parentId: SynologyId, depth: number): React.ReactNode =>
+    (subfolders[parentId] || []).map(folder => {
+      const container: SynologyContainer = { kind: 'folder', id: folder.id, name: folder.name };
+      return (
+        <React.Fragment key={folder.id}>
+          <div className="synology-folder" style={{ paddingLeft: depth * 20 }}>
+            <button className="synology-expand" onClick={() => toggleFolder(folder)} disabled={!!busyMessage}>
+              {expandedFolders.includes(folder.id) ? '▾' : '▸'}
+            </button>
+            <label>
+              <input
+                type="checkbox"
+                checked={!!selected[containerKey(container)]}
+                onChange={e => toggleSelected(container, e.target.checked)}
+              />
+              {folder.name}
+            </label>
+          </div>
+          {expandedFolders.includes(folder.id) && renderFolders(folder.id, depth + 1)}
+        </React.Fragment>
+      );
+    });
+
+  const selectedCount = Object.keys(selected).length;
+
+  return (
+    <div className="card synology-panel">
+      <h3>Synology NAS</h3>
+      {!session ? (
+        <form className="synology-login" onSubmit={handleConnect}>
+          <input type="text" placeholder="NAS 位址，例如 https://nas.local:5001" value={host} onChange={e => setHost(e.target.value)} required />
+          <input type="text" placeholder="帳號" value={account} onChange={e => setAccount(e.target.value)} autoComplete="username" required />
+          <input type="password" placeholder="密碼" value={password} onChange={e => setPassword(e.target.value)} autoComplete="current-password" required />
+          {otpRequired && (
+            <>
+              <input
+                type="text"
+                inputMode="numeric"
+                placeholder="二階段驗證碼"
+                value={otpCode}
+                onChange={e => setOtpCode(e.target.value)}
+                autoComplete="one-time-code"
+                required
+              />
+              <label className="synology-trust">
+                <input type="checkbox" checked={trustDevice} onChange={e => setTrustDevice(e.target.checked)} />
+                信任此裝置，下次不再詢問驗證碼
+              </label>
+            </>
+          )}
+          <button type="submit" disabled={!!busyMessage}>連線 NAS</button>
+        </form>
+      ) : (
+        <>
+          <div className="export-row">
+            <span className="export-label">
+              已連線：{session.host}（{session.backend === 'photostation' ? 'Photo Station' : 'Synology Photos'}）
+            </span>
+            <button onClick={handleDisconnect} disabled={!!busyMessage}>中斷連線</button>
+          </div>
+          <div className="synology-browser">
+            <div className="filter-group">
+              <h4>相簿</h4>
+              <div className="filter-list">
+                {albums.length === 0 && (
+                  <span className="helper-text">
+                    {session.backend === 'photostation' ? 'Photo Station 的相簿就是資料夾，請在資料夾中選取。' : '沒有相簿。'}
+                  </span>
+                )}
+                {albums.map(album => {
+                  const container: SynologyContainer = { kind: 'album', id: album.id, name: album.name };
+                  return (
+                    <label key={album.id}>
+                      <input
+                        type="checkbox"
+                        checked={!!selected[containerKey(container)]}
+                        onChange={e => toggleSelected(container, e.target.checked)}
+                      />
+                      {album.name}（{album.itemCount} 張）
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+            <div className="filter-group">
+              <h4>資料夾</h4>
+              <div className="synology-folders">{renderFolders('', 0)}</div>
+            </div>
+          </div>
+          <div className="export-row">
+            <span className="export-label">
+              已選取 {selectedCount} 個相簿/資料夾（資料夾只讀取該層的照片）
+            </span>
+            <button onClick={handleImport} disabled={selectedCount === 0 || !!busyMessage}>匯入所選</button>
+          </div>
+        </>
+      )}
+      {busyMessage && <p className="loading-message">{busyMessage}</p>}
+      {error && <p className="error-message">{error}</p>}
+    </div>
+  );
+};
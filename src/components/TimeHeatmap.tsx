@@ -0,0 +1,45 @@
+// src/components/TimeHeatmap.tsx
+import React from 'react';
+import { WEEKDAY_LABELS } from '../stats/timeline';
+
+// Define the props for the TimeHeatmap component
+interface TimeHeatmapProps {
+  title: string;
+  matrix: number[][];
+}
+
+// Hour-of-day × weekday heatmap rendered as a grid of shaded cells
+export const TimeHeatmap: React.FC<TimeHeatmapProps> = ({ title, matrix }) => {
+  const max = Math.max(0, ...matrix.flat());
+  const total = matrix.flat().reduce((sum, n) => sum + n, 0);
+  const hours = Array.from({ length: 24 }, (_, i) => i);
+
+  return (
+    <div className="heatmap">
+      <h3>{title}</h3>
+      <div className="heatmap-grid">
+        <span className="heatmap-corner"></span>
+        {hours.map(hour => (
+          <span key={hour} className="heatmap-hour">{hour}</span>
+        ))}
+        {matrix.map((row, weekday) => (
+          <React.Fragment key={weekday}>
+            <span className="heatmap-weekday">週{WEEKDAY_LABELS[weekday]}</span>
+            {row.map((count, hour) => {
+              const intensity = max > 0 ? count / max : 0;
+              const percentage = total > 0 ? ((count / total) * 100).toFixed(1) : '0.0';
+              return (
+                <span
+                  key={hour}
+                  className="heatmap-cell"
+                  style={{ backgroundColor: count > 0 ? `rgba(0, 123, 255, ${0.1 + intensity * 0.9})` : undefined }}
+                  title={`週${WEEKDAY_LABELS[weekday]} ${hour}:00–${hour}:59：${count} 張 (${percentage}%)`}
+                ></span>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+// src/components/WebDavPanel.tsx
+import React, { useState } from 'react';
+import type { PhotoData, ScanFailure } from '../stats';
+import {
+  fetchWebDavPhotos,
+  getWebDavFolderPath,
+  listWebDavDirectory,
+  type WebDavConnection,
+  type WebDavEntry,
+} from '../webdav';
+
+// Define the props for the WebDavPanel component
+interface WebDavPanelProps {
+  // Called with the library folder path of the imported folder, replacing earlier imports below it
+  onImport: (rootName: string, photos: PhotoData[], failures: ScanFailure[]) => void;
+  // Which files are read, from the enabled file types
+  isScannedFile: (filename: string) => boolean;
+}
+
+// "Connect WebDAV" flow: open a share, browse to a folder, then read the EXIF of its images
+export const WebDavPanel: React.FC<WebDavPanelProps> = ({ onImport, isScannedFile }) => {
+  const [url, setUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [connection, setConnection] = useState<WebDavConnection | null>(null);
+  const [currentPath, setCurrentPath] = useState('');
+  const [entries, setEntries] = useState<WebDavEntry[]>([]);
+  const [recursive, setRecursive] = useState(true);
+  const [busyMessage, setBusyMessage] = useState('');
+  const [error, setError] = useState('');
+
+  // Run a network action, showing its progress message and any error
+  const runAction = async (message: string, action: () => Promise<void>) => {
+    setBusyMessage(message);
+    setError('');
+    try {
+      await action();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : '發生未知錯誤。');
+    } finally {
+      setBusyMessage('');
+    }
+  };
+
+  const openFolder = (target: WebDavConnection, path: string) => {
+    runAction('正在讀取資料夾...', async () => {
+      const list = await listWebDavDirectory(target, path);
+      setConnection(target);
+      setCurrentPath(path);
+      setEntries(list);
+    });
+  };
+
+  const handleConnect = (e: React.FormEvent) => {
+    e.preventDefault();
+    // The credentials stay in memory only, for the requests of this session
+    openFolder({ url: url.trim(), username, password }, '');
+  };
+
+  const handleDisconnect = () => {
+    setConnection(null);
+    setPassword('');
+    setEntries([]);
+    setCurrentPath('');
+  };
+
+  const handleImport = () => {
+    if (!connection) return;
+    runAction('正在尋找照片...', async () => {
+      const { photos, failures } = await fetchWebDavPhotos(connection, currentPath, {
+        recursive,
+        isScannedFile,
+        onProgress: progress => {
+          setBusyMessage(progress.filesRead > 0
+            ? `正在讀取 EXIF：${progress.filesRead} / ${progress.filesFound}`
+            : `正在尋找照片：已掃描 ${progress.foldersListed} 個資料夾，找到 ${progress.filesFound} 張`);
+        },
+      });
+      onImport(getWebDavFolderPath(connection, currentPath), photos, failures);
+      if (failures.length > 0) {
+        setError(`${failures.length} 張照片無法讀取 EXIF，詳見資料品質報告。`);
+      }
+    });
+  };
+
+  const parentPath = currentPath.slice(0, currentPath.lastIndexOf('/'));
+  const folders = entries.filter(entry => entry.isDirectory);
+  const fileCount = entries.filter(entry => !entry.isDirectory && isScannedFile(entry.name)).length;
+
+  return (
+    <div className="card synology-panel">
+      <h3>WebDAV / Nextcloud</h3>
+      {!connection ? (
+        <form className="synology-login" onSubmit={handleConnect}>
+          <input
+            type="url"
+            placeholder="WebDAV 位址，例如 https://cloud.example.com/remote.php/dav/files/帳號/"
+            value={url}
+            onChange={e => setUrl(e.target.value)}
+            required
+          />
+          <input type="text" placeholder="帳號（可留空）" value={username} onChange={e => setUsername(e.target.value)} autoComplete="username" />
+          <input type="password" placeholder="密碼或應用程式密碼" value={password} onChange={e => setPassword(e.target.value)} autoComplete="current-password" />
+          <button type="submit" disabled={!!busyMessage}>連線</button>
+        </form>
+      ) : (
+        <>
+          <div className="export-row">
+            <span className="export-label">目前資料夾：{getWebDavFolderPath(connection, currentPath)}</span>
+            <button onClick={handleDisconnect} disabled={!!busyMessage}>中斷連線</button>
+          </div>
+          <div className="synology-folders">
+            {currentPath && (
+              <div className="synology-folder">
+                <button className="synology-expand" onClick={() => openFolder(connection, parentPath)} disabled={!!busyMessage}>
+                  ..
+                </button>
+                <span>上一層</span>
+              </div>
+            )}
+            {folders.map(folder => (
+              <div key={folder.path} className="synology-folder">
+                <button className="synology-expand" onClick={() => openFolder(connection, folder.path)} disabled={!!busyMessage}>
+                  ▸
+                </button>
+                <span>{folder.name}</span>
+              </div>
+            ))}
+            {folders.length === 0 && <span className="helper-text">沒有子資料夾。</span>}
+          </div>
+          <div className="export-row">
+            <label>
+              <input type="checkbox" checked={recursive} onChange={e => setRecursive(e.target.checked)} />
+              包含子資料夾
+            </label>
+            <span className="export-label">這一層有 {fileCount} 個符合的檔案</span>
+            <button onClick={handleImport} disabled={!!busyMessage}>匯入此資料夾</button>
+          </div>
+        </>
+      )}
+      {busyMessage && <p className="loading-message">{busyMessage}</p>}
+      {error && <p className="error-message">{error}</p>}
+    </div>
+  );
+};
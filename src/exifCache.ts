@@ -0,0 +1,196 @@
+// src/exifCache.ts
+import type { PhotoData } from './stats';
+
+/*
+ * Persistent EXIF cache in IndexedDB. Parsed PhotoData is stored per file, keyed by
+ * relative path + size + lastModified, so reopening a folder only parses new or
+ * changed files. Entries are grouped by the root folder name they were scanned from;
+ * committing a scan drops the entries of that root that were not seen again.
+ * Each record also stores the PARSE_VERSION it was parsed with; records from another
+ * version count as misses, so files are parsed again when new fields are extracted.
+ */
+
+const DB_NAME = 'photo-exif-stats';
+const DB_VERSION = 1;
+const STORE_NAME = 'exif';
+
+// Version of the parsed PhotoData; bump it in every change that extracts new or different fields
+//   1: focal plane resolution, pixel size, exposure, flash, white balance, serials, software and GPS
+//   2: content hash for duplicate detection
+//   3: video metadata and the EXIF of the JPEG embedded in RAF files
+const PARSE_VERSION = 3;
+
+// A cached photo record
+export interface CachedPhoto {
+  key: string;
+  root: string;
+  path: string;
+  photo: PhotoData;
+  cachedAt: number;
+  // Missing in records written before parse versions existed
+  parseVersion?: number;
+}
+
+// Number of cached photos per root folder
+export interface CacheSummary {
+  root: string;
+  count: number;
+}
+
+// State of a single folder scan against the cache
+export interface CacheSession {
+  root: string;
+  cached: Map<string, PhotoData>;
+  // Keys of records parsed by another version, which are dropped or replaced on commit
+  outdated: string[];
+  fresh: CachedPhoto[];
+  seen: Set<string>;
+  hits: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Open (and create or upgrade) the cache database once per page load
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('root', 'root', { unique: false });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Wrap an IDBRequest in a promise
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolve once a transaction has committed
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Build the cache key of a file
+export const makeCacheKey = (relativePath: string, size: number, lastModified: number): string =>
+  `${relativePath}|${size}|${lastModified}`;
+
+// Start a scan of a root folder by loading its cached entries
+export const openCacheSession = async (root: string): Promise<CacheSession> => {
+  const session: CacheSession = { root, cached: new Map(), outdated: [], fresh: [], seen: new Set(), hits: 0 };
+  try {
+    const db = await openDb();
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const records = await requestToPromise<CachedPhoto[]>(tx.objectStore(STORE_NAME).index('root').getAll(root));
+    records.forEach(record => {
+      if (record.parseVersion === PARSE_VERSION) {
+        session.cached.set(record.key, record.photo);
+      } else {
+        session.outdated.push(record.key);
+      }
+    });
+  } catch (e) {
+    // The app still works without the cache (e.g. in private browsing)
+    console.warn('無法讀取 EXIF 快取', e);
+  }
+  return session;
+};
+
+// Look up a file in the cache, marking it as still present
+export const lookupCachedPhoto = (session: CacheSession, relativePath: string, file: File): PhotoData | undefined => {
+  const key = makeCacheKey(relativePath, file.size, file.lastModified);
+  session.seen.add(key);
+  const photo = session.cached.get(key);
+  if (photo) {
+    session.hits++;
+  }
+  return photo;
+};
+
+// Remember a freshly parsed file so it is written when the session is committed
+export const rememberPhoto = (session: CacheSession, relativePath: string, file: File, photo: PhotoData) => {
+  const key = makeCacheKey(relativePath, file.size, file.lastModified);
+  session.seen.add(key);
+  session.fresh.push({ key, root: session.root, path: relativePath, photo, cachedAt: Date.now(), parseVersion: PARSE_VERSION });
+};
+
+// Write new entries and, unless the scan was incomplete, drop entries of deleted or changed files
+export const commitCacheSession = async (session: CacheSession, { prune = true } = {}): Promise<void> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    session.fresh.forEach(record => store.put(record));
+    // Outdated records of files seen again were just replaced by their fresh parse
+    [...session.cached.keys(), ...session.outdated].forEach(key => {
+      if (prune && !session.seen.has(key)) {
+        store.delete(key);
+      }
+    });
+    await transactionDone(tx);
+  } catch (e) {
+    console.warn('無法寫入 EXIF 快取', e);
+  }
+};
+
+// Count cached photos per root folder
+export const getCacheSummary = async (): Promise<CacheSummary[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const index = tx.objectStore(STORE_NAME).index('root');
+  const counts: Promise<CacheSummary>[] = [];
+  // Walk the distinct roots with a key cursor so the photo records themselves are not loaded
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = index.openKeyCursor(null, 'nextunique');
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        const root = cursor.key as string;
+        counts.push(requestToPromise(index.count(root)).then(count => ({ root, count })));
+        cursor.continue();
+      } else {
+        resolve();
+      }
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+  return Promise.all(counts);
+};
+
+// Clear the whole cache, or only the entries of one root folder
+export const clearCache = async (root?: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  if (root === undefined) {
+    store.clear();
+  } else {
+    const cursorRequest = store.index('root').openCursor(root);
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+  }
+  await transactionDone(tx);
+};
@@ -0,0 +1,34 @@
+// src/focalRangePresets.ts
+import type { FocalRangePreset } from './stats';
+
+/*
+ * Focal range presets saved by the user, kept in localStorage so they are there in every session
+ * of this browser. The built-in presets live in the statistics engine (FOCAL_RANGE_PRESETS).
+ */
+
+const STORAGE_KEY = 'photo-exif-stats:focal-range-presets';
+
+const isPreset = (value: unknown): value is FocalRangePreset => {
+  if (!value || typeof value !== 'object') return false;
+  const { id, name, ranges } = value as Record<string, unknown>;
+  return typeof id === 'string' && typeof name === 'string' && typeof ranges === 'string';
+};
+
+// Saved presets; unreadable storage counts as none
+export const loadFocalRangePresets = (): FocalRangePreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isPreset) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveFocalRangePresets = (presets: FocalRangePreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (e) {
+    // Private browsing or a full quota: the presets stay for this session only
+    console.warn('無法儲存焦段組合:', e);
+  }
+};
@@ -0,0 +1,35 @@
+// src/localFiles.ts
+// Reading the original files of local photos through the directory handles they were scanned from
+import exifr from 'exifr';
+import type { PhotoData } from './stats';
+
+// Directory handles by root folder name, the first segment of a local photo's folderPath
+export type DirectoryHandles = Map<string, FileSystemDirectoryHandle>;
+
+// The file of a local photo, or undefined when its folder was not opened with the directory picker
+// or the file has since been moved or deleted
+export const getLocalPhotoFile = async (handles: DirectoryHandles, photo: PhotoData): Promise<File | undefined> => {
+  if (photo.source !== 'local') return undefined;
+  const [root, ...folders] = photo.folderPath.split('/');
+  let directory = handles.get(root);
+  if (!directory) return undefined;
+  try {
+    for (const folder of folders) {
+      directory = await directory.getDirectoryHandle(folder);
+    }
+    const fileHandle = await directory.getFileHandle(photo.filename);
+    return await fileHandle.getFile();
+  } catch (e) {
+    console.warn(`無法開啟 ${photo.folderPath}/${photo.filename}`, e);
+    return undefined;
+  }
+};
+
+// Object URL of the thumbnail embedded in the EXIF; the caller revokes it
+export const getThumbnailUrl = async (file: File): Promise<string | undefined> => {
+  try {
+    return await exifr.thumbnailUrl(file);
+  } catch {
+    return undefined;
+  }
+};
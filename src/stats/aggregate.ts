@@ -0,0 +1,242 @@
+// src/stats/aggregate.ts
+import type { CropFactorMap, LensFactorRule } from '../cameraData';
+import type { ExifCategoryField, FocalLengthMode, GroupByField, PhotoData } from './types';
+import { getEquivalentFocalLength } from './focalLength';
+import { DEFAULT_FOCAL_LENGTH_RANGES, parseFocalLengthRanges } from './focalRanges';
+import { bucketExposureValues, isExposureField, type ApertureScale, type ExposureBucketMode } from './exposure';
+import { bucketByTime, formatTimeBucket, type TimeGranularity } from './timeline';
+import { RAW_NAMES, type NameNormalizer } from './names';
+import { getPhotoPosition, isInSelection, type GeoSelection } from './geo';
+import { getExifCategory, getExifFilterValue, isExifCategoryField, sortExifCategoryLabels } from './fields';
+import type { PhotoQuery } from './query';
+
+// Folder, model, lens and capture date filters; an omitted value means "no restriction"
+export interface PhotoFilters {
+  folders?: string[];
+  models?: string[];
+  lenses?: string[];
+  // Inclusive capture date bounds as "YYYY-MM-DD"
+  dateFrom?: string;
+  dateTo?: string;
+  // Accepted values per EXIF field, NOT_RECORDED standing for photos without the field
+  fields?: Partial<Record<ExifCategoryField, string[]>>;
+  // Map area; photos without a position never match
+  area?: GeoSelection;
+  // Compiled filter expression (see query.ts)
+  query?: PhotoQuery;
+}
+
+// Options controlling how photos are grouped and bucketed
+export interface AggregateOptions {
+  groupBy: GroupByField;
+  cropFactors: CropFactorMap;
+  // Per-lens crop factor rules, checked before the body's crop factor
+  lensFactorRules?: LensFactorRule[];
+  // Camera and lens names used for the Model and LensModel charts; EXIF values by default
+  names?: NameNormalizer;
+  focalLengthMode?: FocalLengthMode;
+  // Range definitions (see focalRanges.ts); text that does not parse throws a FocalRangeError
+  focalLengthRanges?: string;
+  exposureMode?: ExposureBucketMode;
+  apertureScale?: ApertureScale;
+  timeGranularity?: TimeGranularity;
+}
+
+// Aggregated counts in display order
+export interface AggregateResult {
+  labels: string[];
+  counts: number[];
+  // Number of photos that fell into a bucket
+  total: number;
+  // Labels worth highlighting in continuous (histogram) modes
+  topLabels: string[];
+}
+
+// Apply the folder, model and lens filters shared by every chart; models and lenses are compared by name
+export const filterPhotos = (photos: PhotoData[], filters: PhotoFilters, names: NameNormalizer = RAW_NAMES): PhotoData[] => {
+  return photos.filter(photo => {
+    const folderMatch = !filters.folders || filters.folders.includes(photo.folderPath);
+    // Photos without a camera or lens only pass when "Unknown camera"/"Unknown lens" is selected
+    const modelMatch = !filters.models || filters.models.includes(names.model(photo));
+    const lensMatch = !filters.lenses || filters.lenses.includes(names.lens(photo));
+    if (!folderMatch || !modelMatch || !lensMatch) return false;
+    const fieldsMatch = Object.entries(filters.fields ?? {}).every(([field, values]) =>
+      !values || values.includes(getExifFilterValue(photo, field as ExifCategoryField, names)));
+    if (!fieldsMatch) return false;
+    if (filters.query && !filters.query(photo, names)) return false;
+    if (filters.area) {
+      const position = getPhotoPosition(photo);
+      if (!position || !isInSelection(position, filters.area)) return false;
+    }
+    if (!filters.dateFrom && !filters.dateTo) return true;
+    // Photos without a capture time never match a date range
+    const date = photo.exif.DateTimeOriginal;
+    if (!date) return false;
+    const day = formatTimeBucket(date, 'day');
+    return (!filters.dateFrom || day >= filters.dateFrom) && (!filters.dateTo || day <= filters.dateTo);
+  });
+};
+
+// Pick the three largest buckets
+const getTopLabels = (counts: { [key: string]: number }, labels: string[]) =>
+  [...labels].sort((a, b) => counts[b] - counts[a]).slice(0, 3);
+
+// Count photos by the chosen dimension; returns null when nothing can be charted
+export const aggregatePhotos = (photos: PhotoData[], options: AggregateOptions): AggregateResult | null => {
+  const {
+    groupBy,
+    cropFactors,
+    lensFactorRules = [],
+    names = RAW_NAMES,
+    focalLengthMode = 'range',
+    focalLengthRanges = DEFAULT_FOCAL_LENGTH_RANGES,
+    exposureMode = 'preset',
+    apertureScale = 'full',
+    timeGranularity = 'month',
+  } = options;
+  const counts: { [key: string]: number } = {};
+  let labels: string[] = [];
+  let topLabels: string[] = [];
+
+  // Handle grouping by focal length with different modes
+  if (groupBy === 'FocalLength') {
+    if (focalLengthMode === 'range') {
+      const parsedRanges = parseFocalLengthRanges(focalLengthRanges);
+      const otherRule = parsedRanges.find(r => r.type === 'other');
+      const regularRules = parsedRanges.filter(r => r.type !== 'other');
+
+      labels = parsedRanges.map(r => r.label);
+      labels.forEach(l => counts[l] = 0);
+
+      photos.forEach(photo => {
+        const focalLength = getEquivalentFocalLength(photo, cropFactors, lensFactorRules);
+        if (typeof focalLength === 'number') {
+          const foundRule = regularRules.find(rule => rule.test(focalLength));
+          if (foundRule) {
+            counts[foundRule.label]++;
+          } else if (otherRule) {
+            counts[otherRule.label]++;
+          }
+        }
+      });
+      // Remove "Other" label if it has zero count
+      if (otherRule && counts[otherRule.label] === 0) {
+        delete counts[otherRule.label];
+        labels = labels.filter(l => l !== otherRule.label);
+      }
+    } else {
+      // Continuous mode: count each focal length individually
+      const focalLengths = photos
+        .map(photo => getEquivalentFocalLength(photo, cropFactors, lensFactorRules))
+        .filter(fl => typeof fl === 'number') as number[];
+      if (focalLengths.length === 0) {
+        return null;
+      }
+      const minFl = Math.round(Math.min(...focalLengths));
+      const maxFl = Math.round(Math.max(...focalLengths));
+
+      for (let i = minFl; i <= maxFl; i++) {
+        counts[i.toString()] = 0;
+      }
+      focalLengths.forEach(fl => {
+        counts[Math.round(fl).toString()]++;
+      });
+      labels = Object.keys(counts);
+      topLabels = getTopLabels(counts, labels);
+    }
+  } else if (isExposureField(groupBy)) {
+    // Aperture, shutter speed and ISO share the same bucketing logic
+    const values = photos.map(photo => photo.exif[groupBy]).filter(v => typeof v === 'number') as number[];
+    const bucketed = bucketExposureValues(values, groupBy, exposureMode, apertureScale);
+    if (bucketed.labels.length === 0) {
+      return null;
+    }
+    Object.assign(counts, bucketed.counts);
+    labels = bucketed.labels;
+    if (exposureMode === 'continuous') {
+      topLabels = getTopLabels(counts, labels);
+    }
+  } else if (groupBy === 'DateTimeOriginal') {
+    const dates = photos.map(photo => photo.exif.DateTimeOriginal).filter(Boolean) as Date[];
+    if (dates.length === 0) {
+      return null;
+    }
+    const bucketed = bucketByTime(dates, timeGranularity);
+    Object.assign(counts, bucketed.counts);
+    labels = bucketed.labels;
+  } else if (isExifCategoryField(groupBy)) {
+    photos.forEach(photo => {
+      const key = getExifCategory(photo, groupBy, names);
+      if (key !== undefined) counts[key] = (counts[key] || 0) + 1;
+    });
+    labels = sortExifCategoryLabels(groupBy, counts);
+    if (labels.length === 0) {
+      return null;
+    }
+  } else {
+    photos.forEach(photo => {
+      const key = groupBy === 'Model' ? names.model(photo) : names.lens(photo);
+      counts[key] = (counts[key] || 0) + 1;
+    });
+    labels = Object.keys(counts).sort((a, b) => counts[b] - counts[a]);
+  }
+
+  const data = labels.map(label => counts[label]);
+  return {
+    labels,
+    counts: data,
+    total: data.reduce((sum, n) => sum + n, 0),
+    topLabels,
+  };
+};
+
+// Build a function that returns the bucket label of a single photo, matching aggregatePhotos;
+// undefined means the photo has no value for the dimension
+export const createPhotoBucketer = (options: AggregateOptions): ((photo: PhotoData) => string | undefined) => {
+  const {
+    groupBy,
+    cropFactors,
+    lensFactorRules = [],
+    names = RAW_NAMES,
+    focalLengthMode = 'range',
+    focalLengthRanges = DEFAULT_FOCAL_LENGTH_RANGES,
+    exposureMode = 'preset',
+    apertureScale = 'full',
+    timeGranularity = 'month',
+  } = options;
+
+  if (groupBy === 'FocalLength') {
+    if (focalLengthMode === 'range') {
+      const parsedRanges = parseFocalLengthRanges(focalLengthRanges);
+      const otherRule = parsedRanges.find(r => r.type === 'other');
+      const regularRules = parsedRanges.filter(r => r.type !== 'other');
+      return photo => {
+        const focalLength = getEquivalentFocalLength(photo, cropFactors, lensFactorRules);
+        if (typeof focalLength !== 'number') return undefined;
+        return regularRules.find(rule => rule.test(focalLength))?.label ?? otherRule?.label;
+      };
+    }
+    return photo => {
+      const focalLength = getEquivalentFocalLength(photo, cropFactors, lensFactorRules);
+      return typeof focalLength === 'number' ? Math.round(focalLength).toString() : undefined;
+    };
+  }
+  if (isExposureField(groupBy)) {
+    return photo => {
+      const value = photo.exif[groupBy];
+      if (typeof value !== 'number') return undefined;
+      // Bucketing a single value yields exactly its own stop or value label
+      return bucketExposureValues([value], groupBy, exposureMode, apertureScale).labels[0];
+    };
+  }
+  if (groupBy === 'DateTimeOriginal') {
+    return photo => {
+      const date = photo.exif.DateTimeOriginal;
+      return date ? formatTimeBucket(date, timeGranularity) : undefined;
+    };
+  }
+  if (isExifCategoryField(groupBy)) {
+    return photo => getExifCategory(photo, groupBy, names);
+  }
+  return groupBy === 'Model' ? names.model : names.lens;
+};
@@ -0,0 +1,118 @@
+// src/stats/compare.ts
+import type { PhotoData } from './types';
+import { aggregatePhotos, filterPhotos, type AggregateOptions, type PhotoFilters } from './aggregate';
+import { formatCsv } from './report';
+
+// A named subset of photos to compare against the others
+export interface Cohort {
+  name: string;
+  filters: PhotoFilters;
+}
+
+export type CohortKind = 'folder' | 'date' | 'model' | 'lens';
+
+// A cohort as edited in the app: one dimension with its selected values or date range
+export interface CohortDefinition {
+  id: number;
+  name: string;
+  kind: CohortKind;
+  values: string[];
+  dateFrom: string;
+  dateTo: string;
+}
+
+// Convert a cohort definition to filters
+export const toCohort = (definition: CohortDefinition): Cohort => {
+  switch (definition.kind) {
+    case 'folder':
+      return { name: definition.name, filters: { folders: definition.values } };
+    case 'model':
+      return { name: definition.name, filters: { models: definition.values } };
+    case 'lens':
+      return { name: definition.name, filters: { lenses: definition.values } };
+    case 'date':
+      return {
+        name: definition.name,
+        filters: { dateFrom: definition.dateFrom || undefined, dateTo: definition.dateTo || undefined },
+      };
+  }
+};
+
+// Create an empty cohort definition with a default name
+export const createCohortDefinition = (id: number): CohortDefinition => ({
+  id,
+  name: `組別 ${id}`,
+  kind: 'folder',
+  values: [],
+  dateFrom: '',
+  dateTo: '',
+});
+
+// Counts of one cohort, aligned with ComparisonResult.labels
+export interface CohortSeries {
+  name: string;
+  counts: number[];
+  // Share of the cohort's photos in each bucket, in percent
+  percentages: number[];
+  total: number;
+}
+
+// Buckets shared by every cohort
+export interface ComparisonResult {
+  labels: string[];
+  series: CohortSeries[];
+}
+
+// One row of a comparison export: the bucket label, then count and percentage per cohort
+export type ComparisonRow = { label: string } & { [column: string]: string | number };
+
+// Aggregate every cohort on the same buckets; returns null when nothing can be charted
+export const compareCohorts = (
+  photos: PhotoData[],
+  cohorts: Cohort[],
+  options: AggregateOptions
+): ComparisonResult | null => {
+  const cohortPhotos = cohorts.map(cohort => filterPhotos(photos, cohort.filters, options.names));
+  // Bucket the union first so every cohort shares the same labels (ranges, gaps and order)
+  const union = new Map<string, PhotoData>();
+  cohortPhotos.flat().forEach(photo => union.set(photo.id, photo));
+  const combined = aggregatePhotos(Array.from(union.values()), options);
+  if (!combined) {
+    return null;
+  }
+
+  const series = cohorts.map((cohort, i): CohortSeries => {
+    const result = aggregatePhotos(cohortPhotos[i], options);
+    const countByLabel = new Map<string, number>();
+    result?.labels.forEach((label, j) => countByLabel.set(label, result.counts[j]));
+    const counts = combined.labels.map(label => countByLabel.get(label) || 0);
+    const total = counts.reduce((sum, n) => sum + n, 0);
+    return {
+      name: cohort.name,
+      counts,
+      percentages: counts.map(n => (total > 0 ? Math.round((n / total) * 1000) / 10 : 0)),
+      total,
+    };
+  });
+  return { labels: combined.labels, series };
+};
+
+// Flatten a comparison into rows with "<cohort> count" and "<cohort> %" columns
+export const toComparisonRows = (result: ComparisonResult): ComparisonRow[] =>
+  result.labels.map((label, i) => {
+    const row: ComparisonRow = { label };
+    result.series.forEach(series => {
+      row[`${series.name} count`] = series.counts[i];
+      row[`${series.name} %`] = series.percentages[i];
+    });
+    return row;
+  });
+
+// Format a comparison as CSV with a header line
+export const formatComparisonCsv = (result: ComparisonResult): string => {
+  const columns = ['label', ...result.series.flatMap(series => [`${series.name} count`, `${series.name} %`])];
+  return formatCsv(columns, toComparisonRows(result));
+};
+
+// Format a comparison as JSON
+export const formatComparisonJson = (result: ComparisonResult): string => JSON.stringify(result, null, 2) + '\n';
@@ -0,0 +1,117 @@
+// src/stats/cropInference.ts
+// Infer each camera model's crop factor from the EXIF of its own photos.
+import type { CropFactorMap } from '../cameraData';
+import type { ExifData, PhotoData } from './types';
+
+// Diagonal of a 36 × 24 mm frame
+const FULL_FRAME_DIAGONAL = Math.hypot(36, 24);
+
+// Common crop factors; an inferred value this close to one of them is reported as that value
+const KNOWN_CROP_FACTORS = [0.64, 0.79, 1, 1.3, 1.5, 1.6, 2, 2.7, 3.9, 5.6];
+const SNAP_TOLERANCE = 0.03;
+
+// Relative difference between an entered and an inferred factor that is worth a warning
+export const CROP_FACTOR_MISMATCH_TOLERANCE = 0.05;
+
+// How an inferred crop factor was obtained
+export type CropInferenceMethod = 'focal-35mm' | 'focal-plane';
+
+export type CropInferenceConfidence = 'high' | 'medium' | 'low';
+
+export interface CropFactorInference {
+  model: string;
+  factor: number;
+  method: CropInferenceMethod;
+  confidence: CropInferenceConfidence;
+  // Photos that yielded a value
+  samples: number;
+  // Median relative deviation of the samples from the factor
+  spread: number;
+}
+
+// FocalLengthIn35mmFormat divided by FocalLength. The 35mm value is a whole number, so values below
+// 20 mm (off by up to 2.5% from rounding alone) are skipped.
+const ratioFrom35mm = (exif: ExifData): number | undefined => {
+  const { FocalLength, FocalLengthIn35mmFormat } = exif;
+  if (typeof FocalLength !== 'number' || typeof FocalLengthIn35mmFormat !== 'number') return undefined;
+  if (FocalLength <= 0 || FocalLengthIn35mmFormat < 20) return undefined;
+  return FocalLengthIn35mmFormat / FocalLength;
+};
+
+// Sensor diagonal from the image size and the focal plane resolution, compared with full frame.
+// Only meaningful for unscaled images, which is why it is used after the 35mm ratio.
+const ratioFromFocalPlane = (exif: ExifData): number | undefined => {
+  const {
+    ExifImageWidth, ExifImageHeight, FocalPlaneXResolution, FocalPlaneYResolution, FocalPlaneResolutionUnit,
+  } = exif;
+  if (!ExifImageWidth || !ExifImageHeight || !FocalPlaneXResolution || !FocalPlaneResolutionUnit) return undefined;
+  const width = ExifImageWidth / FocalPlaneXResolution * FocalPlaneResolutionUnit;
+  const height = ExifImageHeight / (FocalPlaneYResolution || FocalPlaneXResolution) * FocalPlaneResolutionUnit;
+  const diagonal = Math.hypot(width, height);
+  // Anything outside phone to medium format sensors is a mis-tagged file
+  return diagonal >= 4 && diagonal <= 90 ? FULL_FRAME_DIAGONAL / diagonal : undefined;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const snapFactor = (value: number): number => {
+  const known = KNOWN_CROP_FACTORS.find(factor => Math.abs(value - factor) / factor <= SNAP_TOLERANCE);
+  return known ?? Math.round(value * 100) / 100;
+};
+
+// More agreeing samples mean more confidence; focal plane values never count as high
+const rateConfidence = (method: CropInferenceMethod, samples: number, spread: number): CropInferenceConfidence => {
+  if (method === 'focal-35mm' && samples >= 5 && spread <= 0.03) return 'high';
+  if (samples >= 2 && spread <= 0.08) return 'medium';
+  return 'low';
+};
+
+const inferFromRatios = (model: string, method: CropInferenceMethod, ratios: number[]): CropFactorInference => {
+  const value = median(ratios);
+  const spread = median(ratios.map(ratio => Math.abs(ratio - value) / value));
+  return {
+    model,
+    factor: snapFactor(value),
+    method,
+    confidence: rateConfidence(method, ratios.length, spread),
+    samples: ratios.length,
+    spread,
+  };
+};
+
+// Infer a crop factor per camera model, preferring the 35mm focal length ratio over the focal plane size
+export const inferCropFactors = (photos: PhotoData[]): Map<string, CropFactorInference> => {
+  const byModel = new Map<string, { focal35mm: number[]; focalPlane: number[] }>();
+  photos.forEach(({ exif }) => {
+    if (!exif.Model) return;
+    const ratios = byModel.get(exif.Model) ?? { focal35mm: [], focalPlane: [] };
+    const from35mm = ratioFrom35mm(exif);
+    if (from35mm !== undefined) ratios.focal35mm.push(from35mm);
+    const fromFocalPlane = ratioFromFocalPlane(exif);
+    if (fromFocalPlane !== undefined) ratios.focalPlane.push(fromFocalPlane);
+    byModel.set(exif.Model, ratios);
+  });
+
+  const inferences = new Map<string, CropFactorInference>();
+  byModel.forEach((ratios, model) => {
+    if (ratios.focal35mm.length > 0) {
+      inferences.set(model, inferFromRatios(model, 'focal-35mm', ratios.focal35mm));
+    } else if (ratios.focalPlane.length > 0) {
+      inferences.set(model, inferFromRatios(model, 'focal-plane', ratios.focalPlane));
+    }
+  });
+  return inferences;
+};
+
+// Inferred factors as a crop factor map, for models without an entered factor
+export const toInferredCropFactors = (inferences: Map<string, CropFactorInference>): CropFactorMap =>
+  Object.fromEntries(Array.from(inferences.values()).map(inference => [inference.model, inference.factor]));
+
+// True when an entered factor disagrees with a trustworthy inferred one
+export const isCropFactorMismatch = (entered: number | undefined, inference: CropFactorInference | undefined): boolean =>
+  typeof entered === 'number' && !!inference && inference.confidence !== 'low'
+    && Math.abs(entered - inference.factor) / inference.factor > CROP_FACTOR_MISMATCH_TOLERANCE;
@@ -0,0 +1,100 @@
+// src/stats/crosstab.ts
+import type { GroupByField, PhotoData } from './types';
+import { aggregatePhotos, createPhotoBucketer, type AggregateOptions } from './aggregate';
+import { escapeCsvField } from './report';
+
+// Column for photos that have no value for the breakdown dimension
+export const MISSING_BREAKDOWN_LABEL = 'Unknown';
+
+// Counts by two dimensions: rows follow the grouping, columns the breakdown
+export interface CrossTabResult {
+  rowLabels: string[];
+  columnLabels: string[];
+  // counts[row][column]
+  counts: number[][];
+  rowTotals: number[];
+  columnTotals: number[];
+  total: number;
+}
+
+// Count photos by the grouping dimension broken down by a second one; returns null when nothing can be charted.
+// Both dimensions use the same bucketing options (focal ranges, exposure mode, time granularity).
+export const crossTabulate = (
+  photos: PhotoData[],
+  options: AggregateOptions,
+  breakdownBy: GroupByField
+): CrossTabResult | null => {
+  const rows = aggregatePhotos(photos, options);
+  if (!rows) {
+    return null;
+  }
+  const breakdownOptions = { ...options, groupBy: breakdownBy };
+  const columnLabels = aggregatePhotos(photos, breakdownOptions)?.labels ?? [];
+
+  const getRow = createPhotoBucketer(options);
+  const getColumn = createPhotoBucketer(breakdownOptions);
+  const rowIndex = new Map(rows.labels.map((label, i) => [label, i]));
+  const columnIndex = new Map(columnLabels.map((label, i) => [label, i]));
+  const counts = rows.labels.map(() => columnLabels.map(() => 0));
+  let missingCounts: number[] | null = null;
+
+  photos.forEach(photo => {
+    const row = rowIndex.get(getRow(photo) ?? '');
+    if (row === undefined) return;
+    const columnLabel = getColumn(photo);
+    const column = columnLabel === undefined ? undefined : columnIndex.get(columnLabel);
+    if (column !== undefined) {
+      counts[row][column]++;
+    } else {
+      // Keep photos without a breakdown value so row totals match the single-dimension chart
+      missingCounts ??= rows.labels.map(() => 0);
+      missingCounts[row]++;
+    }
+  });
+
+  if (missingCounts) {
+    const missing: number[] = missingCounts;
+    columnLabels.push(MISSING_BREAKDOWN_LABEL);
+    counts.forEach((rowCounts, row) => rowCounts.push(missing[row]));
+  }
+
+  const rowTotals = counts.map(rowCounts => rowCounts.reduce((sum, n) => sum + n, 0));
+  const columnTotals = columnLabels.map((_, column) => counts.reduce((sum, rowCounts) => sum + rowCounts[column], 0));
+  return {
+    rowLabels: rows.labels,
+    columnLabels,
+    counts,
+    rowTotals,
+    columnTotals,
+    total: rowTotals.reduce((sum, n) => sum + n, 0),
+  };
+};
+
+// Format a cross-tabulation as a CSV pivot table with a Total column and row
+export const formatCrossTabCsv = (result: CrossTabResult): string => {
+  const lines = [['', ...result.columnLabels, 'Total'].map(escapeCsvField).join(',')];
+  result.rowLabels.forEach((label, row) => {
+    lines.push([label, ...result.counts[row], result.rowTotals[row]].map(escapeCsvField).join(','));
+  });
+  lines.push(['Total', ...result.columnTotals, result.total].map(escapeCsvField).join(','));
+  return lines.join('\n') + '\n';
+};
+
+// Format a cross-tabulation as JSON
+export const formatCrossTabJson = (result: CrossTabResult): string => JSON.stringify(result, null, 2) + '\n';
+
+// Format a cross-tabulation as a plain-text pivot table with totals
+export const formatCrossTabTable = (result: CrossTabResult): string => {
+  const header = ['', ...result.columnLabels, 'Total'];
+  const body = result.rowLabels.map((label, row) =>
+    [label, ...result.counts[row].map(String), result.rowTotals[row].toString()]
+  );
+  const footer = ['Total', ...result.columnTotals.map(String), result.total.toString()];
+  const widths = header.map((h, col) =>
+    Math.max(h.length, footer[col].length, ...body.map(cells => cells[col].length))
+  );
+  const formatLine = (cells: string[]) =>
+    cells.map((cell, col) => (col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col]))).join('  ');
+  const separator = widths.map(w => '-'.repeat(w)).join('  ');
+  return [formatLine(header), separator, ...body.map(formatLine), separator, formatLine(footer)].join('\n') + '\n';
+};
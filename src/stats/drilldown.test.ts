@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { selectBarPhotos, sortPhotos } from './drilldown';
+import { crossTabulate } from './crosstab';
+import type { AggregateOptions } from './aggregate';
+import type { ExifData, PhotoData } from './types';
+
+const photo = (filename: string, exif: ExifData, folderPath = 'Trips'): PhotoData => ({
+  id: `${folderPath}/${filename}`,
+  source: 'local',
+  filename,
+  exif,
+  folderPath,
+});
+
+const library = [
+  photo('IMG_10.JPG', { Model: 'A', LensModel: 'L1', FocalLength: 50, FNumber: 2.8, ISOSpeedRatings: 100, DateTimeOriginal: new Date(2024, 0, 3) }),
+  photo('IMG_2.JPG', { Model: 'A', LensModel: 'L2', FocalLength: 24, FNumber: 4, ISOSpeedRatings: 3200, DateTimeOriginal: new Date(2024, 0, 1) }),
+  photo('IMG_3.JPG', { Model: 'B', FocalLength: 35, ISOSpeedRatings: 800 }, 'Drafts'),
+  photo('scan.jpg', { FNumber: 8 }, 'Drafts'),
+  photo('IMG_1.JPG', { Model: 'A', LensModel: 'L1', FocalLength: 85, DateTimeOriginal: new Date(2024, 0, 2) }, 'Drafts'),
+];
+
+const options: AggregateOptions = { groupBy: 'Model', cropFactors: { A: 1.5 } };
+
+const filenamesOf = (photos: PhotoData[]) => photos.map(p => p.filename);
+
+describe('selectBarPhotos', () => {
+  it('selects the photos in a bar', () => {
+    expect(filenamesOf(selectBarPhotos(library, options, { label: 'A' }))).toEqual(['IMG_10.JPG', 'IMG_2.JPG', 'IMG_1.JPG']);
+    expect(selectBarPhotos(library, options, { label: 'C' })).toEqual([]);
+  });
+
+  it('selects the photos of a breakdown column', () => {
+    const bar = { label: 'A', breakdownBy: 'LensModel' as const, breakdownLabel: 'L1' };
+    expect(filenamesOf(selectBarPhotos(library, options, bar))).toEqual(['IMG_10.JPG', 'IMG_1.JPG']);
+  });
+
+  it('agrees with the cross-tabulation for every cell, including the missing column', () => {
+    const table = crossTabulate(library, options, 'FNumber');
+    expect(table?.columnLabels).toContain('Unknown');
+    table?.rowLabels.forEach((label, row) => {
+      table.columnLabels.forEach((breakdownLabel, column) => {
+        const photos = selectBarPhotos(library, options, { label, breakdownBy: 'FNumber', breakdownLabel });
+        expect(photos).toHaveLength(table.counts[row][column]);
+      });
+    });
+  });
+
+  it('keeps to the cohort of the clicked dataset', () => {
+    const cohort = { name: 'Trips', filters: { folders: ['Trips'] } };
+    expect(filenamesOf(selectBarPhotos(library, options, { label: 'A', cohort }))).toEqual(['IMG_10.JPG', 'IMG_2.JPG']);
+  });
+});
+
+describe('sortPhotos', () => {
+  const sort = (key: Parameters<typeof sortPhotos>[1], descending = false) =>
+    filenamesOf(sortPhotos(library, key, descending, options));
+
+  it('sorts names in natural order', () => {
+    expect(sort('filename')).toEqual(['IMG_1.JPG', 'IMG_2.JPG', 'IMG_3.JPG', 'IMG_10.JPG', 'scan.jpg']);
+    expect(sort('folder')).toEqual(['IMG_1.JPG', 'IMG_3.JPG', 'scan.jpg', 'IMG_2.JPG', 'IMG_10.JPG']);
+  });
+
+  it('puts photos without the value last in either direction', () => {
+    expect(sort('iso')).toEqual(['IMG_10.JPG', 'IMG_3.JPG', 'IMG_2.JPG', 'scan.jpg', 'IMG_1.JPG']);
+    expect(sort('iso', true)).toEqual(['IMG_2.JPG', 'IMG_3.JPG', 'IMG_10.JPG', 'scan.jpg', 'IMG_1.JPG']);
+    expect(sort('date', true)).toEqual(['IMG_10.JPG', 'IMG_1.JPG', 'IMG_2.JPG', 'IMG_3.JPG', 'scan.jpg']);
+  });
+
+  it('sorts focal lengths by their equivalent', () => {
+    expect(sort('focalLength')).toEqual(['IMG_3.JPG', 'IMG_2.JPG', 'IMG_10.JPG', 'IMG_1.JPG', 'scan.jpg']);
+  });
+
+  it('does not reorder the photos it was given', () => {
+    const before = [...library];
+    sortPhotos(library, 'iso', true, options);
+    expect(library).toEqual(before);
+  });
+});
@@ -0,0 +1,75 @@
+// src/stats/drilldown.ts
+// The photos behind a chart bar, and their sort orders for the drill-down list
+import type { GroupByField, PhotoData } from './types';
+import { aggregatePhotos, createPhotoBucketer, filterPhotos, type AggregateOptions } from './aggregate';
+import { MISSING_BREAKDOWN_LABEL } from './crosstab';
+import type { Cohort } from './compare';
+import { getEquivalentFocalLength } from './focalLength';
+
+// A clicked bar: its label, plus the breakdown column or the cohort of its dataset
+export interface BarSelection {
+  label: string;
+  breakdownBy?: GroupByField;
+  breakdownLabel?: string;
+  cohort?: Cohort;
+}
+
+// Photos counted in a bar, using the same bucketing as the chart
+export const selectBarPhotos = (photos: PhotoData[], options: AggregateOptions, bar: BarSelection): PhotoData[] => {
+  const candidates = bar.cohort ? filterPhotos(photos, bar.cohort.filters, options.names) : photos;
+  const getLabel = createPhotoBucketer(options);
+  let matchesColumn: (photo: PhotoData) => boolean = () => true;
+  if (bar.breakdownBy) {
+    const breakdownOptions = { ...options, groupBy: bar.breakdownBy };
+    const getColumn = createPhotoBucketer(breakdownOptions);
+    if (bar.breakdownLabel === MISSING_BREAKDOWN_LABEL) {
+      // The missing column also holds values that did not make it into a column (see crossTabulate)
+      const columns = new Set(aggregatePhotos(candidates, breakdownOptions)?.labels ?? []);
+      matchesColumn = photo => {
+        const column = getColumn(photo);
+        return column === undefined || !columns.has(column);
+      };
+    } else {
+      matchesColumn = photo => getColumn(photo) === bar.breakdownLabel;
+    }
+  }
+  return candidates.filter(photo => getLabel(photo) === bar.label && matchesColumn(photo));
+};
+
+export type PhotoSortKey = 'date' | 'filename' | 'folder' | 'focalLength' | 'aperture' | 'shutter' | 'iso';
+
+export const PHOTO_SORT_KEYS: PhotoSortKey[] = ['date', 'filename', 'folder', 'focalLength', 'aperture', 'shutter', 'iso'];
+
+// Sort photos by a key; photos without the value always go last, whatever the direction.
+// Focal length sorts by the equivalent focal length, as charted.
+export const sortPhotos = (
+  photos: PhotoData[],
+  key: PhotoSortKey,
+  descending: boolean,
+  options: Pick<AggregateOptions, 'cropFactors' | 'lensFactorRules'>
+): PhotoData[] => {
+  const valueOf = (photo: PhotoData): number | string | undefined => {
+    switch (key) {
+      case 'date': return photo.exif.DateTimeOriginal?.getTime();
+      case 'filename': return photo.filename;
+      case 'folder': return `${photo.folderPath}/${photo.filename}`;
+      case 'focalLength': return getEquivalentFocalLength(photo, options.cropFactors, options.lensFactorRules);
+      case 'aperture': return photo.exif.FNumber;
+      case 'shutter': return photo.exif.ExposureTime;
+      case 'iso': return photo.exif.ISOSpeedRatings;
+    }
+  };
+  const sign = descending ? -1 : 1;
+  return photos
+    .map(photo => ({ photo, value: valueOf(photo) }))
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) {
+        return a.value === undefined ? (b.value === undefined ? 0 : 1) : -1;
+      }
+      const order = typeof a.value === 'string' || typeof b.value === 'string'
+        ? String(a.value).localeCompare(String(b.value), undefined, { numeric: true })
+        : a.value - b.value;
+      return sign * order;
+    })
+    .map(({ photo }) => photo);
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { getDuplicateKey, isRawFile, resolveDuplicates, toContentHash } from './duplicates';
+import type { ExifData, PhotoData } from './types';
+
+const SHOT = new Date(2024, 4, 1, 10, 12, 13);
+
+const photo = (id: string, filename: string, exif: ExifData = {}, contentHash?: string): PhotoData => ({
+  id,
+  source: 'local',
+  filename,
+  exif,
+  folderPath: id.split('/')[0],
+  contentHash,
+});
+
+const at = (seconds: number): ExifData => ({ DateTimeOriginal: new Date(SHOT.getTime() + seconds * 1000), Model: 'X-T5' });
+
+// A RAW+JPEG pair, a copy of its JPEG in another folder, single files and two undated files
+const library = [
+  photo('a/raw', 'DSCF0001.RAF', at(0)),
+  photo('a/jpg', 'DSCF0001.JPG', at(0)),
+  photo('b/jpg', 'dscf0001.jpg', at(0)),
+  photo('a/single', 'DSCF0002.JPG', at(1)),
+  photo('a/raw-only', 'DSCF0003.RAF', at(2)),
+  photo('c/undated-jpg', 'scan.jpg'),
+  photo('c/undated-raw', 'scan.dng'),
+];
+
+const idsOf = (photos: PhotoData[]) => photos.map(p => p.id);
+
+describe('resolveDuplicates', () => {
+  it('keeps the processed file of a RAW+JPEG pair by default', () => {
+    const summary = resolveDuplicates(library, 'frame');
+    expect(idsOf(summary.photos)).toEqual(['a/jpg', 'a/single', 'a/raw-only', 'c/undated-jpg', 'c/undated-raw']);
+    expect(summary).toMatchObject({ copies: 1, rawPairs: 1, hidden: 2 });
+  });
+
+  it('keeps the RAW file of a pair when preferred', () => {
+    const summary = resolveDuplicates(library, 'prefer-raw');
+    expect(idsOf(summary.photos)).toEqual(['a/raw', 'a/single', 'a/raw-only', 'c/undated-jpg', 'c/undated-raw']);
+    expect(summary).toMatchObject({ copies: 1, rawPairs: 1, hidden: 2 });
+  });
+
+  it('counts every file, while still reporting pairs and copies', () => {
+    const summary = resolveDuplicates(library, 'all');
+    expect(summary.photos).toBe(library);
+    expect(summary).toMatchObject({ copies: 1, rawPairs: 1, hidden: 0 });
+  });
+
+  it('does not pair files shot at different times or by different cameras', () => {
+    const photos = [
+      photo('a/raw', 'IMG_0001.CR3', at(0)),
+      photo('a/jpg', 'IMG_0001.JPG', at(1)),
+      photo('b/raw', 'IMG_0002.CR3', { ...at(5), Model: 'EOS R5' }),
+      photo('b/jpg', 'IMG_0002.JPG', { ...at(5), Model: 'EOS R6' }),
+    ];
+    expect(resolveDuplicates(photos, 'frame')).toMatchObject({ photos, rawPairs: 0, hidden: 0 });
+  });
+
+  it('detects copies by content, whatever their name', () => {
+    const photos = [
+      photo('a/1', 'DSC_0001.NEF', at(0), '100:aa'),
+      photo('b/1', 'renamed.nef', at(0), '100:aa'),
+      photo('a/2', 'DSC_0001.JPG', at(0), '40:bb'),
+      photo('c/2', 'DSC_0001.JPG', at(0), '41:cc'),
+    ];
+    const summary = resolveDuplicates(photos, 'prefer-raw');
+    expect(idsOf(summary.photos)).toEqual(['a/1']);
+    expect(summary).toMatchObject({ copies: 1, rawPairs: 1, hidden: 3 });
+  });
+
+  it('handles an empty library', () => {
+    expect(resolveDuplicates([], 'frame')).toEqual({ photos: [], copies: 0, rawPairs: 0, hidden: 0 });
+  });
+});
+
+describe('getDuplicateKey', () => {
+  it('prefers the content hash, then the name and capture, then the photo id', () => {
+    expect(getDuplicateKey(photo('a/1', 'A.JPG', at(0), '12:ff'))).toBe('content:12:ff');
+    expect(getDuplicateKey(photo('a/1', 'A.JPG', at(0)))).toBe(getDuplicateKey(photo('b/1', 'a.jpg', at(0))));
+    expect(getDuplicateKey(photo('a/1', 'A.JPG', at(0)))).not.toBe(getDuplicateKey(photo('a/1', 'A.JPG', at(1))));
+    expect(getDuplicateKey(photo('a/1', 'A.JPG'))).toBe('id:a/1');
+  });
+});
+
+describe('helpers', () => {
+  it('recognises RAW extensions in any case', () => {
+    expect(['a.CR3', 'b.nef', 'c.Dng', 'd.RAF'].every(isRawFile)).toBe(true);
+    expect(['a.jpg', 'b.heic', 'c.tif', 'raf.jpg', 'nef'].some(isRawFile)).toBe(false);
+  });
+
+  it('writes the content hash as size and hex digest', () => {
+    expect(toContentHash(1024, new Uint8Array([0, 15, 255]))).toBe('1024:000fff');
+    expect(toContentHash(0, new ArrayBuffer(0))).toBe('0:');
+  });
+});
@@ -0,0 +1,91 @@
+// src/stats/duplicates.ts
+// RAW+JPEG pairs and copies of the same file, and which of them count in the statistics
+import type { PhotoData } from './types';
+
+// Camera RAW formats; the other scanned formats (JPEG, HEIF, TIFF and so on) are processed files
+export const RAW_FILE_REGEX = /\.(3fr|arw|cr2|cr3|crw|dng|erf|iiq|kdc|mef|mos|mrw|nef|nrw|orf|pef|raf|raw|rw2|rwl|sr2|srf|srw|x3f)$/i;
+
+export const isRawFile = (filename: string): boolean => RAW_FILE_REGEX.test(filename);
+
+// Bytes hashed from the start of a file for its content key; the metadata and embedded preview
+// live there, so copies share them while different shots do not
+export const CONTENT_SAMPLE_SIZE = 64 * 1024;
+
+// Content key from the file size and the hex digest of its first CONTENT_SAMPLE_SIZE bytes
+export const toContentHash = (size: number, digest: ArrayBuffer | Uint8Array): string =>
+  `${size}:${Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')}`;
+
+// Which files count: one per frame preferring the processed file, one per frame preferring RAW, or every file
+export type DuplicatePolicy = 'frame' | 'prefer-raw' | 'all';
+
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = ['frame', 'prefer-raw', 'all'];
+
+const basename = (filename: string) => {
+  const dot = filename.lastIndexOf('.');
+  return (dot > 0 ? filename.slice(0, dot) : filename).toLowerCase();
+};
+
+// The same file wherever it was found: its content hash, or else its name and capture,
+// for photos parsed before content hashes existed or read from sources that do not provide them
+export const getDuplicateKey = (photo: PhotoData): string => {
+  if (photo.contentHash) return `content:${photo.contentHash}`;
+  const { DateTimeOriginal, Model } = photo.exif;
+  if (!DateTimeOriginal) return `id:${photo.id}`;
+  return `file:${photo.filename.toLowerCase()}|${DateTimeOriginal.getTime()}|${Model ?? ''}`;
+};
+
+// The frame a file belongs to: sidecar files share a basename and a capture time. Files without
+// a capture time are frames of their own.
+const getFrameKey = (photo: PhotoData): string => {
+  const { DateTimeOriginal, Model } = photo.exif;
+  if (!DateTimeOriginal) return getDuplicateKey(photo);
+  return `frame:${basename(photo.filename)}|${DateTimeOriginal.getTime()}|${Model ?? ''}`;
+};
+
+export interface DuplicateSummary {
+  // Photos that count under the policy, in their original order
+  photos: PhotoData[];
+  // Files loaded more than once (other folders, other sources), not counting the first copy
+  copies: number;
+  // Frames with both a RAW and a processed file
+  rawPairs: number;
+  // Files left out by the policy
+  hidden: number;
+}
+
+/*
+ * Apply a duplicate policy. Copies of one file are always collapsed except under 'all'; the first
+ * one loaded stays. Frames shot as RAW+JPEG then keep their processed file ('frame') or their RAW
+ * file ('prefer-raw').
+ */
+export const resolveDuplicates = (photos: PhotoData[], policy: DuplicatePolicy): DuplicateSummary => {
+  const seen = new Set<string>();
+  const unique = photos.filter(photo => {
+    const key = getDuplicateKey(photo);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const frames = new Map<string, PhotoData[]>();
+  unique.forEach(photo => {
+    const key = getFrameKey(photo);
+    frames.set(key, [...(frames.get(key) ?? []), photo]);
+  });
+  const kept = new Set<PhotoData>();
+  let rawPairs = 0;
+  frames.forEach(files => {
+    const raw = files.find(photo => isRawFile(photo.filename));
+    const processed = files.find(photo => !isRawFile(photo.filename));
+    if (raw && processed) rawPairs++;
+    kept.add((policy === 'prefer-raw' ? raw ?? processed : processed ?? raw) as PhotoData);
+  });
+
+  const counted = policy === 'all' ? photos : unique.filter(photo => kept.has(photo));
+  return {
+    photos: counted,
+    copies: photos.length - unique.length,
+    rawPairs,
+    hidden: photos.length - counted.length,
+  };
+};
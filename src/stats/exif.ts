@@ -0,0 +1,77 @@
+// src/stats/exif.ts
+import type { ExifData } from './types';
+import { parseExifOffset, toWallClockDate } from './timeline';
+
+// exifr options: read the file in small chunks so only the header bytes holding the metadata are loaded
+export const EXIFR_OPTIONS = {
+  firstChunkSize: 64 * 1024,
+  chunkSize: 64 * 1024,
+  chunkLimit: 20,
+};
+
+// Millimetres per FocalPlaneResolutionUnit; exifr translates the codes 2 and 3 to "Inch" and "Centimeter"
+const FOCAL_PLANE_UNITS: { [unit: string]: number } = {
+  2: 25.4,
+  3: 10,
+  4: 1,
+  5: 0.001,
+  Inch: 25.4,
+  Centimeter: 10,
+};
+
+// Trimmed text of a string or numeric tag (serial numbers are sometimes stored as numbers)
+const toText = (value: unknown): string | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const toNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+// Whether the flash fired: bit 0 of the raw value, or exifr's description of it
+const toFlash = (value: unknown): ExifData['Flash'] => {
+  if (typeof value === 'number') return value & 1 ? 'Fired' : 'Did not fire';
+  if (typeof value !== 'string') return undefined;
+  return /fired|return light/i.test(value) && !/did not fire/i.test(value) ? 'Fired' : 'Did not fire';
+};
+
+// Map the raw object returned by exifr.parse to the fields used by the statistics
+export const toExifData = (exifObj: Record<string, unknown> | undefined): ExifData => {
+  if (!exifObj) {
+    return {};
+  }
+  const altitude = toNumber(exifObj.GPSAltitude);
+  return {
+    Make: toText(exifObj.Make),
+    Model: toText(exifObj.Model),
+    LensModel: toText(exifObj.LensModel),
+    ExposureTime: toNumber(exifObj.ExposureTime),
+    FNumber: toNumber(exifObj.FNumber),
+    // exifr names tag 0x8827 "ISO"
+    ISOSpeedRatings: toNumber(exifObj.ISOSpeedRatings ?? exifObj.ISO),
+    DateTimeOriginal: toWallClockDate(exifObj.DateTimeOriginal),
+    OffsetTimeOriginal: parseExifOffset(exifObj.OffsetTimeOriginal),
+    FocalLength: toNumber(exifObj.FocalLength),
+    FocalLengthIn35mmFormat: toNumber(exifObj.FocalLengthIn35mmFormat),
+    ExifImageWidth: toNumber(exifObj.ExifImageWidth),
+    ExifImageHeight: toNumber(exifObj.ExifImageHeight),
+    FocalPlaneXResolution: toNumber(exifObj.FocalPlaneXResolution),
+    FocalPlaneYResolution: toNumber(exifObj.FocalPlaneYResolution),
+    FocalPlaneResolutionUnit: FOCAL_PLANE_UNITS[String(exifObj.FocalPlaneResolutionUnit)],
+    ExposureCompensation: toNumber(exifObj.ExposureCompensation),
+    ExposureProgram: toText(exifObj.ExposureProgram),
+    ExposureMode: toText(exifObj.ExposureMode),
+    MeteringMode: toText(exifObj.MeteringMode),
+    Flash: toFlash(exifObj.Flash),
+    WhiteBalance: toText(exifObj.WhiteBalance),
+    Orientation: toText(exifObj.Orientation),
+    // exifr names the EXIF 2.3 BodySerialNumber tag "SerialNumber"
+    BodySerialNumber: toText(exifObj.BodySerialNumber ?? exifObj.SerialNumber),
+    LensSerialNumber: toText(exifObj.LensSerialNumber),
+    Software: toText(exifObj.Software),
+    // exifr adds signed decimal latitude and longitude when the GPS block is present
+    GPSLatitude: toNumber(exifObj.latitude),
+    GPSLongitude: toNumber(exifObj.longitude),
+    GPSAltitude: altitude === undefined ? undefined : altitude * (exifObj.GPSAltitudeRef === 1 ? -1 : 1),
+  };
+};
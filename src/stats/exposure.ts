@@ -0,0 +1,141 @@
+// src/stats/exposure.ts
+
+// Exposure fields that can be used as analysis dimensions
+export type ExposureField = 'FNumber' | 'ExposureTime' | 'ISOSpeedRatings';
+// Preset buckets snap values to standard stops, continuous counts every distinct value
+export type ExposureBucketMode = 'preset' | 'continuous';
+// Aperture stop scale used in preset mode
+export type ApertureScale = 'full' | 'third';
+
+export const EXPOSURE_FIELDS: ExposureField[] = ['FNumber', 'ExposureTime', 'ISOSpeedRatings'];
+
+// Standard full-stop and third-stop f-numbers
+export const FULL_STOP_APERTURES = [1, 1.4, 2, 2.8, 4, 5.6, 8, 11, 16, 22, 32, 45, 64];
+export const THIRD_STOP_APERTURES = [
+  1, 1.1, 1.2, 1.4, 1.6, 1.8, 2, 2.2, 2.5, 2.8, 3.2, 3.5, 4, 4.5, 5, 5.6, 6.3, 7.1,
+  8, 9, 10, 11, 13, 14, 16, 18, 20, 22, 25, 29, 32, 36, 40, 45, 51, 57, 64,
+];
+
+// Standard full-stop shutter speeds in seconds, from fastest to slowest
+export const SHUTTER_SPEED_STOPS = [
+  1 / 8000, 1 / 4000, 1 / 2000, 1 / 1000, 1 / 500, 1 / 250, 1 / 125, 1 / 60, 1 / 30,
+  1 / 15, 1 / 8, 1 / 4, 1 / 2, 1, 2, 4, 8, 15, 30, 60, 120, 240, 480, 960,
+];
+
+// Full-stop ISO values, each step doubling the previous one
+export const ISO_STOPS = [25, 50, 100, 200, 400, 800, 1600, 3200, 6400, 12800, 25600, 51200, 102400, 204800, 409600];
+
+// Type guard for exposure dimensions
+export const isExposureField = (field: string): field is ExposureField =>
+  (EXPOSURE_FIELDS as string[]).includes(field);
+
+// Format an f-number like f/2.8
+export const formatAperture = (fNumber: number): string => `f/${Number(fNumber.toFixed(1))}`;
+
+// Format an exposure time as a fraction (1/250) below one second, otherwise in seconds (2s)
+export const formatShutterSpeed = (seconds: number): string => {
+  if (seconds <= 0) return `${seconds}s`;
+  if (seconds < 1) {
+    const denominator = 1 / seconds;
+    // Speeds like 0.3s or 0.6s are not unit fractions and read better as decimals
+    if (seconds >= 0.25 && Math.abs(denominator - Math.round(denominator)) > 0.05) {
+      return `${Number(seconds.toFixed(1))}s`;
+    }
+    return `1/${Math.round(denominator)}`;
+  }
+  return `${Number(seconds.toFixed(1))}s`;
+};
+
+// Format an ISO value like ISO 3200
+export const formatIso = (iso: number): string => `ISO ${Math.round(iso)}`;
+
+// Format a value of the given exposure field for display
+export const formatExposureValue = (field: ExposureField, value: number): string => {
+  switch (field) {
+    case 'FNumber':
+      return formatAperture(value);
+    case 'ExposureTime':
+      return formatShutterSpeed(value);
+    case 'ISOSpeedRatings':
+      return formatIso(value);
+  }
+};
+
+// Get the preset stop list for a field
+const getStops = (field: ExposureField, apertureScale: ApertureScale): number[] => {
+  switch (field) {
+    case 'FNumber':
+      return apertureScale === 'third' ? THIRD_STOP_APERTURES : FULL_STOP_APERTURES;
+    case 'ExposureTime':
+      return SHUTTER_SPEED_STOPS;
+    case 'ISOSpeedRatings':
+      return ISO_STOPS;
+  }
+};
+
+// Find the index of the nearest stop, measured in stops (log2) rather than linearly
+const nearestStopIndex = (value: number, stops: number[]): number => {
+  let bestIndex = 0;
+  let bestDistance = Infinity;
+  stops.forEach((stop, index) => {
+    const distance = Math.abs(Math.log2(value / stop));
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestIndex = index;
+    }
+  });
+  return bestIndex;
+};
+
+// Normalize a value for continuous mode so near-identical readings share a bucket
+const continuousKey = (field: ExposureField, value: number): number => {
+  switch (field) {
+    case 'FNumber':
+      return Number(value.toFixed(1));
+    case 'ExposureTime':
+      return value;
+    case 'ISOSpeedRatings':
+      return Math.round(value);
+  }
+};
+
+// Bucket exposure values into ordered labels and counts
+export const bucketExposureValues = (
+  values: number[],
+  field: ExposureField,
+  mode: ExposureBucketMode,
+  apertureScale: ApertureScale = 'full'
+): { labels: string[]; counts: { [label: string]: number } } => {
+  const counts: { [label: string]: number } = {};
+  const validValues = values.filter(v => Number.isFinite(v) && v > 0);
+  if (validValues.length === 0) {
+    return { labels: [], counts };
+  }
+
+  if (mode === 'preset') {
+    const stops = getStops(field, apertureScale);
+    const indexes = validValues.map(v => nearestStopIndex(v, stops));
+    const minIndex = Math.min(...indexes);
+    const maxIndex = Math.max(...indexes);
+    // Keep empty stops between the extremes so the scale stays continuous
+    const labels = stops.slice(minIndex, maxIndex + 1).map(stop => formatExposureValue(field, stop));
+    labels.forEach(label => counts[label] = 0);
+    indexes.forEach(index => {
+      counts[formatExposureValue(field, stops[index])]++;
+    });
+    return { labels, counts };
+  }
+
+  // Continuous mode: one bucket per distinct value, ordered numerically
+  const valueByLabel = new Map<string, number>();
+  validValues.forEach(v => {
+    const key = continuousKey(field, v);
+    const label = formatExposureValue(field, key);
+    if (!valueByLabel.has(label)) {
+      valueByLabel.set(label, key);
+    }
+    counts[label] = (counts[label] || 0) + 1;
+  });
+  const labels = Array.from(valueByLabel.keys()).sort((a, b) => valueByLabel.get(a)! - valueByLabel.get(b)!);
+  return { labels, counts };
+};
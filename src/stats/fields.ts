@@ -0,0 +1,86 @@
+// src/stats/fields.ts
+// Categorical EXIF dimensions: exposure settings, flash, orientation, image size, serial numbers, software, GPS
+// and whether the file is a photo or a video
+import { EXIF_CATEGORY_FIELDS, type ExifCategoryField, type PhotoData } from './types';
+import { getMediaKind } from './formats';
+import { RAW_NAMES, type NameNormalizer } from './names';
+
+// Filter entry for photos that do not record a field
+export const NOT_RECORDED = 'Not recorded';
+
+export const isExifCategoryField = (field: string): field is ExifCategoryField =>
+  (EXIF_CATEGORY_FIELDS as string[]).includes(field);
+
+// Exposure compensation rounded to a third of a stop, e.g. "+0.7 EV"
+const formatExposureCompensation = (value: number): string => {
+  const stops = Math.round(value * 3) / 3;
+  if (stops === 0) return '0 EV';
+  return `${stops > 0 ? '+' : ''}${stops.toFixed(1).replace(/\.0$/, '')} EV`;
+};
+
+// The label of a photo for a field, or undefined when the photo does not record it.
+// Serial numbers are prefixed with the camera or lens name, since they are only unique per model.
+export const getExifCategory = (
+  photo: PhotoData,
+  field: ExifCategoryField,
+  names: NameNormalizer = RAW_NAMES
+): string | undefined => {
+  const { exif } = photo;
+  switch (field) {
+    case 'ExposureCompensation':
+      return typeof exif.ExposureCompensation === 'number' ? formatExposureCompensation(exif.ExposureCompensation) : undefined;
+    case 'ImageSize':
+      return exif.ExifImageWidth && exif.ExifImageHeight ? `${exif.ExifImageWidth}×${exif.ExifImageHeight}` : undefined;
+    case 'BodySerialNumber':
+      return exif.BodySerialNumber && `${names.model(photo)} #${exif.BodySerialNumber}`;
+    case 'LensSerialNumber':
+      return exif.LensSerialNumber && `${names.lens(photo)} #${exif.LensSerialNumber}`;
+    case 'GPS':
+      return typeof exif.GPSLatitude === 'number' && typeof exif.GPSLongitude === 'number' ? 'With GPS' : 'Without GPS';
+    case 'MediaType':
+      return getMediaKind(photo) === 'video' ? 'Video' : 'Photo';
+    default:
+      return exif[field];
+  }
+};
+
+// Same as getExifCategory, with photos lacking the field under NOT_RECORDED, for filtering
+export const getExifFilterValue = (photo: PhotoData, field: ExifCategoryField, names?: NameNormalizer): string =>
+  getExifCategory(photo, field, names) ?? NOT_RECORDED;
+
+// Display order of a field's labels: exposure compensation from negative to positive, image sizes
+// from largest, everything else from most to least common
+export const sortExifCategoryLabels = (
+  field: ExifCategoryField,
+  counts: { [label: string]: number }
+): string[] => {
+  const labels = Object.keys(counts);
+  if (field === 'ExposureCompensation') {
+    return labels.sort((a, b) => parseFloat(a) - parseFloat(b));
+  }
+  if (field === 'ImageSize') {
+    const pixels = (label: string) => label.split('×').reduce((product, n) => product * Number(n), 1);
+    return labels.sort((a, b) => pixels(b) - pixels(a));
+  }
+  return labels.sort((a, b) => counts[b] - counts[a] || a.localeCompare(b));
+};
+
+// Values present for a field, in display order, with NOT_RECORDED last when some photos lack it
+export const listExifFilterValues = (
+  photos: PhotoData[],
+  field: ExifCategoryField,
+  names?: NameNormalizer
+): string[] => {
+  const counts: { [label: string]: number } = {};
+  let missing = false;
+  photos.forEach(photo => {
+    const value = getExifCategory(photo, field, names);
+    if (value === undefined) {
+      missing = true;
+    } else {
+      counts[value] = (counts[value] || 0) + 1;
+    }
+  });
+  const values = sortExifCategoryLabels(field, counts);
+  return missing ? [...values, NOT_RECORDED] : values;
+};
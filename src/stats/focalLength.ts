@@ -0,0 +1,172 @@
+// src/stats/focalLength.ts
+import type { CropFactorMap, LensFactorRule } from '../cameraData';
+import type { PhotoData } from './types';
+import { UNKNOWN_LENS, UNKNOWN_MODEL } from './quality';
+
+// A teleconverter named in LensModel, e.g. "FE 100-400mm F4.5-5.6 GM OSS + 1.4X Teleconverter"
+export interface Teleconverter {
+  factor: number;
+  // LensModel without the teleconverter, used to match lens rules
+  baseLens: string;
+}
+
+// "+ 1.4x", "+2X Teleconverter", "+ TC-1.4x", Nikon "TC-14E" / "TC-20E III", Canon "Extender EF 1.4x III"
+const TELECONVERTER_SUFFIX = /\s*\+\s*(?:[a-z]+-?\s*)?(\d(?:\.\d)?)\s*x\b.*$/i;
+const NIKON_TELECONVERTER = /\s*\+?\s*TC-(\d)(\d)\w*(?:\s+[IVX]+)?/i;
+const CANON_EXTENDER = /\s*\+?\s*Extender\s+(?:RF|EF)?\s*(\d(?:\.\d)?)\s*x(?:\s+[IVX]+)?/i;
+
+export const detectTeleconverter = (lensModel: string | undefined): Teleconverter | undefined => {
+  if (!lensModel) return undefined;
+  const suffix = lensModel.match(TELECONVERTER_SUFFIX);
+  if (suffix) {
+    return { factor: Number(suffix[1]), baseLens: lensModel.replace(TELECONVERTER_SUFFIX, '').trim() };
+  }
+  const nikon = lensModel.match(NIKON_TELECONVERTER);
+  if (nikon) {
+    return { factor: Number(`${nikon[1]}.${nikon[2]}`), baseLens: lensModel.replace(NIKON_TELECONVERTER, '').trim() };
+  }
+  const canon = lensModel.match(CANON_EXTENDER);
+  if (canon) {
+    return { factor: Number(canon[1]), baseLens: lensModel.replace(CANON_EXTENDER, '').trim() };
+  }
+  return undefined;
+};
+
+// Focal range printed in a lens name: "XF16-55mmF2.8" gives 16-55, "FE 35mm F1.8" gives 35-35
+const parseLensFocalRange = (lens: string): { min: number; max: number } | undefined => {
+  const match = lens.match(/(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?\s*mm/i);
+  return match ? { min: Number(match[1]), max: Number(match[2] ?? match[1]) } : undefined;
+};
+
+// Test a LensModel against a rule's pattern: "/regex/" or a plain substring, both case-insensitive
+export const matchesLensPattern = (lensModel: string, pattern: string): boolean => {
+  const regex = pattern.match(/^\/(.+)\/$/);
+  if (regex) {
+    try {
+      return new RegExp(regex[1], 'i').test(lensModel);
+    } catch {
+      return false;
+    }
+  }
+  return pattern.trim() !== '' && lensModel.toLowerCase().includes(pattern.trim().toLowerCase());
+};
+
+// The rule for a body and lens: body-specific rules win over lens-only ones, then list order decides
+export const findLensFactorRule = (
+  model: string | undefined,
+  lensModel: string | undefined,
+  rules: LensFactorRule[]
+): LensFactorRule | undefined => {
+  if (!lensModel) return undefined;
+  const matching = rules.filter(rule =>
+    rule.factor > 0 && (!rule.model || rule.model === model) && matchesLensPattern(lensModel, rule.lens));
+  return matching.find(rule => rule.model) ?? matching[0];
+};
+
+// Where an equivalent focal length came from
+export type EquivalentFocalSource = 'lens-rule' | 'exif-35mm' | 'body' | 'raw';
+
+export interface EquivalentFocalLength {
+  value?: number;
+  source: EquivalentFocalSource;
+  // Factor applied to FocalLength; 1 for the EXIF 35mm value
+  factor: number;
+  rule?: LensFactorRule;
+  // applied is false when the camera already counted the teleconverter in FocalLength
+  teleconverter?: { factor: number; applied: boolean };
+}
+
+/*
+ * Work out a photo's 35mm-equivalent focal length, in this order:
+ *   1. a lens rule for the photo's body and lens (see LensFactorRule)
+ *   2. FocalLengthIn35mmFormat written by the camera
+ *   3. the body's crop factor
+ *   4. the plain FocalLength
+ * A teleconverter named in LensModel is multiplied in only when FocalLength clearly excludes it, i.e. is
+ * shorter than the lens's shortest focal length times the converter. Cameras that know about the
+ * converter (and write it into LensModel) already report the extended focal length.
+ */
+export const explainEquivalentFocalLength = (
+  photo: PhotoData,
+  cropFactors: CropFactorMap,
+  lensRules: LensFactorRule[] = []
+): EquivalentFocalLength => {
+  const { exif } = photo;
+  const teleconverter = detectTeleconverter(exif.LensModel);
+  const baseLens = teleconverter?.baseLens ?? exif.LensModel;
+  let converterFactor = 1;
+  let converter: EquivalentFocalLength['teleconverter'];
+  if (teleconverter) {
+    const range = baseLens ? parseLensFocalRange(baseLens) : undefined;
+    const applied = !!range && typeof exif.FocalLength === 'number'
+      && exif.FocalLength < range.min * teleconverter.factor * 0.99;
+    converterFactor = applied ? teleconverter.factor : 1;
+    converter = { factor: teleconverter.factor, applied };
+  }
+  const focalLength = typeof exif.FocalLength === 'number' ? exif.FocalLength * converterFactor : undefined;
+  const bodyFactor = exif.Model ? cropFactors[exif.Model] : undefined;
+
+  const rule = findLensFactorRule(exif.Model, baseLens, lensRules);
+  if (rule && focalLength !== undefined) {
+    const factor = rule.mode === 'replace' ? rule.factor : rule.factor * (bodyFactor || 1);
+    return { value: Math.round(focalLength * factor), source: 'lens-rule', factor, rule, teleconverter: converter };
+  }
+  if (typeof exif.FocalLengthIn35mmFormat === 'number' && exif.FocalLengthIn35mmFormat > 0) {
+    return { value: Math.round(exif.FocalLengthIn35mmFormat * converterFactor), source: 'exif-35mm', factor: 1, teleconverter: converter };
+  }
+  if (bodyFactor && focalLength !== undefined) {
+    return { value: Math.round(focalLength * bodyFactor), source: 'body', factor: bodyFactor, teleconverter: converter };
+  }
+  return { value: focalLength, source: 'raw', factor: 1, teleconverter: converter };
+};
+
+// Calculate equivalent focal length based on lens rules, the EXIF 35mm value or the body's crop factor
+export const getEquivalentFocalLength = (
+  photo: PhotoData,
+  cropFactors: CropFactorMap,
+  lensRules: LensFactorRule[] = []
+): number | undefined => explainEquivalentFocalLength(photo, cropFactors, lensRules).value;
+
+// Human-readable name of a lens rule
+export const getLensRuleLabel = (rule: LensFactorRule): string =>
+  rule.label || `${rule.lens}${rule.model ? ` @ ${rule.model}` : ''}`;
+
+// One-line explanation of an equivalent focal length, e.g. "鏡頭規則「Sony DT (APS-C)」×1.5，已乘 1.4x 增距鏡"
+export const describeEquivalentFocalLength = (result: EquivalentFocalLength): string => {
+  const base = {
+    'lens-rule': result.rule ? `鏡頭規則「${getLensRuleLabel(result.rule)}」×${result.factor}` : `鏡頭規則 ×${result.factor}`,
+    'exif-35mm': 'EXIF 35mm 等效焦距',
+    body: `機身倍率 ×${result.factor}`,
+    raw: '實際焦距（未設定倍率）',
+  }[result.source];
+  if (!result.teleconverter) return base;
+  return `${base}，${result.teleconverter.applied ? '已乘' : '焦距已含'} ${result.teleconverter.factor}x 增距鏡`;
+};
+
+// How the equivalent focal lengths of a set of photos were obtained, one row per body, lens and explanation
+export interface EquivalentFocalSummaryRow {
+  model: string;
+  lens: string;
+  description: string;
+  count: number;
+}
+
+export const summarizeEquivalentFocalLengths = (
+  photos: PhotoData[],
+  cropFactors: CropFactorMap,
+  lensRules: LensFactorRule[] = []
+): EquivalentFocalSummaryRow[] => {
+  const rows = new Map<string, EquivalentFocalSummaryRow>();
+  photos.forEach(photo => {
+    if (typeof photo.exif.FocalLength !== 'number' && typeof photo.exif.FocalLengthIn35mmFormat !== 'number') return;
+    const model = photo.exif.Model || UNKNOWN_MODEL;
+    const lens = photo.exif.LensModel || UNKNOWN_LENS;
+    const description = describeEquivalentFocalLength(explainEquivalentFocalLength(photo, cropFactors, lensRules));
+    const key = `${model}\u0000${lens}\u0000${description}`;
+    const row = rows.get(key) ?? { model, lens, description, count: 0 };
+    row.count += 1;
+    rows.set(key, row);
+  });
+  return Array.from(rows.values())
+    .sort((a, b) => a.model.localeCompare(b.model) || a.lens.localeCompare(b.lens) || b.count - a.count);
+};
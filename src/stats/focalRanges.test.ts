@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { checkFocalLengthRanges, FOCAL_RANGE_PRESETS, FocalRangeError, parseFocalLengthRanges } from './focalRanges';
+
+// The error a ranges text throws, with the text it points at
+const errorOf = (text: string) => {
+  try {
+    parseFocalLengthRanges(text);
+  } catch (e) {
+    if (e instanceof FocalRangeError) return { message: e.message, text: text.slice(e.start, e.end) };
+    throw e;
+  }
+  throw new Error(`"${text}" parsed`);
+};
+
+const bucketOf = (text: string, focalLength: number) => {
+  const ranges = parseFocalLengthRanges(text);
+  return ranges.find(range => range.test(focalLength))?.label
+    ?? ranges.find(range => range.type === 'other')?.label;
+};
+
+const warningsOf = (text: string) => checkFocalLengthRanges(parseFocalLengthRanges(text)).map(warning => warning.message);
+
+describe('parseFocalLengthRanges', () => {
+  it('reads every kind of entry, with default and custom labels', () => {
+    const ranges = parseFocalLengthRanges('<24, 24-70mm, 85, 70-200+300, 超望遠:>=400, other');
+    expect(ranges.map(range => [range.label, range.type])).toEqual([
+      ['<24mm', 'open'],
+      ['24-70mm', 'range'],
+      ['85mm', 'single'],
+      ['[70-200]+[300]mm', 'merged'],
+      ['超望遠', 'open'],
+      ['Other', 'other'],
+    ]);
+    expect(parseFocalLengthRanges('300+')[0]).toMatchObject({ label: '300mm+', intervals: [{ min: 300 }] });
+  });
+
+  it('matches rounded focal lengths in the first range that contains them', () => {
+    const text = '14-23, 24-70, 70-200, other';
+    expect(bucketOf(text, 23.4)).toBe('14-23mm');
+    expect(bucketOf(text, 23.6)).toBe('24-70mm');
+    expect(bucketOf(text, 70)).toBe('24-70mm');
+    expect(bucketOf(text, 600)).toBe('Other');
+    expect(bucketOf('<24, >200', 23)).toBe('<24mm');
+    expect(bucketOf('<24, >200', 24)).toBeUndefined();
+  });
+
+  it('ignores a trailing comma and parses every preset', () => {
+    expect(parseFocalLengthRanges('24-70, ')).toHaveLength(1);
+    FOCAL_RANGE_PRESETS.forEach(preset => expect(() => parseFocalLengthRanges(preset.ranges)).not.toThrow());
+  });
+
+  it('points at what it cannot read', () => {
+    expect(errorOf('')).toEqual({ message: '請輸入至少一個區間', text: '' });
+    expect(errorOf('24-70,, 85').message).toBe('這裡少了一個區間');
+    expect(errorOf('24-70, wide')).toEqual({ message: '「wide」不是焦距', text: 'wide' });
+    expect(errorOf('70-24')).toEqual({ message: '區間的終點 24 小於起點 70', text: '24' });
+    expect(errorOf('24.5-70')).toEqual({ message: '焦距必須是正整數（mm）', text: '24.5' });
+    expect(errorOf('0-24').message).toBe('焦距必須是正整數（mm）');
+    expect(errorOf('24-')).toEqual({ message: '這裡需要焦距', text: '' });
+    expect(errorOf('24-70+')).toEqual({ message: '只有單一焦距能以「+」表示以上，例如 300+', text: '+' });
+    expect(errorOf('24-70 85').message).toBe('無法辨識「85」');
+    expect(errorOf(':24-70').message).toBe('「:」前需要標籤名稱');
+    expect(errorOf('wide:').message).toBe('標籤後需要焦段，例如 wide:14-23');
+    expect(errorOf('other, 24-70, OTHER')).toEqual({ message: 'other 只能出現一次', text: 'OTHER' });
+    expect(errorOf('a:24, a:35')).toEqual({ message: '標籤「a」重複', text: 'a:35' });
+  });
+});
+
+describe('checkFocalLengthRanges', () => {
+  it('accepts zoom ranges that share an end', () => {
+    expect(warningsOf('14-24, 24-70, 70-200, other')).toEqual([]);
+  });
+
+  it('reports ranges hidden by earlier ones', () => {
+    expect(warningsOf('24-70, 35-50')).toEqual(['「35-50mm」完全落在前面的「24-70mm」內，不會有任何照片']);
+    expect(warningsOf('24-70, 50-100')).toEqual(['「50-100mm」與「24-70mm」重疊於 50-70mm，重疊部分計入「24-70mm」']);
+    expect(warningsOf('200+, 300-600')).toHaveLength(1);
+  });
+
+  it('reports gaps between multi-millimetre ranges, but not between primes', () => {
+    expect(warningsOf('14-23, 35-70, other')).toEqual(['24-34mm 不在任何區間內，計入「Other」']);
+    expect(warningsOf('14-23, 35-70')).toEqual(['24-34mm 不在任何區間內，不會被統計']);
+    expect(warningsOf('24, 35, 50, 85')).toEqual([]);
+  });
+});
@@ -0,0 +1,296 @@
+// src/stats/focalRanges.ts
+// Focal length range definitions: the grammar of the range input, overlap and gap checks, and presets
+//
+//   ranges := entry (',' entry)*
+//   entry  := [label ':'] (part ('+' part)* | 'other')
+//   part   := N | N '-' N | '<' N | '<=' N | '>' N | '>=' N | N '+'
+//
+// Focal lengths are whole millimetres (an optional "mm" may follow), and equivalent focal lengths
+// are rounded before they are matched, so "14-23, 24-70" leaves no gap between 23 and 24.
+
+export const DEFAULT_FOCAL_LENGTH_RANGES = '14-23, 24-70, 70-200, other';
+
+// Error in the ranges text; start and end locate the offending characters
+export class FocalRangeError extends Error {
+  start: number;
+  end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.name = 'FocalRangeError';
+    this.start = start;
+    this.end = Math.max(end, start + 1);
+  }
+}
+
+// Whole-millimetre interval with inclusive ends; a missing end is open
+export interface FocalInterval {
+  min?: number;
+  max?: number;
+}
+
+export interface FocalRange {
+  label: string;
+  type: 'single' | 'range' | 'open' | 'merged' | 'other';
+  intervals: FocalInterval[];
+  // Position of the entry in the text
+  start: number;
+  end: number;
+  test: (focalLength: number) => boolean;
+}
+
+// A range that hides another one, or focal lengths no range covers
+export interface FocalRangeWarning {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface FocalRangePreset {
+  id: string;
+  name: string;
+  ranges: string;
+}
+
+export const FOCAL_RANGE_PRESETS: FocalRangePreset[] = [
+  { id: 'default', name: '預設', ranges: DEFAULT_FOCAL_LENGTH_RANGES },
+  { id: 'trinity', name: '大三元變焦', ranges: '超廣角:<24, 標準:24-70, 望遠:70-200, 超望遠:200+' },
+  { id: 'primes', name: '常用定焦', ranges: '24, 28, 35, 50, 85, 135, other' },
+  { id: 'classic', name: '廣角／標準／望遠', ranges: '廣角:<35, 標準:35-70, 中望遠:71-135, 望遠:136+' },
+];
+
+const inInterval = (value: number, { min, max }: FocalInterval) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+// "24-70", "50", "24mm 以下" or "300mm 以上"
+const describeInterval = ({ min, max }: FocalInterval): string => {
+  if (min === undefined) return max === undefined ? '所有焦距' : `${max}mm 以下`;
+  if (max === undefined) return `${min}mm 以上`;
+  return min === max ? `${min}mm` : `${min}-${max}mm`;
+};
+
+// A part as written in a label: "18-55", "<24", "300+"
+const formatPart = ({ min, max }: FocalInterval): string => {
+  if (min === undefined) return `<${(max ?? 0) + 1}`;
+  if (max === undefined) return `${min}+`;
+  return min === max ? `${min}` : `${min}-${max}`;
+};
+
+const defaultLabel = (intervals: FocalInterval[]): string => {
+  if (intervals.length > 1) return `${intervals.map(part => `[${formatPart(part)}]`).join('+')}mm`;
+  const [part] = intervals;
+  return part.max === undefined ? `${part.min}mm+` : `${formatPart(part)}mm`;
+};
+
+// Parse the parts of one entry, e.g. "18-55 + 70-200" or "300+", starting at offset in the text
+const parseParts = (spec: string, offset: number): FocalInterval[] => {
+  let pos = 0;
+  const skipSpaces = () => {
+    while (pos < spec.length && /\s/.test(spec[pos])) pos++;
+  };
+  const fail = (message: string, length = 1): never => {
+    throw new FocalRangeError(message, offset + pos, offset + Math.min(pos + length, spec.length));
+  };
+  const readNumber = (): number => {
+    skipSpaces();
+    const match = spec.slice(pos).match(/^(\d+(?:\.\d+)?)(\s*mm)?/i);
+    if (!match) {
+      const word = spec.slice(pos).match(/^\S+/)?.[0] ?? '';
+      return fail(word ? `「${word}」不是焦距` : '這裡需要焦距', word.length);
+    }
+    const value = Number(match[1]);
+    if (!Number.isInteger(value) || value <= 0) fail('焦距必須是正整數（mm）', match[1].length);
+    pos += match[0].length;
+    return value;
+  };
+
+  const parts: FocalInterval[] = [];
+  for (;;) {
+    skipSpaces();
+    const comparison = spec.slice(pos).match(/^(<=|>=|<|>)/);
+    let part: FocalInterval;
+    if (comparison) {
+      pos += comparison[0].length;
+      const value = readNumber();
+      part = {
+        '<': { max: value - 1 },
+        '<=': { max: value },
+        '>': { min: value + 1 },
+        '>=': { min: value },
+      }[comparison[0] as '<' | '<=' | '>' | '>='];
+    } else {
+      const min = readNumber();
+      skipSpaces();
+      if (spec[pos] === '-') {
+        pos++;
+        const start = pos;
+        const max = readNumber();
+        if (max < min) {
+          throw new FocalRangeError(`區間的終點 ${max} 小於起點 ${min}`, offset + start, offset + pos);
+        }
+        part = { min, max };
+      } else {
+        part = { min, max: min };
+      }
+    }
+    skipSpaces();
+    if (pos >= spec.length) {
+      parts.push(part);
+      return parts;
+    }
+    if (spec[pos] !== '+') fail(`無法辨識「${spec.slice(pos).trim()}」`, spec.length - pos);
+    const plus = pos++;
+    skipSpaces();
+    // A "+" that ends the entry opens a single focal length upwards: "300+"
+    if (pos >= spec.length) {
+      if (part.min === undefined || part.min !== part.max) {
+        throw new FocalRangeError('只有單一焦距能以「+」表示以上，例如 300+', offset + plus, offset + plus + 1);
+      }
+      parts.push({ min: part.min });
+      return parts;
+    }
+    parts.push(part);
+  }
+};
+
+/*
+ * Parse the ranges text into buckets, in the order written. The first range that contains a focal
+ * length counts it; "other" collects the focal lengths no range contains. Throws a FocalRangeError
+ * for anything it cannot read, instead of skipping it.
+ */
+export const parseFocalLengthRanges = (text: string): FocalRange[] => {
+  const ranges: FocalRange[] = [];
+  let nextOffset = 0;
+  text.split(',').forEach((entry, index, entries) => {
+    const offset = nextOffset;
+    nextOffset += entry.length + 1;
+    const start = offset + entry.length - entry.trimStart().length;
+    const end = offset + entry.trimEnd().length;
+    if (start >= end) {
+      if (entries.length === 1) throw new FocalRangeError('請輸入至少一個區間', 0, 0);
+      // A trailing comma is harmless; an empty entry between two others is a typo
+      if (index === entries.length - 1) return;
+      throw new FocalRangeError('這裡少了一個區間', Math.max(start - 1, 0), start);
+    }
+
+    const colon = entry.indexOf(':');
+    let label: string | undefined;
+    let specStart = start;
+    if (colon >= 0) {
+      label = entry.slice(0, colon).trim();
+      if (!label) throw new FocalRangeError('「:」前需要標籤名稱', start, offset + colon + 1);
+      specStart = offset + colon + 1;
+    }
+    const rawSpec = text.slice(specStart, end);
+    const spec = rawSpec.trim();
+    const specOffset = specStart + rawSpec.length - rawSpec.trimStart().length;
+    if (!spec) throw new FocalRangeError('標籤後需要焦段，例如 wide:14-23', end - 1, end);
+
+    let range: FocalRange;
+    if (spec.toLowerCase() === 'other') {
+      if (ranges.some(other => other.type === 'other')) {
+        throw new FocalRangeError('other 只能出現一次', specOffset, specOffset + spec.length);
+      }
+      range = { label: label ?? 'Other', type: 'other', intervals: [], start, end, test: () => false };
+    } else {
+      const intervals = parseParts(spec, specOffset);
+      const [first] = intervals;
+      const type: FocalRange['type'] = intervals.length > 1
+        ? 'merged'
+        : first.min === undefined || first.max === undefined ? 'open' : first.min === first.max ? 'single' : 'range';
+      range = {
+        label: label ?? defaultLabel(intervals),
+        type,
+        intervals,
+        start,
+        end,
+        test: focalLength => intervals.some(interval => inInterval(Math.round(focalLength), interval)),
+      };
+    }
+    if (ranges.some(other => other.label === range.label)) {
+      throw new FocalRangeError(`標籤「${range.label}」重複`, start, end);
+    }
+    ranges.push(range);
+  });
+  return ranges;
+};
+
+const intersect = (a: FocalInterval, b: FocalInterval): FocalInterval | undefined => {
+  const min = a.min === undefined ? b.min : b.min === undefined ? a.min : Math.max(a.min, b.min);
+  const max = a.max === undefined ? b.max : b.max === undefined ? a.max : Math.min(a.max, b.max);
+  return min !== undefined && max !== undefined && min > max ? undefined : { min, max };
+};
+
+const isSingle = (interval: FocalInterval) => interval.min !== undefined && interval.min === interval.max;
+
+// Whether the intervals together contain every focal length of an interval
+const isCovered = (interval: FocalInterval, intervals: FocalInterval[]): boolean => {
+  let from = interval.min ?? -Infinity;
+  const to = interval.max ?? Infinity;
+  const sorted = [...intervals].sort((a, b) => (a.min ?? -Infinity) - (b.min ?? -Infinity));
+  for (const { min = -Infinity, max = Infinity } of sorted) {
+    if (min > from) break;
+    if (max === Infinity) return true;
+    from = Math.max(from, max + 1);
+    if (from > to) return true;
+  }
+  return from > to;
+};
+
+/*
+ * Ranges that share focal lengths with an earlier one, which then counts them, and gaps between
+ * ranges. Adjacent ranges sharing an end ("24-70, 70-200") are the usual way to write zoom ranges
+ * and are not reported. Gaps are only looked for between multi-millimetre ranges, so lists of
+ * primes do not warn about everything between them.
+ */
+export const checkFocalLengthRanges = (ranges: FocalRange[]): FocalRangeWarning[] => {
+  const warnings: FocalRangeWarning[] = [];
+  const regular = ranges.filter(range => range.type !== 'other');
+  regular.forEach((range, i) => {
+    const overlaps = regular.slice(0, i).flatMap(earlier => {
+      const shared = range.intervals.flatMap(a => earlier.intervals.flatMap(b => {
+        const overlap = intersect(a, b);
+        const touching = overlap && isSingle(overlap) && !isSingle(a) && !isSingle(b)
+          && (overlap.min === a.min || overlap.min === a.max);
+        return overlap && !touching ? [overlap] : [];
+      }));
+      return shared.length > 0 ? [{ earlier, shared }] : [];
+    });
+    if (overlaps.length === 0) return;
+    const earlierIntervals = regular.slice(0, i).flatMap(earlier => earlier.intervals);
+    if (range.intervals.every(interval => isCovered(interval, earlierIntervals))) {
+      const labels = overlaps.map(({ earlier }) => `「${earlier.label}」`).join('、');
+      warnings.push({ message: `「${range.label}」完全落在前面的${labels}內，不會有任何照片`, start: range.start, end: range.end });
+      return;
+    }
+    overlaps.forEach(({ earlier, shared }) => warnings.push({
+      message: `「${range.label}」與「${earlier.label}」重疊於 ${shared.map(describeInterval).join('、')}，重疊部分計入「${earlier.label}」`,
+      start: range.start,
+      end: range.end,
+    }));
+  });
+
+  // Merge every interval, then report the holes inside the span of the multi-millimetre ones
+  const spans = regular.flatMap(range => range.intervals).filter(interval => !isSingle(interval));
+  if (spans.length === 0) return warnings;
+  const lowest = Math.min(...spans.map(interval => interval.min ?? -Infinity));
+  const highest = Math.max(...spans.map(interval => interval.max ?? Infinity));
+  const sorted = regular.flatMap(range => range.intervals)
+    .map(({ min, max }) => ({ min: min ?? -Infinity, max: max ?? Infinity }))
+    .sort((a, b) => a.min - b.min);
+  const other = ranges.find(range => range.type === 'other');
+  let coveredTo = sorted[0].max;
+  sorted.slice(1).forEach(interval => {
+    if (interval.min > coveredTo + 1 && coveredTo >= lowest && interval.min <= highest) {
+      const gap = { min: coveredTo + 1, max: interval.min - 1 };
+      const next = regular.find(range => range.intervals.some(part => (part.min ?? -Infinity) === interval.min)) as FocalRange;
+      warnings.push({
+        message: `${describeInterval(gap)} 不在任何區間內，${other ? `計入「${other.label}」` : '不會被統計'}`,
+        start: next.start,
+        end: next.end,
+      });
+    }
+    coveredTo = Math.max(coveredTo, interval.max);
+  });
+  return warnings;
+};
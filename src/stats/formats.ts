@@ -0,0 +1,77 @@
+// src/stats/formats.ts
+// File types that are scanned, and whether a file is a photo or a video
+import type { PhotoData } from './types';
+
+export type MediaKind = 'photo' | 'video';
+
+export type FileFormatId =
+  | 'jpeg'
+  | 'heif'
+  | 'avif'
+  | 'png'
+  | 'tiff'
+  | 'dng'
+  | 'canon'
+  | 'nikon'
+  | 'sony'
+  | 'fujifilm'
+  | 'olympus'
+  | 'panasonic'
+  | 'pentax'
+  | 'samsung'
+  | 'mp4'
+  | 'mov';
+
+export interface FileFormat {
+  id: FileFormatId;
+  label: string;
+  // Lowercase extensions without the dot
+  extensions: string[];
+  kind: MediaKind;
+}
+
+export const FILE_FORMATS: FileFormat[] = [
+  { id: 'jpeg', label: 'JPEG', extensions: ['jpg', 'jpeg'], kind: 'photo' },
+  { id: 'heif', label: 'HEIF / HEIC', extensions: ['heic', 'heif', 'hif'], kind: 'photo' },
+  { id: 'avif', label: 'AVIF', extensions: ['avif'], kind: 'photo' },
+  { id: 'png', label: 'PNG', extensions: ['png'], kind: 'photo' },
+  { id: 'tiff', label: 'TIFF', extensions: ['tif', 'tiff'], kind: 'photo' },
+  { id: 'dng', label: 'DNG', extensions: ['dng'], kind: 'photo' },
+  { id: 'canon', label: 'Canon CR2 / CR3', extensions: ['cr2', 'cr3'], kind: 'photo' },
+  { id: 'nikon', label: 'Nikon NEF / NRW', extensions: ['nef', 'nrw'], kind: 'photo' },
+  { id: 'sony', label: 'Sony ARW', extensions: ['arw', 'srf', 'sr2'], kind: 'photo' },
+  { id: 'fujifilm', label: 'Fujifilm RAF', extensions: ['raf'], kind: 'photo' },
+  { id: 'olympus', label: 'OM / Olympus ORF', extensions: ['orf'], kind: 'photo' },
+  { id: 'panasonic', label: 'Panasonic RW2', extensions: ['rw2'], kind: 'photo' },
+  { id: 'pentax', label: 'Pentax PEF', extensions: ['pef'], kind: 'photo' },
+  { id: 'samsung', label: 'Samsung SRW', extensions: ['srw'], kind: 'photo' },
+  { id: 'mp4', label: 'MP4', extensions: ['mp4', 'm4v'], kind: 'video' },
+  { id: 'mov', label: 'QuickTime MOV', extensions: ['mov'], kind: 'video' },
+];
+
+export const FILE_FORMAT_IDS: FileFormatId[] = FILE_FORMATS.map(format => format.id);
+
+const FORMATS_BY_EXTENSION = new Map(
+  FILE_FORMATS.flatMap(format => format.extensions.map(extension => [extension, format] as const))
+);
+
+export const isFileFormatId = (id: string): id is FileFormatId => (FILE_FORMAT_IDS as string[]).includes(id);
+
+// The format of a file from its extension, or undefined for files that are not scanned
+export const getFileFormat = (filename: string): FileFormat | undefined => {
+  const dot = filename.lastIndexOf('.');
+  return dot < 0 ? undefined : FORMATS_BY_EXTENSION.get(filename.slice(dot + 1).toLowerCase());
+};
+
+// Test for the files to scan, given the enabled formats
+export const createFileMatcher = (formats: FileFormatId[]): ((filename: string) => boolean) => {
+  const enabled = new Set(formats);
+  return filename => {
+    const format = getFileFormat(filename);
+    return !!format && enabled.has(format.id);
+  };
+};
+
+// Photos and videos are told apart by extension, so photos from every source (and snapshots) know their kind
+export const getMediaKind = (photo: Pick<PhotoData, 'filename'>): MediaKind =>
+  getFileFormat(photo.filename)?.kind ?? 'photo';
@@ -0,0 +1,162 @@
+// src/stats/geo.ts
+// Photo positions: map selections, density grids, clusters and the country of a position.
+import type { PhotoData } from './types';
+
+// [longitude, latitude] in degrees
+export type LonLat = [number, number];
+
+// A map area the photos are filtered by: a longitude/latitude box or a freehand polygon
+export type GeoSelection =
+  | { kind: 'box'; west: number; south: number; east: number; north: number }
+  | { kind: 'lasso'; points: LonLat[] };
+
+// Position of a photo, when its EXIF has a usable one; 0,0 is almost always a GPS fix that never happened
+export const getPhotoPosition = (photo: PhotoData): LonLat | undefined => {
+  const { GPSLatitude, GPSLongitude } = photo.exif;
+  if (typeof GPSLatitude !== 'number' || typeof GPSLongitude !== 'number') return undefined;
+  if (Math.abs(GPSLatitude) > 90 || Math.abs(GPSLongitude) > 180) return undefined;
+  if (GPSLatitude === 0 && GPSLongitude === 0) return undefined;
+  return [GPSLongitude, GPSLatitude];
+};
+
+// Even-odd ray casting; rings do not need to be closed
+export const isPointInRing = ([x, y]: LonLat, ring: LonLat[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isInSelection = (position: LonLat, selection: GeoSelection): boolean => {
+  if (selection.kind === 'lasso') {
+    return selection.points.length >= 3 && isPointInRing(position, selection.points);
+  }
+  const [lon, lat] = position;
+  return lat >= selection.south && lat <= selection.north && lon >= selection.west && lon <= selection.east;
+};
+
+// Photos with a position inside the selection
+export const filterBySelection = (photos: PhotoData[], selection: GeoSelection): PhotoData[] =>
+  photos.filter(photo => {
+    const position = getPhotoPosition(photo);
+    return !!position && isInSelection(position, selection);
+  });
+
+export interface DensityCell {
+  // South-west corner of the cell
+  lon: number;
+  lat: number;
+  count: number;
+}
+
+// Count positions in square cells of cellSize degrees
+export const buildDensityGrid = (positions: LonLat[], cellSize: number): DensityCell[] => {
+  const cells = new Map<string, DensityCell>();
+  positions.forEach(([lon, lat]) => {
+    const cellLon = Math.floor(lon / cellSize) * cellSize;
+    const cellLat = Math.floor(lat / cellSize) * cellSize;
+    const key = `${cellLon},${cellLat}`;
+    const cell = cells.get(key) ?? { lon: cellLon, lat: cellLat, count: 0 };
+    cell.count += 1;
+    cells.set(key, cell);
+  });
+  return Array.from(cells.values());
+};
+
+export interface PointCluster {
+  // Mean position of the members, in the coordinates they were given in
+  x: number;
+  y: number;
+  count: number;
+}
+
+// Group points (usually screen coordinates) that fall in the same square of the given size
+export const clusterPoints = (points: { x: number; y: number }[], size: number): PointCluster[] => {
+  const clusters = new Map<string, { sumX: number; sumY: number; count: number }>();
+  points.forEach(({ x, y }) => {
+    const key = `${Math.floor(x / size)},${Math.floor(y / size)}`;
+    const cluster = clusters.get(key) ?? { sumX: 0, sumY: 0, count: 0 };
+    cluster.sumX += x;
+    cluster.sumY += y;
+    cluster.count += 1;
+    clusters.set(key, cluster);
+  });
+  return Array.from(clusters.values(), ({ sumX, sumY, count }) => ({ x: sumX / count, y: sumY / count, count }));
+};
+
+// A country outline: polygons made of an outer ring followed by its holes
+export interface CountryShape {
+  name: string;
+  polygons: LonLat[][][];
+  // [west, south, east, north]
+  bbox: [number, number, number, number];
+}
+
+// Label of positions outside every country, e.g. at sea
+export const NO_COUNTRY = 'Unknown / at sea';
+
+// Distance in degrees from a point to a segment, with longitude scaled by latitude
+const distanceToSegment = ([x, y]: LonLat, [x1, y1]: LonLat, [x2, y2]: LonLat): number => {
+  const k = Math.cos(y * Math.PI / 180);
+  const dx = (x2 - x1) * k;
+  const dy = y2 - y1;
+  const length = dx * dx + dy * dy;
+  const t = length === 0 ? 0 : Math.max(0, Math.min(1, (((x - x1) * k) * dx + (y - y1) * dy) / length));
+  return Math.hypot((x - x1) * k - t * dx, y - y1 - t * dy);
+};
+
+const isInPolygon = (position: LonLat, polygon: LonLat[][]): boolean =>
+  isPointInRing(position, polygon[0]) && !polygon.slice(1).some(hole => isPointInRing(position, hole));
+
+/*
+ * Find the country of a position. Simplified borders cut off beaches, piers and small islands,
+ * so a position outside every country goes to the nearest one within `coastTolerance` degrees.
+ */
+export const createCountryLocator = (countries: CountryShape[], coastTolerance = 0.2) => {
+  const near = (position: LonLat, margin: number) => countries.filter(({ bbox }) =>
+    position[0] >= bbox[0] - margin && position[0] <= bbox[2] + margin
+    && position[1] >= bbox[1] - margin && position[1] <= bbox[3] + margin);
+
+  // Photos cluster in few places, so positions are cached at about 1 km
+  const cache = new Map<string, string | undefined>();
+  const locate = (position: LonLat): string | undefined => {
+    const inside = near(position, 0).find(country => country.polygons.some(polygon => isInPolygon(position, polygon)));
+    if (inside) return inside.name;
+    let nearest: { name: string; distance: number } | undefined;
+    near(position, coastTolerance).forEach(country => {
+      country.polygons.forEach(polygon => polygon.forEach(ring => ring.forEach((point, i) => {
+        const distance = distanceToSegment(position, point, ring[(i + 1) % ring.length]);
+        if (distance <= coastTolerance && (!nearest || distance < nearest.distance)) {
+          nearest = { name: country.name, distance };
+        }
+      })));
+    });
+    return nearest?.name;
+  };
+  return (position: LonLat): string | undefined => {
+    const key = `${position[0].toFixed(2)},${position[1].toFixed(2)}`;
+    if (!cache.has(key)) cache.set(key, locate(position));
+    return cache.get(key);
+  };
+};
+
+// Photo counts per country, largest first; photos without a position are left out
+export const countByCountry = (
+  photos: PhotoData[],
+  locate: (position: LonLat) => string | undefined
+): { country: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  photos.forEach(photo => {
+    const position = getPhotoPosition(photo);
+    if (!position) return;
+    const country = locate(position) ?? NO_COUNTRY;
+    counts.set(country, (counts.get(country) ?? 0) + 1);
+  });
+  return Array.from(counts, ([country, count]) => ({ country, count }))
+    .sort((a, b) => b.count - a.count || a.country.localeCompare(b.country));
+};
@@ -0,0 +1,23 @@
+// src/stats/index.ts
+// Framework-free statistics engine shared by the React app and the CLI
+export * from './types';
+export * from './exif';
+export * from './formats';
+export * from './media';
+export * from './focalLength';
+export * from './focalRanges';
+export * from './cropInference';
+export * from './exposure';
+export * from './timeline';
+export * from './aggregate';
+export * from './report';
+export * from './quality';
+export * from './duplicates';
+export * from './names';
+export * from './fields';
+export * from './query';
+export * from './geo';
+export * from './snapshot';
+export * from './compare';
+export * from './crosstab';
+export * from './drilldown';
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { readMediaMetadata, readRafJpeg, readVideoMetadata, type ByteSource } from './media';
+
+const encoder = new TextEncoder();
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    bytes.set(part, offset);
+    offset += part.length;
+  });
+  return bytes;
+};
+
+const uint32 = (...values: number[]): Uint8Array => {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value));
+  return bytes;
+};
+
+// An ISO BMFF box: 32-bit size, four-character type, payload
+const box = (type: string, ...payload: Uint8Array[]): Uint8Array => {
+  const body = concat(...payload);
+  return concat(uint32(body.length + 8), encoder.encode(type), body);
+};
+
+// QuickTime types use the Mac Roman copyright sign, a single byte
+const atom = (type: string, ...payload: Uint8Array[]): Uint8Array => {
+  const body = concat(...payload);
+  const header = concat(uint32(body.length + 8), new Uint8Array([...type].map(char => (char === '©' ? 0xa9 : char.charCodeAt(0)))));
+  return concat(header, body);
+};
+
+// A user data text atom: length, language, text
+const userText = (type: string, text: string): Uint8Array => {
+  const value = encoder.encode(text);
+  const head = new Uint8Array(4);
+  new DataView(head.buffer).setUint16(0, value.length);
+  return atom(type, head, value);
+};
+
+// 2024-05-01 10:12:13 in seconds since 1904
+const MOVIE_TIME = Date.UTC(2024, 4, 1, 10, 12, 13) / 1000 + 2082844800;
+
+const mvhd = () => box('mvhd', uint32(0, MOVIE_TIME, MOVIE_TIME, 1000, 0));
+const tkhd = (width: number, height: number) => box('tkhd', new Uint8Array(76), uint32(width * 65536, height * 65536));
+
+// A source that records the ranges read from it
+const byteSource = (bytes: Uint8Array) => {
+  const reads: [number, number][] = [];
+  const source: ByteSource = {
+    size: bytes.length,
+    read: async (offset, length) => {
+      reads.push([offset, length]);
+      return bytes.slice(offset, offset + length);
+    },
+  };
+  return { source, reads };
+};
+
+describe('readVideoMetadata', () => {
+  it('reads the movie header, the largest track and QuickTime user data', async () => {
+    const file = concat(
+      box('ftyp', encoder.encode('qt  ')),
+      box('moov',
+        mvhd(),
+        box('trak', tkhd(0, 0)),
+        box('trak', tkhd(3840, 2160)),
+        atom('udta',
+          userText('©mak', 'GoPro'),
+          userText('©mod', 'HERO12 Black'),
+          userText('©xyz', '+35.6586+139.7454+040.000/'))),
+      box('mdat', new Uint8Array(64))
+    );
+    const exif = await readVideoMetadata(byteSource(file).source);
+    expect(exif).toEqual({
+      DateTimeOriginal: new Date(Date.UTC(2024, 4, 1, 10, 12, 13)),
+      ExifImageWidth: 3840,
+      ExifImageHeight: 2160,
+      Make: 'GoPro',
+      Model: 'HERO12 Black',
+      GPSLatitude: 35.6586,
+      GPSLongitude: 139.7454,
+      GPSAltitude: 40,
+    });
+  });
+
+  it('prefers Apple metadata keys to the movie header', async () => {
+    const key = (name: string) => box('mdta', encoder.encode(name));
+    const item = (index: number, text: string) =>
+      concat(uint32(text.length + 24, index), box('data', uint32(1, 0), encoder.encode(text)));
+    const meta = box('meta',
+      box('hdlr', new Uint8Array(25)),
+      box('keys', uint32(0, 2), key('com.apple.quicktime.model'), key('com.apple.quicktime.creationdate')),
+      box('ilst', item(1, 'iPhone 15 Pro'), item(2, '2024-06-02T08:30:00+0900')));
+    const exif = await readVideoMetadata(byteSource(concat(box('moov', mvhd(), meta))).source);
+    expect(exif.Model).toBe('iPhone 15 Pro');
+    expect(exif.DateTimeOriginal).toEqual(new Date(Date.UTC(2024, 5, 2, 8, 30)));
+    expect(exif.OffsetTimeOriginal).toBe('+09:00');
+  });
+
+  it('skips the media data instead of reading it', async () => {
+    const file = concat(box('ftyp'), box('mdat', new Uint8Array(100_000)), box('moov', mvhd()));
+    const { source, reads } = byteSource(file);
+    await readVideoMetadata(source);
+    expect(reads.every(([, length]) => length <= 100)).toBe(true);
+  });
+
+  it('rejects files without a movie box', async () => {
+    await expect(readVideoMetadata(byteSource(box('ftyp')).source)).rejects.toThrow('找不到影片的 moov 資訊區塊');
+    await expect(readVideoMetadata(byteSource(new Uint8Array(6)).source)).rejects.toThrow('找不到影片的 moov 資訊區塊');
+  });
+
+  it('reads what it can of a truncated movie box', async () => {
+    const complete = box('moov', mvhd(), box('trak', tkhd(1920, 1080)), atom('udta', userText('©mod', 'ZV-1')));
+    const exif = await readVideoMetadata(byteSource(complete.subarray(0, complete.length - 10)).source);
+    expect(exif.DateTimeOriginal).toEqual(new Date(Date.UTC(2024, 4, 1, 10, 12, 13)));
+    expect(exif.ExifImageWidth).toBe(1920);
+    expect(exif.Model).toBeUndefined();
+    // Cut inside the track header: its frame size is lost, the movie header is not
+    const cut = complete.subarray(0, 8 + mvhd().length + 40);
+    expect(await readVideoMetadata(byteSource(cut).source)).toEqual({
+      DateTimeOriginal: new Date(Date.UTC(2024, 4, 1, 10, 12, 13)),
+    });
+  });
+
+  it('stops at a box header with an impossible size', async () => {
+    const file = concat(box('moov', mvhd()), uint32(4), encoder.encode('free'));
+    await expect(readVideoMetadata(byteSource(file).source)).resolves.toHaveProperty('DateTimeOriginal');
+  });
+});
+
+describe('readRafJpeg', () => {
+  const raf = (jpeg: Uint8Array) => {
+    const header = new Uint8Array(100);
+    header.set(encoder.encode('FUJIFILMCCD-RAW 0201'));
+    new DataView(header.buffer).setUint32(84, header.length);
+    new DataView(header.buffer).setUint32(88, jpeg.length);
+    return concat(header, jpeg);
+  };
+
+  it('returns the embedded JPEG', async () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 1, 2, 3]);
+    expect(await readRafJpeg(byteSource(raf(jpeg)).source)).toEqual(jpeg);
+  });
+
+  it('rejects files that are not RAF', async () => {
+    await expect(readRafJpeg(byteSource(new Uint8Array(200)).source)).rejects.toThrow('不是有效的 RAF 檔案');
+    await expect(readRafJpeg(byteSource(encoder.encode('FUJIFILMCCD-RAW')).source)).rejects.toThrow('不是有效的 RAF 檔案');
+  });
+});
+
+describe('readMediaMetadata', () => {
+  it('picks the reader from the file extension', async () => {
+    const parsed: (Uint8Array | undefined)[] = [];
+    const parseImage = async (embedded?: Uint8Array) => {
+      parsed.push(embedded);
+      return { Model: 'image' };
+    };
+    const empty = byteSource(new Uint8Array(0)).source;
+    expect(await readMediaMetadata('DSC0001.JPG', empty, parseImage)).toEqual({ Model: 'image' });
+    expect(parsed).toEqual([undefined]);
+    await expect(readMediaMetadata('clip.MOV', empty, parseImage)).rejects.toThrow('moov');
+    await expect(readMediaMetadata('DSCF0001.RAF', empty, parseImage)).rejects.toThrow('RAF');
+  });
+});
@@ -0,0 +1,306 @@
+// src/stats/media.ts
+// Metadata of files exifr cannot read by itself: MP4/MOV videos, and Fujifilm RAF files whose EXIF
+// lives in an embedded JPEG. Files are read through a ByteSource, so the same code works on
+// browser Files, Node file handles and HTTP Range requests.
+import type { ExifData } from './types';
+import { getFileFormat } from './formats';
+import { parseExifOffset, toWallClockDate } from './timeline';
+
+// Random access to the bytes of a file; reads past the end return the bytes that exist
+export interface ByteSource {
+  size: number;
+  read: (offset: number, length: number) => Promise<Uint8Array>;
+}
+
+// ByteSource of a browser File (or Blob)
+export const blobByteSource = (blob: Blob): ByteSource => ({
+  size: blob.size,
+  read: async (offset, length) => new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer()),
+});
+
+// The movie box holds the sample tables of every track, so long clips have large ones; larger boxes are not read
+const MAX_MOVIE_BOX_SIZE = 64 * 1024 * 1024;
+
+// Seconds from the QuickTime epoch (1904-01-01) to the Unix epoch
+const QUICKTIME_EPOCH_OFFSET = 2082844800;
+
+interface Box {
+  type: string;
+  // Offset and size of the payload, after the header
+  start: number;
+  size: number;
+}
+
+const textDecoder = new TextDecoder();
+
+const readType = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+// Parse one box header at offset, with end the end of the bytes read and containerEnd the end of the
+// enclosing box or file; size 1 means a 64-bit size follows, size 0 runs to the end of the container
+const parseBoxHeader = (view: DataView, offset: number, end: number, containerEnd = end): Box | undefined => {
+  if (offset + 8 > end) return undefined;
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  let size = view.getUint32(offset);
+  let headerSize = 8;
+  if (size === 1) {
+    if (offset + 16 > end) return undefined;
+    size = Number(view.getBigUint64(offset + 8));
+    headerSize = 16;
+  } else if (size === 0) {
+    size = containerEnd - offset;
+  }
+  if (size < headerSize) return undefined;
+  return { type: readType(bytes, offset + 4), start: offset + headerSize, size: size - headerSize };
+};
+
+// The child boxes of a payload that has been read into memory; a box cut off by the end of a
+// truncated file, and everything after it, is left out
+const listBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  const limit = Math.min(end, view.byteLength);
+  let offset = start;
+  while (offset < limit) {
+    const box = parseBoxHeader(view, offset, limit, end);
+    if (!box || box.start + box.size > limit) break;
+    boxes.push(box);
+    offset = box.start + box.size;
+  }
+  return boxes;
+};
+
+// The fields that have a value, so that merging them does not erase earlier ones
+const definedFields = (data: ExifData): ExifData =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined && value !== ''));
+
+// Position ±DD.DDDD±DDD.DDDD[±AAA.AAA] as written by cameras and phones (ISO 6709)
+const parseIso6709 = (text: string): Pick<ExifData, 'GPSLatitude' | 'GPSLongitude' | 'GPSAltitude'> => {
+  const match = text.match(/^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)?/);
+  if (!match) return {};
+  const [latitude, longitude] = [Number(match[1]), Number(match[2])];
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180 || (latitude === 0 && longitude === 0)) return {};
+  return {
+    GPSLatitude: latitude,
+    GPSLongitude: longitude,
+    GPSAltitude: match[3] !== undefined ? Number(match[3]) : undefined,
+  };
+};
+
+// Creation date with an optional offset, e.g. "2024-05-01T10:12:13+0900"
+const parseCreationDate = (text: string): Pick<ExifData, 'DateTimeOriginal' | 'OffsetTimeOriginal'> => {
+  const offset = text.trim().match(/([+-]\d{2}:?\d{2})$/);
+  return { DateTimeOriginal: toWallClockDate(text), OffsetTimeOriginal: offset ? parseExifOffset(offset[1]) : undefined };
+};
+
+const toPositiveNumber = (text: string | undefined): number | undefined => {
+  const value = text === undefined ? NaN : parseFloat(text);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+// Sony's NonRealTimeMeta XML: the camera, lens and local creation time
+const parseSonyXml = (xml: string): ExifData => {
+  const attribute = (element: string, name: string) =>
+    xml.match(new RegExp(`<${element}\\b[^>]*\\b${name}="([^"]*)"`))?.[1]?.trim() || undefined;
+  const creationDate = attribute('CreationDate', 'value');
+  return {
+    Make: attribute('Device', 'manufacturer'),
+    Model: attribute('Device', 'modelName'),
+    LensModel: attribute('Lens', 'modelName'),
+    ...(creationDate ? parseCreationDate(creationDate) : {}),
+  };
+};
+
+// Apple and Android metadata keys (moov/meta keys + ilst) and what they map to
+const METADATA_KEYS: { [key: string]: (value: string) => ExifData } = {
+  'com.apple.quicktime.make': value => ({ Make: value }),
+  'com.apple.quicktime.model': value => ({ Model: value }),
+  'com.apple.quicktime.software': value => ({ Software: value }),
+  'com.apple.quicktime.creationdate': parseCreationDate,
+  'com.apple.quicktime.location.ISO6709': parseIso6709,
+  'com.apple.quicktime.camera.lens_model': value => ({ LensModel: value }),
+  'com.apple.quicktime.camera.focal_length.35mm_equivalent': value => ({ FocalLengthIn35mmFormat: toPositiveNumber(value) }),
+  'com.android.manufacturer': value => ({ Make: value }),
+  'com.android.model': value => ({ Model: value }),
+  'com.android.version': value => ({ Software: `Android ${value}` }),
+};
+
+// QuickTime user data atoms (moov/udta), stored as a length, a language code and the text
+const USER_DATA_ATOMS: { [type: string]: (value: string) => ExifData } = {
+  '©mak': value => ({ Make: value }),
+  '©mod': value => ({ Model: value }),
+  '©swr': value => ({ Software: value }),
+  '©day': parseCreationDate,
+  '©xyz': parseIso6709,
+};
+
+// The value of an ilst item: its data box holds a type code (1 = UTF-8, 21/22 = integers, 23 = float) and the value
+const readItemValue = (view: DataView, item: Box): string | undefined => {
+  const data = listBoxes(view, item.start, item.start + item.size).find(box => box.type === 'data');
+  if (!data || data.size < 8) return undefined;
+  const type = view.getUint32(data.start) & 0xffffff;
+  const start = data.start + 8;
+  const length = data.size - 8;
+  if (type === 1) return textDecoder.decode(new Uint8Array(view.buffer, view.byteOffset + start, length));
+  if ((type === 21 || type === 22) && length > 0 && length <= 4) {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = value * 256 + view.getUint8(start + i);
+    return String(value);
+  }
+  if (type === 23 && length === 4) return String(view.getFloat32(start));
+  return undefined;
+};
+
+// Read a metadata box: Apple-style keys and items, or Sony's XML. ISO meta boxes carry version and flags
+// before their children, QuickTime ones do not; a zero word tells them apart.
+const readMetaBox = (view: DataView, meta: Box): ExifData => {
+  const start = meta.size >= 4 && view.getUint32(meta.start) === 0 ? meta.start + 4 : meta.start;
+  const children = listBoxes(view, start, meta.start + meta.size);
+  const result: ExifData = {};
+  const xml = children.find(box => box.type === 'xml ');
+  if (xml && xml.size > 4) {
+    const text = textDecoder.decode(new Uint8Array(view.buffer, view.byteOffset + xml.start + 4, xml.size - 4));
+    Object.assign(result, definedFields(parseSonyXml(text)));
+  }
+  const keysBox = children.find(box => box.type === 'keys');
+  const items = children.find(box => box.type === 'ilst');
+  if (keysBox && items && keysBox.size >= 8) {
+    const keys: string[] = [];
+    let offset = keysBox.start + 8;
+    const count = view.getUint32(keysBox.start + 4);
+    for (let i = 0; i < count && offset + 8 <= keysBox.start + keysBox.size; i++) {
+      const size = view.getUint32(offset);
+      if (size < 8 || offset + size > keysBox.start + keysBox.size) break;
+      keys.push(textDecoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 8, size - 8)));
+      offset += size;
+    }
+    listBoxes(view, items.start, items.start + items.size).forEach(item => {
+      // Items are typed by the 1-based index of their key
+      const key = keys[view.getUint32(item.start - 4) - 1];
+      const value = key && readItemValue(view, item)?.trim();
+      if (value && METADATA_KEYS[key]) Object.assign(result, definedFields(METADATA_KEYS[key](value)));
+    });
+  }
+  return result;
+};
+
+const readUserData = (view: DataView, udta: Box): ExifData => {
+  const result: ExifData = {};
+  listBoxes(view, udta.start, udta.start + udta.size).forEach(atom => {
+    if (atom.type === 'meta') {
+      Object.assign(result, readMetaBox(view, atom));
+    } else if (USER_DATA_ATOMS[atom.type] && atom.size > 4) {
+      const length = Math.min(view.getUint16(atom.start), atom.size - 4);
+      const value = textDecoder.decode(new Uint8Array(view.buffer, view.byteOffset + atom.start + 4, length)).trim();
+      if (value) Object.assign(result, definedFields(USER_DATA_ATOMS[atom.type](value)));
+    } else if (atom.type === 'CNMN' && atom.size > 0) {
+      // Canon writes its model name in an atom of its own
+      const value = textDecoder.decode(new Uint8Array(view.buffer, view.byteOffset + atom.start, atom.size)).replace(/\0+$/, '').trim();
+      if (value) Object.assign(result, { Make: result.Make ?? 'Canon', Model: value });
+    }
+  });
+  return result;
+};
+
+// Creation time of the movie header. QuickTime defines it as UTC, but cameras write their local clock,
+// so it is kept as a wall-clock time without an offset.
+const readMovieHeaderDate = (view: DataView, mvhd: Box): Date | undefined => {
+  if (mvhd.size < 12) return undefined;
+  const seconds = view.getUint8(mvhd.start) === 1 ? Number(view.getBigUint64(mvhd.start + 4)) : view.getUint32(mvhd.start + 4);
+  return seconds > QUICKTIME_EPOCH_OFFSET ? new Date((seconds - QUICKTIME_EPOCH_OFFSET) * 1000) : undefined;
+};
+
+// Frame size of the video track: the track header ends with its 16.16 fixed-point width and height,
+// which are zero for audio and metadata tracks
+const readFrameSize = (view: DataView, moov: Box): Pick<ExifData, 'ExifImageWidth' | 'ExifImageHeight'> => {
+  let best: Pick<ExifData, 'ExifImageWidth' | 'ExifImageHeight'> = {};
+  listBoxes(view, moov.start, moov.start + moov.size)
+    .filter(box => box.type === 'trak')
+    .forEach(trak => {
+      const tkhd = listBoxes(view, trak.start, trak.start + trak.size).find(box => box.type === 'tkhd');
+      if (!tkhd || tkhd.size < 8) return;
+      const width = Math.round(view.getUint32(tkhd.start + tkhd.size - 8) / 65536);
+      const height = Math.round(view.getUint32(tkhd.start + tkhd.size - 4) / 65536);
+      if (width * height > (best.ExifImageWidth ?? 0) * (best.ExifImageHeight ?? 0)) {
+        best = { ExifImageWidth: width, ExifImageHeight: height };
+      }
+    });
+  return best;
+};
+
+/*
+ * Read the metadata of an MP4 or MOV file. Only the box headers are read until the movie box (and any
+ * top-level meta box) is found, so the media data, usually most of the file, is skipped. Fields come
+ * from, in increasing priority: the movie and track headers, QuickTime user data, and the metadata
+ * keys or XML written by phones and cameras.
+ */
+export const readVideoMetadata = async (source: ByteSource): Promise<ExifData> => {
+  const wanted: { box: Box; bytes: Uint8Array }[] = [];
+  let offset = 0;
+  while (offset + 8 <= source.size) {
+    const header = await source.read(offset, 16);
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    const box = parseBoxHeader(view, 0, header.length, source.size - offset);
+    if (!box) break;
+    if ((box.type === 'moov' || box.type === 'meta') && box.size <= MAX_MOVIE_BOX_SIZE) {
+      wanted.push({ box, bytes: await source.read(offset, box.start + box.size) });
+    }
+    offset += box.start + box.size;
+  }
+  const moov = wanted.find(({ box }) => box.type === 'moov');
+  if (!moov) throw new Error('找不到影片的 moov 資訊區塊');
+
+  const result: ExifData = {};
+  wanted.forEach(({ box, bytes }) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (box.type === 'meta') {
+      Object.assign(result, definedFields(readMetaBox(view, box)));
+      return;
+    }
+    const children = listBoxes(view, box.start, box.start + box.size);
+    const mvhd = children.find(child => child.type === 'mvhd');
+    const header: ExifData = {
+      DateTimeOriginal: mvhd && readMovieHeaderDate(view, mvhd),
+      ...readFrameSize(view, box),
+    };
+    const udta = children.find(child => child.type === 'udta');
+    const meta = children.find(child => child.type === 'meta');
+    Object.assign(
+      result,
+      definedFields(header),
+      udta ? definedFields(readUserData(view, udta)) : {},
+      meta ? definedFields(readMetaBox(view, meta)) : {}
+    );
+  });
+  return result;
+};
+
+// Fujifilm RAF: a fixed header whose big-endian words at 84 and 88 locate an embedded JPEG with the full EXIF
+const RAF_MAGIC = 'FUJIFILMCCD-RAW';
+const RAF_JPEG_SAMPLE_SIZE = 256 * 1024;
+
+// The start of the JPEG embedded in a RAF file, enough for its EXIF segment
+export const readRafJpeg = async (source: ByteSource): Promise<Uint8Array> => {
+  const header = await source.read(0, 92);
+  if (header.length < 92 || textDecoder.decode(header.subarray(0, RAF_MAGIC.length)) !== RAF_MAGIC) {
+    throw new Error('不是有效的 RAF 檔案');
+  }
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  const offset = view.getUint32(84);
+  const length = view.getUint32(88);
+  return source.read(offset, Math.min(length, RAF_JPEG_SAMPLE_SIZE));
+};
+
+/*
+ * Metadata of any scanned file. Videos and RAF files are read here; everything else goes to parseImage,
+ * which runs exifr on the file itself (or on the bytes given, for RAF) in the caller's environment.
+ */
+export const readMediaMetadata = async (
+  filename: string,
+  source: ByteSource,
+  parseImage: (embedded?: Uint8Array) => Promise<ExifData>
+): Promise<ExifData> => {
+  const format = getFileFormat(filename);
+  if (format?.kind === 'video') return readVideoMetadata(source);
+  if (format?.id === 'fujifilm') return parseImage(await readRafJpeg(source));
+  return parseImage();
+};
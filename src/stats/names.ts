@@ -0,0 +1,165 @@
+// src/stats/names.ts
+// Display names for cameras and lenses: built-in tables, Make-aware cleanup and user alias rules.
+import type { PhotoData } from './types';
+import { UNKNOWN_LENS, UNKNOWN_MODEL, getLensKey, getModelKey } from './quality';
+
+export type NameField = 'model' | 'lens';
+
+// A user rule: values matching `match` (the exact name, case-insensitive, or a "/regex/") are shown as `name`.
+// match is tested against both the EXIF value and its cleaned-up name; rules sharing a name merge entries.
+export interface NameRule {
+  id: string;
+  field: NameField;
+  match: string;
+  name: string;
+}
+
+export interface NameTables {
+  // EXIF Make → manufacturer name
+  makeNames?: { [make: string]: string };
+  // EXIF Model → friendly name
+  modelNames?: { [model: string]: string };
+  rules?: NameRule[];
+}
+
+export interface NameNormalizer {
+  model: (photo: PhotoData) => string;
+  lens: (photo: PhotoData) => string;
+  // The EXIF values shown under a name, for tooltips
+  variants: (field: NameField, name: string) => string[];
+}
+
+// The EXIF values as they are, only making missing ones explicit
+export const RAW_NAMES: NameNormalizer = {
+  model: getModelKey,
+  lens: getLensKey,
+  variants: (_field, name) => [name],
+};
+
+// LensModel values written when no lens (or a manual one) was attached
+const NO_LENS_VALUES = [/^-+$/, /^0(\.0)?\s*mm\s*f\/?0(\.0)?$/i, /^none$/i];
+
+const collapseSpaces = (value: string) => value.trim().replace(/\s+/g, ' ');
+
+// Spellings that differ only in case, spacing, dashes or "f/2.8" versus "F2.8" compare equal
+const comparisonKey = (value: string) =>
+  value.normalize('NFKC').toLowerCase().replace(/f\/(?=\d)/g, 'f').replace(/[\s_-]+/g, '');
+
+const firstWord = (value: string) => value.split(' ')[0].toLowerCase();
+
+export const matchesNameRule = (rule: NameRule, values: string[]): boolean => {
+  const regex = rule.match.match(/^\/(.+)\/$/);
+  if (regex) {
+    try {
+      const pattern = new RegExp(regex[1], 'i');
+      return values.some(value => pattern.test(value));
+    } catch {
+      return false;
+    }
+  }
+  const match = collapseSpaces(rule.match).toLowerCase();
+  return match !== '' && values.some(value => value.toLowerCase() === match);
+};
+
+/*
+ * Build the names for a set of photos. A model is named by the friendly-name table, or else by its
+ * manufacturer followed by the model without a repeated brand ("NIKON CORPORATION" + "NIKON Z 8"
+ * gives "Nikon Z 8"). Photos without Make borrow it from other photos of the same model, so a NAS
+ * import and a local scan of one camera end up under one name. Lens names drop a leading brand and
+ * placeholder values. Spellings that only differ in case, spacing or punctuation are merged under
+ * their most common form, then the user's rules are applied.
+ */
+export const createNameNormalizer = (photos: PhotoData[], tables: NameTables = {}): NameNormalizer => {
+  const { makeNames = {}, modelNames = {}, rules = [] } = tables;
+  const makeLookup = new Map(Object.entries(makeNames).map(([make, name]) => [make.toLowerCase(), name]));
+  const brands = new Set(Object.values(makeNames).map(name => name.toLowerCase()));
+
+  const toMakeName = (make: string) => makeLookup.get(make.toLowerCase()) ?? make;
+
+  // Learn each model's manufacturer from the photos that have one
+  const learnedMakes = new Map<string, string>();
+  photos.forEach(({ exif }) => {
+    const model = exif.Model && collapseSpaces(exif.Model);
+    if (model && exif.Make?.trim() && !learnedMakes.has(model)) {
+      learnedMakes.set(model, collapseSpaces(exif.Make));
+    }
+  });
+
+  const cleanModel = (rawModel: string, rawMake: string | undefined): string => {
+    const friendly = modelNames[rawModel];
+    if (friendly) return friendly;
+    const exifMake = rawMake?.trim() ? collapseSpaces(rawMake) : learnedMakes.get(rawModel);
+    if (!exifMake) return rawModel;
+    const make = toMakeName(exifMake);
+    const words = rawModel.split(' ');
+    // Drop a brand the model repeats, in either spelling
+    const repeatsBrand = words.length > 1 && [firstWord(exifMake), firstWord(make)].includes(words[0].toLowerCase());
+    return `${make} ${repeatsBrand ? words.slice(1).join(' ') : rawModel}`;
+  };
+
+  const cleanLens = (rawLens: string): string => {
+    const words = rawLens.split(' ');
+    return words.length > 1 && brands.has(words[0].toLowerCase()) ? words.slice(1).join(' ') : rawLens;
+  };
+
+  const modelOf = (photo: PhotoData): [raw: string, clean: string] | undefined => {
+    const raw = photo.exif.Model && collapseSpaces(photo.exif.Model);
+    return raw ? [raw, cleanModel(raw, photo.exif.Make)] : undefined;
+  };
+  const lensOf = (photo: PhotoData): [raw: string, clean: string] | undefined => {
+    const raw = photo.exif.LensModel && collapseSpaces(photo.exif.LensModel);
+    return raw && !NO_LENS_VALUES.some(pattern => pattern.test(raw)) ? [raw, cleanLens(raw)] : undefined;
+  };
+
+  // Pick the most common spelling of every comparison key
+  const pickSpellings = (values: string[]) => {
+    const counts = new Map<string, Map<string, number>>();
+    values.forEach(value => {
+      const key = comparisonKey(value);
+      const spellings = counts.get(key) ?? new Map<string, number>();
+      spellings.set(value, (spellings.get(value) ?? 0) + 1);
+      counts.set(key, spellings);
+    });
+    const spellings = new Map<string, string>();
+    counts.forEach((byCount, key) => {
+      spellings.set(key, Array.from(byCount).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0]);
+    });
+    return spellings;
+  };
+  const modelSpellings = pickSpellings(photos.flatMap(photo => modelOf(photo)?.[1] ?? []));
+  const lensSpellings = pickSpellings(photos.flatMap(photo => lensOf(photo)?.[1] ?? []));
+
+  const variants = { model: new Map<string, Set<string>>(), lens: new Map<string, Set<string>>() };
+  // Names are looked up for every photo on every filter pass, so remember them
+  const resolved = new Map<string, string>();
+
+  const resolve = (field: NameField, value: [raw: string, clean: string] | undefined, spellings: Map<string, string>) => {
+    if (!value) return field === 'model' ? UNKNOWN_MODEL : UNKNOWN_LENS;
+    const [raw, clean] = value;
+    const cacheKey = `${field}\u0000${raw}\u0000${clean}`;
+    const cached = resolved.get(cacheKey);
+    if (cached !== undefined) return cached;
+    const merged = spellings.get(comparisonKey(clean)) ?? clean;
+    const rule = rules.find(r => r.field === field && r.name.trim() && matchesNameRule(r, [raw, merged]));
+    const name = rule ? rule.name.trim() : merged;
+    const seen = variants[field].get(name) ?? new Set<string>();
+    seen.add(raw);
+    variants[field].set(name, seen);
+    resolved.set(cacheKey, name);
+    return name;
+  };
+
+  const model = (photo: PhotoData) => resolve('model', modelOf(photo), modelSpellings);
+  const lens = (photo: PhotoData) => resolve('lens', lensOf(photo), lensSpellings);
+  // Resolve every photo up front so variants are complete
+  photos.forEach(photo => {
+    model(photo);
+    lens(photo);
+  });
+
+  return {
+    model,
+    lens,
+    variants: (field, name) => Array.from(variants[field].get(name) ?? [name]).sort(),
+  };
+};
@@ -0,0 +1,47 @@
+// src/stats/quality.ts
+import type { ExifData, PhotoData } from './types';
+
+// Explicit filter and chart entries for photos without a camera or lens
+export const UNKNOWN_MODEL = 'Unknown camera';
+export const UNKNOWN_LENS = 'Unknown lens';
+
+// A file that was found but whose metadata could not be read
+export interface ScanFailure {
+  filename: string;
+  folderPath: string;
+  reason: string;
+}
+
+// Fields reported as missing in the data quality report
+export const QUALITY_FIELDS: (keyof ExifData)[] = [
+  'Make',
+  'Model',
+  'LensModel',
+  'FocalLength',
+  'FocalLengthIn35mmFormat',
+  'FNumber',
+  'ExposureTime',
+  'ISOSpeedRatings',
+  'DateTimeOriginal',
+];
+
+// Camera model used for filtering and grouping, with missing values made explicit
+export const getModelKey = (photo: PhotoData): string => photo.exif.Model || UNKNOWN_MODEL;
+
+// Lens model used for filtering and grouping, with missing values made explicit
+export const getLensKey = (photo: PhotoData): string => photo.exif.LensModel || UNKNOWN_LENS;
+
+// Count how many photos lack each field
+export const countMissingFields = (photos: PhotoData[]): { [field: string]: number } => {
+  const missing: { [field: string]: number } = {};
+  QUALITY_FIELDS.forEach(field => missing[field] = 0);
+  photos.forEach(photo => {
+    QUALITY_FIELDS.forEach(field => {
+      const value = photo.exif[field];
+      if (value === undefined || value === null || value === '') {
+        missing[field]++;
+      }
+    });
+  });
+  return missing;
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { compileQuery, QueryError } from './query';
+import type { ExifData, PhotoData } from './types';
+
+const photo = (filename: string, exif: ExifData = {}, folderPath = 'Trips'): PhotoData => ({
+  id: filename,
+  source: 'local',
+  filename,
+  exif,
+  folderPath,
+});
+
+const matching = (query: string, photos: PhotoData[]) => {
+  const test = compileQuery(query);
+  if (!test) throw new Error('empty query');
+  return photos.filter(p => test(p)).map(p => p.filename);
+};
+
+// The error a query throws, with the text it points at
+const errorOf = (query: string) => {
+  try {
+    compileQuery(query);
+  } catch (e) {
+    if (e instanceof QueryError) return { message: e.message, text: query.slice(e.start, e.end) };
+    throw e;
+  }
+  throw new Error(`"${query}" compiled`);
+};
+
+describe('compileQuery', () => {
+  const library = [
+    photo('a.jpg', { LensModel: 'Canon EF 24-70mm', ISOSpeedRatings: 100, ExposureTime: 1 / 250 }),
+    photo('b.jpg', { LensModel: 'canon RF 50mm', ISOSpeedRatings: 6400, ExposureTime: 1 / 30 }),
+    photo('c.jpg', { LensModel: 'FE 70-200mm GM', ISOSpeedRatings: 3200 }),
+    photo('d.jpg', {}, 'Drafts'),
+  ];
+
+  it('returns undefined for an empty expression', () => {
+    expect(compileQuery('   ')).toBeUndefined();
+  });
+
+  it('compares numbers, text and photo-style values', () => {
+    expect(matching('iso > 3200', library)).toEqual(['b.jpg']);
+    expect(matching('iso >= 3200', library)).toEqual(['b.jpg', 'c.jpg']);
+    expect(matching('shutter = 1/250', library)).toEqual(['a.jpg']);
+    expect(matching('lens:"70-200"', library)).toEqual(['c.jpg']);
+    expect(matching('lens:*', library)).toEqual(['a.jpg', 'b.jpg', 'c.jpg']);
+    expect(matching('iso:100..3200', library)).toEqual(['a.jpg', 'c.jpg']);
+  });
+
+  it('combines terms with AND, OR, NOT and parentheses', () => {
+    expect(matching('lens:canon iso < 1000', library)).toEqual(['a.jpg']);
+    expect(matching('iso < 200 OR iso > 5000', library)).toEqual(['a.jpg', 'b.jpg']);
+    expect(matching('NOT (lens:canon || Drafts)', library)).toEqual(['c.jpg']);
+  });
+
+  it('gives the same regex result for every photo, whatever the order', () => {
+    const canon = [library[0], library[1], library[0], library[1]];
+    expect(matching('lens:/canon/', canon)).toEqual(['a.jpg', 'b.jpg', 'a.jpg', 'b.jpg']);
+    expect(matching('lens:/^canon/m', canon)).toEqual(['a.jpg', 'b.jpg', 'a.jpg', 'b.jpg']);
+    expect(matching('lens ~ "canon"', canon)).toEqual(['a.jpg', 'b.jpg', 'a.jpg', 'b.jpg']);
+  });
+
+  it('matches regexes case-insensitively unless the c flag is given', () => {
+    expect(matching('lens:/gm$/', library)).toEqual(['c.jpg']);
+    expect(matching('lens:/^canon/s', library)).toEqual(['a.jpg', 'b.jpg']);
+    expect(matching('lens:/^canon/c', library)).toEqual(['b.jpg']);
+  });
+
+  it('rejects stateful regex flags', () => {
+    expect(errorOf('lens:/canon/g')).toEqual({ message: '正規表示式不能使用「g」旗標', text: '/canon/g' });
+    expect(errorOf('/canon/y').message).toBe('正規表示式不能使用「y」旗標');
+  });
+
+  it('points at the offending part of an invalid expression', () => {
+    expect(errorOf('lens:/canon')).toEqual({ message: '正規表示式缺少結尾的 /', text: '/canon' });
+    expect(errorOf('lens:"canon').message).toBe('字串缺少結尾的 "');
+    expect(errorOf('lens:/(/').message).toMatch(/^無效的正規表示式/);
+    expect(errorOf('lens:/x/q').message).toMatch(/^無效的正規表示式/);
+    expect(errorOf('iso:/100/').message).toBe('ISOSpeedRatings 是數值欄位，不能用正規表示式比對');
+    expect(errorOf('colour = red')).toEqual({ message: '未知的欄位「colour」', text: 'colour' });
+    expect(errorOf('iso >').text).toBe('iso >');
+    expect(errorOf('(iso > 100').message).toBeTruthy();
+    expect(errorOf('iso > 100)').message).toBe('多了一個 )');
+  });
+});
@@ -0,0 +1,540 @@
+// src/stats/query.ts
+// Filter expressions over EXIF fields, folder and file name, e.g.
+//   iso > 3200 lens:"70-200" date:2024 NOT folder:Drafts
+import type { ExifData, PhotoData } from './types';
+import { RAW_NAMES, type NameNormalizer } from './names';
+import { formatShutterSpeed } from './exposure';
+
+export type QueryFieldType = 'number' | 'date' | 'text';
+
+// Every EXIF field can be queried; adding one to ExifData without a type here fails to compile
+const EXIF_FIELD_TYPES: Record<keyof ExifData, QueryFieldType> = {
+  Make: 'text',
+  Model: 'text',
+  LensModel: 'text',
+  ExposureTime: 'number',
+  FNumber: 'number',
+  ISOSpeedRatings: 'number',
+  DateTimeOriginal: 'date',
+  OffsetTimeOriginal: 'text',
+  FocalLength: 'number',
+  FocalLengthIn35mmFormat: 'number',
+  ExifImageWidth: 'number',
+  ExifImageHeight: 'number',
+  FocalPlaneXResolution: 'number',
+  FocalPlaneYResolution: 'number',
+  FocalPlaneResolutionUnit: 'number',
+  ExposureCompensation: 'number',
+  ExposureProgram: 'text',
+  ExposureMode: 'text',
+  MeteringMode: 'text',
+  Flash: 'text',
+  WhiteBalance: 'text',
+  Orientation: 'text',
+  BodySerialNumber: 'text',
+  LensSerialNumber: 'text',
+  Software: 'text',
+  GPSLatitude: 'number',
+  GPSLongitude: 'number',
+  GPSAltitude: 'number',
+};
+
+// Short names, all lowercase
+const FIELD_ALIASES: { [field: string]: string[] } = {
+  filename: ['file'],
+  folderPath: ['folder', 'path'],
+  Model: ['camera'],
+  LensModel: ['lens'],
+  ExposureTime: ['shutter'],
+  FNumber: ['aperture', 'f'],
+  ISOSpeedRatings: ['iso'],
+  DateTimeOriginal: ['date'],
+  FocalLength: ['focal'],
+  FocalLengthIn35mmFormat: ['focal35'],
+  ExifImageWidth: ['width'],
+  ExifImageHeight: ['height'],
+  ExposureCompensation: ['ev'],
+  ExposureProgram: ['program'],
+  MeteringMode: ['metering'],
+  WhiteBalance: ['wb'],
+  BodySerialNumber: ['serial'],
+  GPSLatitude: ['lat'],
+  GPSLongitude: ['lon'],
+  GPSAltitude: ['altitude'],
+};
+
+export interface QueryField {
+  name: string;
+  type: QueryFieldType;
+  aliases: string[];
+}
+
+export const QUERY_FIELDS: QueryField[] = [
+  { name: 'filename', type: 'text', aliases: FIELD_ALIASES.filename },
+  { name: 'folderPath', type: 'text', aliases: FIELD_ALIASES.folderPath },
+  ...(Object.keys(EXIF_FIELD_TYPES) as (keyof ExifData)[]).map(name => ({
+    name,
+    type: EXIF_FIELD_TYPES[name],
+    aliases: FIELD_ALIASES[name] ?? [],
+  })),
+];
+
+// Fields searched by a bare word, e.g. "Drafts" or "/^DSC/"
+const TEXT_SEARCH_FIELDS = ['filename', 'folderPath', 'Model', 'LensModel'];
+
+const findField = (word: string): QueryField | undefined => {
+  const lower = word.toLowerCase();
+  return QUERY_FIELDS.find(field => field.name.toLowerCase() === lower || field.aliases.includes(lower));
+};
+
+// A syntax or value error, with the character range of the expression it refers to
+export class QueryError extends Error {
+  start: number;
+  end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.name = 'QueryError';
+    this.start = start;
+    this.end = Math.max(end, start + 1);
+  }
+}
+
+type TokenKind = 'word' | 'string' | 'regex' | 'op' | 'lparen' | 'rparen' | 'and' | 'or' | 'not';
+
+interface Token {
+  kind: TokenKind;
+  // The word, the unquoted string, the regex source or the operator
+  text: string;
+  flags?: string;
+  start: number;
+  end: number;
+}
+
+const OPERATORS = ['>=', '<=', '!=', '=', '>', '<', ':', '~'];
+const WORD_END = /[\s()"'=<>!:~]/;
+const KEYWORDS: { [word: string]: TokenKind } = { and: 'and', or: 'or', not: 'not' };
+
+// Split an expression into tokens. Lenient mode, used while typing, accepts an unterminated string
+const tokenize = (text: string, lenient = false): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const start = i;
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', text: char, start, end: ++i });
+    } else if (text.startsWith('&&', i) || text.startsWith('||', i)) {
+      i += 2;
+      tokens.push({ kind: char === '&' ? 'and' : 'or', text: text.slice(start, i), start, end: i });
+    } else if (char === '!' && text[i + 1] !== '=') {
+      tokens.push({ kind: 'not', text: char, start, end: ++i });
+    } else if (OPERATORS.some(op => text.startsWith(op, i))) {
+      const op = OPERATORS.find(candidate => text.startsWith(candidate, i)) as string;
+      i += op.length;
+      tokens.push({ kind: 'op', text: op, start, end: i });
+    } else if (char === '"' || char === "'" || char === '/') {
+      // Quoted strings and /regex/flags run to the matching unescaped delimiter
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== char) {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          // Regexes keep their escapes; strings only unescape them
+          value += char === '/' && text[i + 1] !== '/' ? text.slice(i, i + 2) : text[i + 1];
+          i += 2;
+        } else {
+          value += text[i++];
+        }
+      }
+      if (i >= text.length) {
+        if (!lenient) {
+          throw new QueryError(char === '/' ? '正規表示式缺少結尾的 /' : `字串缺少結尾的 ${char}`, start, text.length);
+        }
+        tokens.push({ kind: 'string', text: value, start, end: i });
+      } else if (char === '/') {
+        i++;
+        const flags = text.slice(i).match(/^[a-z]*/)?.[0] ?? '';
+        i += flags.length;
+        tokens.push({ kind: 'regex', text: value, flags, start, end: i });
+      } else {
+        tokens.push({ kind: 'string', text: value, start, end: ++i });
+      }
+    } else {
+      while (i < text.length && !WORD_END.test(text[i])) i++;
+      const word = text.slice(start, i);
+      tokens.push({ kind: KEYWORDS[word.toLowerCase()] ?? 'word', text: word, start, end: i });
+    }
+  }
+  return tokens;
+};
+
+// Numbers as written in photo talk: 2.8, f/2.8, 1/250, 1/250s, 35mm, +0.7ev
+const parseQueryNumber = (text: string): number => {
+  const match = text.trim().toLowerCase()
+    .replace(/^f\/?(?=[\d.])/, '')
+    .replace(/(mm|s|ev)$/, '')
+    .match(/^([+-]?(?:\d+\.?\d*|\.\d+))(?:\/(\d+\.?\d*))?$/);
+  if (!match) return NaN;
+  const value = parseFloat(match[1]);
+  return match[2] ? value / parseFloat(match[2]) : value;
+};
+
+// A year, month or day as a half-open range of wall-clock milliseconds (see timeline.ts)
+const parseQueryDate = (text: string): { start: number; end: number } | undefined => {
+  const match = text.trim().match(/^(\d{4})(?:[-/](\d{1,2})(?:[-/](\d{1,2}))?)?$/);
+  if (!match) return undefined;
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) : undefined;
+  const day = match[3] ? Number(match[3]) : undefined;
+  if (month !== undefined && (month < 1 || month > 12)) return undefined;
+  if (day !== undefined && (day < 1 || day > 31)) return undefined;
+  if (month === undefined) return { start: Date.UTC(year, 0, 1), end: Date.UTC(year + 1, 0, 1) };
+  if (day === undefined) return { start: Date.UTC(year, month - 1, 1), end: Date.UTC(year, month, 1) };
+  return { start: Date.UTC(year, month - 1, day), end: Date.UTC(year, month - 1, day + 1) };
+};
+
+// A compiled expression; cameras and lenses also match by their display names
+export type PhotoQuery = (photo: PhotoData, names?: NameNormalizer) => boolean;
+
+type Test = (photo: PhotoData, names: NameNormalizer) => boolean;
+
+const getTextValues = (photo: PhotoData, field: string, names: NameNormalizer): string[] => {
+  if (field === 'filename') return [photo.filename];
+  if (field === 'folderPath') return [photo.folderPath];
+  const value = photo.exif[field as keyof ExifData];
+  if (value === undefined || value === '') return [];
+  if (field === 'Model') return [String(value), names.model(photo)];
+  if (field === 'LensModel') return [String(value), names.lens(photo)];
+  return [String(value)];
+};
+
+const getNumber = (photo: PhotoData, field: string): number | undefined => {
+  const value = photo.exif[field as keyof ExifData];
+  return typeof value === 'number' ? value : undefined;
+};
+
+const getTime = (photo: PhotoData, field: string): number | undefined => {
+  const value = photo.exif[field as keyof ExifData];
+  return value instanceof Date ? value.getTime() : undefined;
+};
+
+// Equal up to rounding in the EXIF, so 1/250 matches an exposure time of 0.004
+const isAbout = (value: number, target: number) => Math.abs(value - target) <= Math.abs(target) * 1e-3 + 1e-9;
+
+const TYPE_NAMES: Record<QueryFieldType, string> = { number: '數值', date: '日期', text: '文字' };
+
+// Build the test of one comparison, e.g. `iso > 3200`, `lens:"70-200"`, `focal:24..70`, `lens:*`
+const compileComparison = (field: QueryField, op: string, token: Token): Test => {
+  const fail = (message: string): never => {
+    throw new QueryError(message, token.start, token.end);
+  };
+  const { name, type } = field;
+
+  if (op === ':' && token.kind === 'word' && token.text === '*') {
+    return (photo, names) => (type === 'text'
+      ? getTextValues(photo, name, names).length > 0
+      : (type === 'number' ? getNumber(photo, name) : getTime(photo, name)) !== undefined);
+  }
+
+  if (token.kind === 'regex' || op === '~') {
+    if (type !== 'text') fail(`${field.name} 是${TYPE_NAMES[type]}欄位，不能用正規表示式比對`);
+    if (op !== ':' && op !== '~') fail(`正規表示式只能搭配「:」或「~」`);
+    const written = token.kind === 'regex' ? token.flags ?? '' : '';
+    // A global or sticky regex keeps lastIndex between tests, so one photo's match would shift the next
+    const stateful = written.match(/[gy]/)?.[0];
+    if (stateful) fail(`正規表示式不能使用「${stateful}」旗標`);
+    // Case-insensitive unless the "c" flag asks for case-sensitive matching
+    const flags = written.includes('c')
+      ? written.replace(/[ci]/g, '')
+      : written.includes('i') ? written : `${written}i`;
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(token.text, flags);
+    } catch (e) {
+      return fail(`無效的正規表示式：${e instanceof Error ? e.message : String(e)}`);
+    }
+    return (photo, names) => getTextValues(photo, name, names).some(value => pattern.test(value));
+  }
+
+  const range = op === ':' && token.kind === 'word' && token.text.includes('..')
+    ? token.text.split('..', 2)
+    : undefined;
+
+  if (type === 'text') {
+    if (range) fail(`${field.name} 是文字欄位，不能指定範圍`);
+    const target = token.text.toLowerCase();
+    switch (op) {
+      case ':':
+        return (photo, names) => getTextValues(photo, name, names).some(value => value.toLowerCase().includes(target));
+      case '=':
+        return (photo, names) => getTextValues(photo, name, names).some(value => value.toLowerCase() === target);
+      case '!=':
+        return (photo, names) => !getTextValues(photo, name, names).some(value => value.toLowerCase() === target);
+      default:
+        return fail(`${field.name} 是文字欄位，不能用「${op}」比較`);
+    }
+  }
+
+  if (type === 'number') {
+    const parse = (text: string) => {
+      const value = parseQueryNumber(text);
+      return isNaN(value) ? fail(`「${text}」不是數值`) : value;
+    };
+    if (range) {
+      const [low, high] = range;
+      if (!low && !high) fail('範圍至少要有一端，例如 800..3200 或 ..35');
+      const min = low ? parse(low) : -Infinity;
+      const max = high ? parse(high) : Infinity;
+      return photo => {
+        const value = getNumber(photo, name);
+        return value !== undefined && value >= min - Math.abs(min) * 1e-3 && value <= max + Math.abs(max) * 1e-3;
+      };
+    }
+    const target = parse(token.text);
+    const compare: { [op: string]: (value: number) => boolean } = {
+      ':': value => isAbout(value, target),
+      '=': value => isAbout(value, target),
+      '>': value => value > target && !isAbout(value, target),
+      '>=': value => value >= target || isAbout(value, target),
+      '<': value => value < target && !isAbout(value, target),
+      '<=': value => value <= target || isAbout(value, target),
+    };
+    if (op === '!=') {
+      return photo => {
+        const value = getNumber(photo, name);
+        return value === undefined || !isAbout(value, target);
+      };
+    }
+    const test = compare[op];
+    return photo => {
+      const value = getNumber(photo, name);
+      return value !== undefined && test(value);
+    };
+  }
+
+  // Dates compare by the year, month or day written, e.g. date:2024 or date >= 2024-03
+  const parse = (text: string) => parseQueryDate(text) ?? fail(`「${text}」不是日期，請寫成 2024、2024-03 或 2024-03-15`);
+  let accepts: (time: number) => boolean;
+  if (range) {
+    const [low, high] = range;
+    if (!low && !high) fail('範圍至少要有一端，例如 2023..2024 或 2024-06..');
+    const start = low ? parse(low).start : -Infinity;
+    const end = high ? parse(high).end : Infinity;
+    accepts = time => time >= start && time < end;
+  } else {
+    const { start, end } = parse(token.text);
+    const compare: { [op: string]: (time: number) => boolean } = {
+      ':': time => time >= start && time < end,
+      '=': time => time >= start && time < end,
+      '!=': time => time < start || time >= end,
+      '>': time => time >= end,
+      '>=': time => time >= start,
+      '<': time => time < start,
+      '<=': time => time < end,
+    };
+    accepts = compare[op];
+  }
+  if (op === '!=') {
+    return photo => {
+      const time = getTime(photo, name);
+      return time === undefined || accepts(time);
+    };
+  }
+  return photo => {
+    const time = getTime(photo, name);
+    return time !== undefined && accepts(time);
+  };
+};
+
+/*
+ * Compile a filter expression. Terms are comparisons (`iso > 3200`, `lens:"70-200"`, `focal:24..70`,
+ * `lens:/GM$/`, `lens:*`) or bare words searched in file name, folder, camera and lens. Terms combine
+ * with AND (also implied between terms), OR and NOT (or &&, ||, !) and parentheses. Returns undefined
+ * for an empty expression; throws QueryError pointing at the offending part.
+ */
+export const compileQuery = (text: string): PhotoQuery | undefined => {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) return undefined;
+  let pos = 0;
+  const startsTerm = (token: Token | undefined) =>
+    !!token && ['word', 'string', 'regex', 'not', 'lparen'].includes(token.kind);
+
+  const parseOr = (): Test => {
+    let left = parseAnd();
+    while (tokens[pos]?.kind === 'or') {
+      pos++;
+      const [a, b] = [left, parseAnd()];
+      left = (photo, names) => a(photo, names) || b(photo, names);
+    }
+    return left;
+  };
+
+  const parseAnd = (): Test => {
+    let left = parseNot();
+    while (tokens[pos]?.kind === 'and' || startsTerm(tokens[pos])) {
+      if (tokens[pos].kind === 'and') pos++;
+      const [a, b] = [left, parseNot()];
+      left = (photo, names) => a(photo, names) && b(photo, names);
+    }
+    return left;
+  };
+
+  const parseNot = (): Test => {
+    if (tokens[pos]?.kind === 'not') {
+      pos++;
+      const operand = parseNot();
+      return (photo, names) => !operand(photo, names);
+    }
+    return parseTerm();
+  };
+
+  const parseTerm = (): Test => {
+    const token = tokens[pos];
+    if (!token) {
+      throw new QueryError('篩選式不完整，後面還缺少條件', text.length, text.length);
+    }
+    if (token.kind === 'lparen') {
+      pos++;
+      const inner = parseOr();
+      if (tokens[pos]?.kind !== 'rparen') {
+        throw new QueryError('括號沒有對應的 )', token.start, tokens[pos]?.start ?? text.length);
+      }
+      pos++;
+      return inner;
+    }
+    if (token.kind === 'word' && tokens[pos + 1]?.kind === 'op') {
+      const op = tokens[pos + 1];
+      const field = findField(token.text);
+      if (!field) {
+        throw new QueryError(`未知的欄位「${token.text}」`, token.start, token.end);
+      }
+      const value = tokens[pos + 2];
+      if (!value || !['word', 'string', 'regex'].includes(value.kind)) {
+        throw new QueryError(`「${token.text}${op.text}」後面缺少比較值`, token.start, op.end);
+      }
+      pos += 3;
+      return compileComparison(field, op.text, value);
+    }
+    if (token.kind === 'word' || token.kind === 'string' || token.kind === 'regex') {
+      pos++;
+      const tests = TEXT_SEARCH_FIELDS.map(name =>
+        compileComparison(QUERY_FIELDS.find(field => field.name === name) as QueryField, ':', token));
+      return (photo, names) => tests.some(test => test(photo, names));
+    }
+    throw new QueryError(`這裡不能使用「${token.text}」`, token.start, token.end);
+  };
+
+  const test = parseOr();
+  if (pos < tokens.length) {
+    const token = tokens[pos];
+    throw new QueryError(token.kind === 'rparen' ? '多了一個 )' : `這裡不能使用「${token.text}」`, token.start, token.end);
+  }
+  return (photo, names = RAW_NAMES) => test(photo, names);
+};
+
+export interface QuerySuggestion {
+  label: string;
+  // Text that replaces the range from..to of the expression
+  insert: string;
+  detail?: string;
+}
+
+export interface QueryCompletion {
+  from: number;
+  to: number;
+  suggestions: QuerySuggestion[];
+}
+
+const MAX_SUGGESTIONS = 12;
+
+// Bare when the tokenizer reads it back as one word, quoted otherwise
+const quoteQueryValue = (value: string): string =>
+  value !== '' && !WORD_END.test(value) && !value.startsWith('/') && !KEYWORDS[value.toLowerCase()]
+    ? value
+    : `"${value.replace(/[\\"]/g, '\\$&')}"`;
+
+/*
+ * Build the autocompletion of expressions over a set of photos: field names where a term starts,
+ * AND/OR/NOT after a term, and the values present in the photos after a field and operator.
+ */
+export const createQueryCompleter = (photos: PhotoData[], names: NameNormalizer = RAW_NAMES) => {
+  const valueCache = new Map<string, string[]>();
+
+  // Values of a field, most common first; dates list their years and months, newest first
+  const valuesOf = (field: QueryField): string[] => {
+    const cached = valueCache.get(field.name);
+    if (cached) return cached;
+    const counts = new Map<string, number>();
+    const add = (value: string) => counts.set(value, (counts.get(value) ?? 0) + 1);
+    photos.forEach(photo => {
+      if (field.type === 'text') {
+        const values = getTextValues(photo, field.name, names);
+        // Cameras and lenses are suggested by their display names, as in the filter lists
+        (field.name === 'Model' || field.name === 'LensModel' ? values.slice(1) : values).forEach(add);
+      } else if (field.type === 'number') {
+        const value = getNumber(photo, field.name);
+        if (value === undefined) return;
+        add(field.name === 'ExposureTime' ? formatShutterSpeed(value) : String(Number(value.toFixed(2))));
+      } else {
+        const time = getTime(photo, field.name);
+        if (time === undefined) return;
+        const iso = new Date(time).toISOString();
+        add(iso.slice(0, 4));
+        add(iso.slice(0, 7));
+      }
+    });
+    const values = Array.from(counts.keys()).sort(field.type === 'date'
+      ? (a, b) => b.slice(0, 4).localeCompare(a.slice(0, 4)) || a.length - b.length || b.localeCompare(a)
+      : (a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0) || a.localeCompare(b, undefined, { numeric: true }));
+    valueCache.set(field.name, values);
+    return values;
+  };
+
+  return (text: string, cursor: number): QueryCompletion => {
+    let tokens: Token[];
+    try {
+      tokens = tokenize(text.slice(0, cursor), true);
+    } catch {
+      return { from: cursor, to: cursor, suggestions: [] };
+    }
+    const last = tokens[tokens.length - 1];
+    // The word or string being typed, if the cursor is right after it
+    const current = last && last.end === cursor && (last.kind === 'word' || last.kind === 'string') ? last : undefined;
+    const previous = tokens[tokens.length - (current ? 2 : 1)];
+    const from = current ? current.start : cursor;
+    const prefix = current ? current.text.toLowerCase() : '';
+
+    if (previous?.kind === 'op') {
+      const fieldToken = tokens[tokens.length - (current ? 3 : 2)];
+      const field = fieldToken?.kind === 'word' ? findField(fieldToken.text) : undefined;
+      const suggestions = field
+        ? valuesOf(field)
+          .filter(value => value.toLowerCase().includes(prefix))
+          .slice(0, MAX_SUGGESTIONS)
+          .map(value => ({ label: value, insert: `${quoteQueryValue(value)} ` }))
+        : [];
+      return { from, to: cursor, suggestions };
+    }
+    // Free text being typed in quotes has nothing to complete
+    if (current?.kind === 'string') {
+      return { from: cursor, to: cursor, suggestions: [] };
+    }
+
+    const afterTerm = !!previous && ['word', 'string', 'regex', 'rparen'].includes(previous.kind);
+    const keywords = afterTerm
+      ? ['AND', 'OR', 'NOT']
+        .filter(keyword => keyword.toLowerCase().startsWith(prefix))
+        .map(keyword => ({ label: keyword, insert: `${keyword} ` }))
+      : [];
+    const fields = QUERY_FIELDS.flatMap(field => {
+      const alias = field.aliases.find(candidate => candidate.startsWith(prefix));
+      const label = field.name.toLowerCase().startsWith(prefix) ? field.name : alias;
+      if (!label) return [];
+      const otherNames = [field.name, ...field.aliases].filter(name => name !== label);
+      return [{ label, insert: label, detail: `${TYPE_NAMES[field.type]}${otherNames.length ? `，同 ${otherNames.join('、')}` : ''}` }];
+    });
+    return { from, to: cursor, suggestions: [...keywords, ...fields].slice(0, MAX_SUGGESTIONS) };
+  };
+};
@@ -0,0 +1,131 @@
+// src/stats/report.ts
+import type { CropFactorMap, LensFactorRule } from '../cameraData';
+import type { AggregateResult } from './aggregate';
+import type { ExifData, PhotoData } from './types';
+import { getEquivalentFocalLength } from './focalLength';
+import { formatWallClock, WEEKDAY_LABELS } from './timeline';
+
+// One row of aggregated statistics
+export interface StatRow {
+  label: string;
+  count: number;
+  percentage: number;
+}
+
+// Convert an aggregate result to rows with percentages (rounded to 0.1%)
+export const toStatRows = (result: AggregateResult): StatRow[] =>
+  result.labels.map((label, i) => ({
+    label,
+    count: result.counts[i],
+    percentage: result.total > 0 ? Math.round((result.counts[i] / result.total) * 1000) / 10 : 0,
+  }));
+
+// Quote a CSV field when it contains separators, quotes or line breaks
+export const escapeCsvField = (value: string | number): string => {
+  const str = String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+// Format records as CSV with a header line; missing values become empty fields
+export const formatCsv = <T extends object>(columns: (keyof T & string)[], records: T[]): string => {
+  const lines = [columns.map(escapeCsvField).join(',')];
+  records.forEach(record => {
+    lines.push(columns.map(column => {
+      const value = record[column];
+      return value === undefined || value === null ? '' : escapeCsvField(value as string | number);
+    }).join(','));
+  });
+  return lines.join('\n') + '\n';
+};
+
+// Format rows as CSV with a header line
+export const formatStatsCsv = (rows: StatRow[]): string => formatCsv(['label', 'count', 'percentage'], rows);
+
+// Format rows as JSON
+export const formatStatsJson = (rows: StatRow[]): string => JSON.stringify(rows, null, 2) + '\n';
+
+// Format a weekday × hour matrix (see buildHourWeekdayMatrix) as CSV, one row per weekday
+export const formatHeatmapCsv = (matrix: number[][]): string => {
+  const lines = [['weekday', ...matrix[0].map((_, hour) => String(hour))].join(',')];
+  matrix.forEach((counts, weekday) => lines.push([WEEKDAY_LABELS[weekday], ...counts].join(',')));
+  return lines.join('\n') + '\n';
+};
+
+// Format a weekday × hour matrix as JSON, with the weekday of each row
+export const formatHeatmapJson = (matrix: number[][]): string =>
+  JSON.stringify(matrix.map((counts, weekday) => ({ weekday: WEEKDAY_LABELS[weekday], counts })), null, 2) + '\n';
+
+// Format rows as a plain-text table with a total line
+export const formatStatsTable = (rows: StatRow[]): string => {
+  const total = rows.reduce((sum, row) => sum + row.count, 0);
+  const body = rows.map(row => [row.label, row.count.toString(), `${row.percentage.toFixed(1)}%`]);
+  const header = ['Label', 'Count', '%'];
+  const footer = ['Total', total.toString(), total > 0 ? '100.0%' : '0.0%'];
+  const widths = header.map((h, col) =>
+    Math.max(h.length, footer[col].length, ...body.map(cells => cells[col].length))
+  );
+  const formatLine = (cells: string[]) =>
+    cells.map((cell, col) => (col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col]))).join('  ');
+  const separator = widths.map(w => '-'.repeat(w)).join('  ');
+  return [formatLine(header), separator, ...body.map(formatLine), separator, formatLine(footer)].join('\n') + '\n';
+};
+
+// EXIF fields included in the per-photo export, in column order
+export const PHOTO_EXPORT_FIELDS: (keyof ExifData)[] = [
+  'Make',
+  'Model',
+  'LensModel',
+  'FocalLength',
+  'FocalLengthIn35mmFormat',
+  'FNumber',
+  'ExposureTime',
+  'ISOSpeedRatings',
+  'DateTimeOriginal',
+  'OffsetTimeOriginal',
+  'ExposureCompensation',
+  'ExposureProgram',
+  'ExposureMode',
+  'MeteringMode',
+  'Flash',
+  'WhiteBalance',
+  'Orientation',
+  'ExifImageWidth',
+  'ExifImageHeight',
+  'BodySerialNumber',
+  'LensSerialNumber',
+  'Software',
+  'GPSLatitude',
+  'GPSLongitude',
+  'GPSAltitude',
+];
+
+// One exported photo: file location, EXIF fields and the computed equivalent focal length
+export type PhotoRow = {
+  filename: string;
+  folderPath: string;
+  EquivalentFocalLength?: number;
+} & { [field: string]: string | number | undefined };
+
+export const PHOTO_EXPORT_COLUMNS = ['filename', 'folderPath', ...PHOTO_EXPORT_FIELDS, 'EquivalentFocalLength'];
+
+// Flatten photos into exportable rows; capture times keep the camera's wall-clock time
+export const toPhotoRows = (
+  photos: PhotoData[],
+  cropFactors: CropFactorMap,
+  lensFactorRules: LensFactorRule[] = []
+): PhotoRow[] =>
+  photos.map(photo => {
+    const row: PhotoRow = { filename: photo.filename, folderPath: photo.folderPath };
+    PHOTO_EXPORT_FIELDS.forEach(field => {
+      const value = photo.exif[field];
+      row[field] = value instanceof Date ? formatWallClock(value) : value;
+    });
+    row.EquivalentFocalLength = getEquivalentFocalLength(photo, cropFactors, lensFactorRules);
+    return row;
+  });
+
+// Format photo rows as CSV
+export const formatPhotosCsv = (rows: PhotoRow[]): string => formatCsv(PHOTO_EXPORT_COLUMNS, rows);
+
+// Format photo rows as JSON
+export const formatPhotosJson = (rows: PhotoRow[]): string => JSON.stringify(rows, null, 2) + '\n';
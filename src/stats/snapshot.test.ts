@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { LensFactorRule } from '../cameraData';
+import { getChangedSettings, mergeLensFactorRules, mergeNameRules, type SnapshotSettings } from './snapshot';
+
+describe('snapshot merging', () => {
+  const local: LensFactorRule[] = [
+    { id: 'sony-dt', lens: '/^DT /', factor: 1.5, mode: 'replace' },
+    { id: 'booster', lens: 'Speed Booster', factor: 0.71, mode: 'multiply' },
+  ];
+
+  it('keeps local lens rules, replaces the same lens and body and appends the rest', () => {
+    const merged = mergeLensFactorRules(local, [
+      { id: 'x', lens: 'Speed Booster', factor: 0.64, mode: 'multiply' },
+      { id: 'sony-dt', lens: '/^DT /', model: 'ILCE-7M4', factor: 1.5, mode: 'replace' },
+    ]);
+    expect(merged).toEqual([
+      local[0],
+      { id: 'booster', lens: 'Speed Booster', factor: 0.64, mode: 'multiply' },
+      { id: 'sony-dt-2', lens: '/^DT /', model: 'ILCE-7M4', factor: 1.5, mode: 'replace' },
+    ]);
+  });
+
+  it('leaves the local rules alone when the snapshot has none', () => {
+    expect(mergeLensFactorRules(local, undefined)).toBe(local);
+    expect(mergeNameRules([], [{ id: 'a', field: 'model', match: 'ILCE-7M4', name: 'α7 IV' }])).toHaveLength(1);
+  });
+
+  it('lists only the settings that differ', () => {
+    const current: SnapshotSettings = {
+      groupBy: 'FocalLength',
+      focalLengthMode: 'continuous',
+      focalLengthRanges: '14-23, 24-70, other',
+      exposureMode: 'preset',
+      apertureScale: 'full',
+      timeView: 'month',
+      duplicatePolicy: 'frame',
+    };
+    expect(getChangedSettings({ groupBy: 'FocalLength', timeView: 'year' }, current)).toEqual({ timeView: 'year' });
+    expect(getChangedSettings({}, current)).toEqual({});
+  });
+});
@@ -0,0 +1,311 @@
+// src/stats/snapshot.ts
+import type { CropFactorMap, LensFactorRule } from '../cameraData';
+import { GROUP_BY_FIELDS, type ExifData, type FocalLengthMode, type GroupByField, type PhotoData } from './types';
+import type { ApertureScale, ExposureBucketMode } from './exposure';
+import type { NameRule } from './names';
+import { DUPLICATE_POLICIES, type DuplicatePolicy } from './duplicates';
+import { formatWallClock, toWallClockDate, type TimeGranularity } from './timeline';
+
+/*
+ * Library snapshot: a JSON file with the photo metadata (never the photos themselves),
+ * folder list, crop factors and analysis settings, so statistics can be shared.
+ * Bump SNAPSHOT_VERSION when the format changes and keep parseSnapshot able to read
+ * older versions.
+ */
+
+export const SNAPSHOT_FORMAT = 'photo-exif-stats-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+// Analysis settings stored in a snapshot
+export interface SnapshotSettings {
+  groupBy: GroupByField;
+  focalLengthMode: FocalLengthMode;
+  focalLengthRanges: string;
+  exposureMode: ExposureBucketMode;
+  apertureScale: ApertureScale;
+  timeView: TimeGranularity | 'heatmap';
+  duplicatePolicy: DuplicatePolicy;
+}
+
+// A photo as stored in the file: dates become wall-clock strings
+type SnapshotExif = Omit<ExifData, 'DateTimeOriginal'> & { DateTimeOriginal?: string };
+
+interface SnapshotPhoto {
+  id: string;
+  filename: string;
+  folderPath: string;
+  exif: SnapshotExif;
+  contentHash?: string;
+}
+
+// The JSON document written to disk
+export interface SnapshotFile {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  createdAt: string;
+  anonymized: boolean;
+  folders: string[];
+  cropFactors: CropFactorMap;
+  lensFactorRules?: LensFactorRule[];
+  nameRules?: NameRule[];
+  settings: SnapshotSettings;
+  photos: SnapshotPhoto[];
+}
+
+// A snapshot read back into memory
+export interface Snapshot {
+  createdAt: string;
+  anonymized: boolean;
+  folders: string[];
+  cropFactors: CropFactorMap;
+  // Absent in snapshots written before lens rules existed
+  lensFactorRules?: LensFactorRule[];
+  nameRules?: NameRule[];
+  settings: Partial<SnapshotSettings>;
+  photos: PhotoData[];
+}
+
+// Replace folder names with stable placeholders, keeping the folder hierarchy
+const createFolderAnonymizer = () => {
+  const names = new Map<string, string>();
+  return (folderPath: string): string => {
+    const segments = folderPath.split('/');
+    return segments.map((_, i) => {
+      const prefix = segments.slice(0, i + 1).join('/');
+      if (!names.has(prefix)) {
+        names.set(prefix, `folder-${names.size + 1}`);
+      }
+      return names.get(prefix)!;
+    }).join('/');
+  };
+};
+
+// Replace a file name with a numbered placeholder, keeping the extension
+const createFilenameAnonymizer = () => {
+  const basenames = new Map<string, string>();
+  return (filename: string): string => {
+    const dot = filename.lastIndexOf('.');
+    const extension = dot > 0 ? filename.slice(dot) : '';
+    // RAW and JPEG files of one frame share a basename, so they keep sharing one
+    const basename = (dot > 0 ? filename.slice(0, dot) : filename).toLowerCase();
+    if (!basenames.has(basename)) {
+      basenames.set(basename, `photo-${(basenames.size + 1).toString().padStart(6, '0')}`);
+    }
+    return `${basenames.get(basename)}${extension}`;
+  };
+};
+
+// Replace serial numbers with numbered placeholders, so bodies stay apart without being identifiable
+const createSerialAnonymizer = () => {
+  const serials = new Map<string, string>();
+  return (serial: string | undefined): string | undefined => {
+    if (!serial) return undefined;
+    if (!serials.has(serial)) {
+      serials.set(serial, `serial-${serials.size + 1}`);
+    }
+    return serials.get(serial);
+  };
+};
+
+// Build a snapshot document; anonymize replaces file names, folder paths, ids and serial numbers
+// and drops GPS positions and content hashes
+export const createSnapshot = (
+  photos: PhotoData[],
+  cropFactors: CropFactorMap,
+  settings: SnapshotSettings,
+  { anonymize = false, lensFactorRules, nameRules }: {
+    anonymize?: boolean;
+    lensFactorRules?: LensFactorRule[];
+    nameRules?: NameRule[];
+  } = {}
+): SnapshotFile => {
+  const anonymizeFolder = createFolderAnonymizer();
+  const anonymizeSerial = createSerialAnonymizer();
+  const anonymizeFilename = createFilenameAnonymizer();
+  const snapshotPhotos = photos.map((photo, index): SnapshotPhoto => {
+    const { DateTimeOriginal, ...exif } = photo.exif;
+    if (anonymize) {
+      exif.BodySerialNumber = anonymizeSerial(exif.BodySerialNumber);
+      exif.LensSerialNumber = anonymizeSerial(exif.LensSerialNumber);
+      delete exif.GPSLatitude;
+      delete exif.GPSLongitude;
+      delete exif.GPSAltitude;
+    }
+    return {
+      id: anonymize ? `photo-${index + 1}` : photo.id,
+      filename: anonymize ? anonymizeFilename(photo.filename) : photo.filename,
+      folderPath: anonymize ? anonymizeFolder(photo.folderPath) : photo.folderPath,
+      // A hash of the file's first bytes could identify it
+      contentHash: anonymize ? undefined : photo.contentHash,
+      exif: {
+        ...exif,
+        DateTimeOriginal: DateTimeOriginal ? formatWallClock(DateTimeOriginal).replace(' ', 'T') : undefined,
+      },
+    };
+  });
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    anonymized: anonymize,
+    folders: Array.from(new Set(snapshotPhotos.map(p => p.folderPath))).sort(),
+    cropFactors,
+    lensFactorRules,
+    nameRules,
+    settings,
+    photos: snapshotPhotos,
+  };
+};
+
+/*
+ * Merge the rules of an imported snapshot into the local ones, the way crop factors are merged:
+ * a snapshot rule for the same lens and body (or the same name match) takes the place of the
+ * local one, and other snapshot rules are added after the local rules.
+ */
+const mergeRules = <T extends { id: string }>(local: T[], incoming: T[] | undefined, keyOf: (rule: T) => string): T[] => {
+  if (!incoming) return local;
+  const merged = [...local];
+  incoming.forEach(rule => {
+    const index = merged.findIndex(existing => keyOf(existing) === keyOf(rule));
+    if (index >= 0) {
+      merged[index] = { ...rule, id: merged[index].id };
+      return;
+    }
+    // Keep ids unique, e.g. when both sides edited a built-in rule
+    let id = rule.id;
+    for (let n = 2; merged.some(existing => existing.id === id); n++) id = `${rule.id}-${n}`;
+    merged.push({ ...rule, id });
+  });
+  return merged;
+};
+
+export const mergeLensFactorRules = (local: LensFactorRule[], incoming: LensFactorRule[] | undefined): LensFactorRule[] =>
+  mergeRules(local, incoming, rule => `${rule.model ?? ''}|${rule.lens}`);
+
+export const mergeNameRules = (local: NameRule[], incoming: NameRule[] | undefined): NameRule[] =>
+  mergeRules(local, incoming, rule => `${rule.field}|${rule.match}`);
+
+// The settings of a snapshot that differ from the current ones
+export const getChangedSettings = (
+  settings: Partial<SnapshotSettings>,
+  current: SnapshotSettings
+): Partial<SnapshotSettings> =>
+  Object.fromEntries(Object.entries(settings).filter(([key, value]) =>
+    value !== undefined && value !== current[key as keyof SnapshotSettings]));
+
+// Serialize a snapshot document
+export const formatSnapshot = (snapshot: SnapshotFile): string => JSON.stringify(snapshot) + '\n';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Keep only string and finite number fields of the stored EXIF
+const readExif = (value: unknown): ExifData => {
+  if (!isRecord(value)) return {};
+  const exif: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, fieldValue]) => {
+    if (key === 'DateTimeOriginal') {
+      exif.DateTimeOriginal = toWallClockDate(fieldValue);
+    } else if (typeof fieldValue === 'string' || (typeof fieldValue === 'number' && Number.isFinite(fieldValue))) {
+      exif[key] = fieldValue;
+    }
+  });
+  return exif as ExifData;
+};
+
+// Keep only well-formed lens rules
+const readLensFactorRules = (value: unknown): LensFactorRule[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter(isRecord).flatMap((rule, index): LensFactorRule[] => {
+    if (typeof rule.lens !== 'string' || typeof rule.factor !== 'number' || !(rule.factor > 0)) return [];
+    return [{
+      id: typeof rule.id === 'string' ? rule.id : `rule-${index + 1}`,
+      lens: rule.lens,
+      model: typeof rule.model === 'string' && rule.model ? rule.model : undefined,
+      factor: rule.factor,
+      mode: rule.mode === 'multiply' ? 'multiply' : 'replace',
+      label: typeof rule.label === 'string' && rule.label ? rule.label : undefined,
+    }];
+  });
+};
+
+// Keep only well-formed name rules
+const readNameRules = (value: unknown): NameRule[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter(isRecord).flatMap((rule, index): NameRule[] => {
+    if ((rule.field !== 'model' && rule.field !== 'lens') || typeof rule.match !== 'string' || typeof rule.name !== 'string') {
+      return [];
+    }
+    return [{ id: typeof rule.id === 'string' ? rule.id : `name-${index + 1}`, field: rule.field, match: rule.match, name: rule.name }];
+  });
+};
+
+// Keep only the settings with known values
+const readSettings = (value: unknown): Partial<SnapshotSettings> => {
+  if (!isRecord(value)) return {};
+  const pick = <T extends string>(key: string, choices: readonly T[]): T | undefined =>
+    choices.includes(value[key] as T) ? value[key] as T : undefined;
+  const settings: Partial<SnapshotSettings> = {
+    groupBy: pick('groupBy', GROUP_BY_FIELDS),
+    focalLengthMode: pick('focalLengthMode', ['range', 'continuous'] as const),
+    focalLengthRanges: typeof value.focalLengthRanges === 'string' ? value.focalLengthRanges : undefined,
+    exposureMode: pick('exposureMode', ['preset', 'continuous'] as const),
+    apertureScale: pick('apertureScale', ['full', 'third'] as const),
+    timeView: pick('timeView', ['day', 'month', 'year', 'heatmap'] as const),
+    duplicatePolicy: pick('duplicatePolicy', DUPLICATE_POLICIES),
+  };
+  Object.keys(settings).forEach(key => {
+    if (settings[key as keyof SnapshotSettings] === undefined) {
+      delete settings[key as keyof SnapshotSettings];
+    }
+  });
+  return settings;
+};
+
+// Parse and validate a snapshot file; throws with a readable message when the file is not usable
+export const parseSnapshot = (text: string): Snapshot => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('快照檔案不是有效的 JSON。');
+  }
+  if (!isRecord(data) || data.format !== SNAPSHOT_FORMAT) {
+    throw new Error('這不是照片 EXIF 統計快照檔案。');
+  }
+  if (typeof data.version !== 'number' || data.version > SNAPSHOT_VERSION) {
+    throw new Error(`不支援的快照版本 ${String(data.version)}，請更新此工具。`);
+  }
+  if (!Array.isArray(data.photos)) {
+    throw new Error('快照檔案缺少照片資料。');
+  }
+
+  const photos = data.photos.filter(isRecord).map((photo, index): PhotoData => ({
+    id: typeof photo.id === 'string' ? photo.id : `photo-${index + 1}`,
+    source: 'snapshot',
+    filename: typeof photo.filename === 'string' ? photo.filename : '',
+    folderPath: typeof photo.folderPath === 'string' ? photo.folderPath : '',
+    exif: readExif(photo.exif),
+    contentHash: typeof photo.contentHash === 'string' ? photo.contentHash : undefined,
+  }));
+
+  const cropFactors: CropFactorMap = {};
+  if (isRecord(data.cropFactors)) {
+    Object.entries(data.cropFactors).forEach(([model, factor]) => {
+      if (typeof factor === 'number' && factor > 0) {
+        cropFactors[model] = factor;
+      }
+    });
+  }
+
+  return {
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+    anonymized: data.anonymized === true,
+    folders: Array.isArray(data.folders) ? data.folders.filter((f): f is string => typeof f === 'string') : [],
+    cropFactors,
+    lensFactorRules: readLensFactorRules(data.lensFactorRules),
+    nameRules: readNameRules(data.nameRules),
+    settings: readSettings(data.settings),
+    photos,
+  };
+};
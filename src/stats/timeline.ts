@@ -0,0 +1,108 @@
+// src/stats/timeline.ts
+
+// Time granularity for timeline charts
+export type TimeGranularity = 'day' | 'month' | 'year';
+
+export const WEEKDAY_LABELS = ['日', '一', '二', '三', '四', '五', '六'];
+
+/*
+ * Capture times are stored as "wall-clock" dates: the UTC fields of the Date hold
+ * the time exactly as the camera recorded it. EXIF DateTimeOriginal has no timezone
+ * (OffsetTimeOriginal is optional), so reading it through the browser's local
+ * timezone would shift photos taken elsewhere. Always read them with getUTC*().
+ */
+
+// Convert an EXIF date (exifr Date built in local time, or a raw "YYYY:MM:DD HH:MM:SS" string) to a wall-clock date
+export const toWallClockDate = (value: unknown): Date | undefined => {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return undefined;
+    // exifr builds the Date with the local-time constructor, so its local fields are the EXIF fields
+    return new Date(Date.UTC(
+      value.getFullYear(), value.getMonth(), value.getDate(),
+      value.getHours(), value.getMinutes(), value.getSeconds()
+    ));
+  }
+  if (typeof value === 'string') {
+    const match = value.trim().match(/^(\d{4})[:-](\d{2})[:-](\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+    if (!match) return undefined;
+    const [, y, mo, d, h = '0', mi = '0', s = '0'] = match;
+    const date = new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)));
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+};
+
+// Normalize an EXIF offset like "+08:00" and drop anything malformed
+export const parseExifOffset = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const match = value.trim().match(/^([+-])(\d{2}):?(\d{2})$/);
+  return match ? `${match[1]}${match[2]}:${match[3]}` : undefined;
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Format a wall-clock date as "YYYY-MM-DD HH:mm:ss" (no timezone, since none is implied)
+export const formatWallClock = (date: Date): string =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} ` +
+  `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+
+// Build the bucket label of a wall-clock date
+export const formatTimeBucket = (date: Date, granularity: TimeGranularity): string => {
+  const year = date.getUTCFullYear().toString();
+  if (granularity === 'year') return year;
+  const month = `${year}-${pad(date.getUTCMonth() + 1)}`;
+  if (granularity === 'month') return month;
+  return `${month}-${pad(date.getUTCDate())}`;
+};
+
+// Move a wall-clock date to the start of the next bucket
+const nextBucketStart = (date: Date, granularity: TimeGranularity): Date => {
+  const y = date.getUTCFullYear();
+  const m = date.getUTCMonth();
+  const d = date.getUTCDate();
+  switch (granularity) {
+    case 'year':
+      return new Date(Date.UTC(y + 1, 0, 1));
+    case 'month':
+      return new Date(Date.UTC(y, m + 1, 1));
+    case 'day':
+      return new Date(Date.UTC(y, m, d + 1));
+  }
+};
+
+// Count photos per day, month or year, keeping empty buckets so gaps in the timeline stay visible
+export const bucketByTime = (
+  dates: Date[],
+  granularity: TimeGranularity
+): { labels: string[]; counts: { [label: string]: number } } => {
+  const counts: { [label: string]: number } = {};
+  if (dates.length === 0) {
+    return { labels: [], counts };
+  }
+  const times = dates.map(d => d.getTime());
+  const first = new Date(Math.min(...times));
+  const last = formatTimeBucket(new Date(Math.max(...times)), granularity);
+
+  const labels: string[] = [];
+  let cursor = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), first.getUTCDate()));
+  for (;;) {
+    const label = formatTimeBucket(cursor, granularity);
+    labels.push(label);
+    counts[label] = 0;
+    if (label === last) break;
+    cursor = nextBucketStart(cursor, granularity);
+  }
+  dates.forEach(date => {
+    counts[formatTimeBucket(date, granularity)]++;
+  });
+  return { labels, counts };
+};
+
+// Count photos in a weekday (rows, Sunday first) × hour-of-day (columns) matrix
+export const buildHourWeekdayMatrix = (dates: Date[]): number[][] => {
+  const matrix = WEEKDAY_LABELS.map(() => new Array<number>(24).fill(0));
+  dates.forEach(date => {
+    matrix[date.getUTCDay()][date.getUTCHours()]++;
+  });
+  return matrix;
+};
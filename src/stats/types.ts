@@ -0,0 +1,86 @@
+// src/stats/types.ts
+
+// Define TypeScript interfaces for EXIF data and photo structure
+export interface ExifData {
+  Make?: string;
+  Model?: string;
+  LensModel?: string;
+  ExposureTime?: number;
+  FNumber?: number;
+  ISOSpeedRatings?: number;
+  DateTimeOriginal?: Date; // Wall-clock capture time, read with getUTC*() (see timeline.ts)
+  OffsetTimeOriginal?: string;
+  FocalLength?: number;
+  FocalLengthIn35mmFormat?: number;
+  // Pixel size of the full image and the sensor's pixels per FocalPlaneResolutionUnit, used to infer crop factors
+  ExifImageWidth?: number;
+  ExifImageHeight?: number;
+  FocalPlaneXResolution?: number;
+  FocalPlaneYResolution?: number;
+  // Millimetres per focal plane resolution unit (25.4 for inches)
+  FocalPlaneResolutionUnit?: number;
+  ExposureCompensation?: number; // EV
+  ExposureProgram?: string;
+  ExposureMode?: string;
+  MeteringMode?: string;
+  Flash?: 'Fired' | 'Did not fire';
+  WhiteBalance?: string;
+  Orientation?: string;
+  BodySerialNumber?: string;
+  LensSerialNumber?: string;
+  Software?: string;
+  // Decimal degrees, negative for south and west; altitude in metres
+  GPSLatitude?: number;
+  GPSLongitude?: number;
+  GPSAltitude?: number;
+}
+
+// Define the structure for photo data
+export interface PhotoData {
+  id: string;
+  source: 'local' | 'synology' | 'webdav' | 'snapshot';
+  filename: string;
+  exif: ExifData;
+  folderPath: string;
+  // File size and hash of the first bytes (see duplicates.ts), when the source could read the file
+  contentHash?: string;
+}
+
+// Categorical EXIF dimensions, each both a grouping and a filter (see fields.ts)
+export type ExifCategoryField =
+  | 'ExposureCompensation'
+  | 'ExposureProgram'
+  | 'ExposureMode'
+  | 'MeteringMode'
+  | 'Flash'
+  | 'WhiteBalance'
+  | 'Orientation'
+  | 'ImageSize'
+  | 'BodySerialNumber'
+  | 'LensSerialNumber'
+  | 'Software'
+  | 'GPS'
+  | 'MediaType';
+
+export const EXIF_CATEGORY_FIELDS: ExifCategoryField[] = [
+  'ExposureCompensation', 'ExposureProgram', 'ExposureMode', 'MeteringMode', 'Flash', 'WhiteBalance',
+  'Orientation', 'ImageSize', 'BodySerialNumber', 'LensSerialNumber', 'Software', 'GPS', 'MediaType',
+];
+
+// Fields that can be used to group the statistics
+export type GroupByField =
+  | 'Model'
+  | 'LensModel'
+  | 'FocalLength'
+  | 'FNumber'
+  | 'ExposureTime'
+  | 'ISOSpeedRatings'
+  | 'DateTimeOriginal'
+  | ExifCategoryField;
+
+export const GROUP_BY_FIELDS: GroupByField[] = [
+  'Model', 'LensModel', 'FocalLength', 'FNumber', 'ExposureTime', 'ISOSpeedRatings', 'DateTimeOriginal',
+  ...EXIF_CATEGORY_FIELDS,
+];
+
+export type FocalLengthMode = 'range' | 'continuous';
@@ -0,0 +1,202 @@
+// src/synology.ts
+// Browser side of the Synology source (Synology Photos or Photo Station): calls the /api/synology proxy and maps items to PhotoData.
+import type { ExifData, PhotoData } from './stats';
+
+// Album and folder shapes returned by the proxy (see server/synology.ts); Photo Station ids are strings
+export type SynologyId = number | string;
+
+export interface SynologyAlbum {
+  id: SynologyId;
+  name: string;
+  itemCount: number;
+}
+
+export interface SynologyFolder {
+  id: SynologyId;
+  name: string;
+}
+
+// An album or folder chosen for import
+export type SynologyContainer =
+  | { kind: 'album'; id: SynologyId; name: string }
+  | { kind: 'folder'; id: SynologyId; name: string };
+
+// The photo application the proxy found on the NAS
+export type SynologyBackend = 'photos' | 'photostation';
+
+interface SynologyItem {
+  id: SynologyId;
+  filename: string;
+  time?: number;
+  additional?: {
+    exif?: {
+      camera?: string;
+      lens?: string;
+      aperture?: string | number;
+      exposure_time?: string | number;
+      focal_length?: string | number;
+      iso?: string | number;
+    };
+  };
+}
+
+// An open connection to a NAS: the proxy keeps the NAS session and hands out an opaque token
+export interface SynologySession {
+  host: string;
+  token: string;
+  backend: SynologyBackend;
+}
+
+// Proxy failure; otpRequired asks for a one-time password, expired means the session must be reopened
+export class SynologyProxyError extends Error {
+  otpRequired: boolean;
+  expired: boolean;
+
+  constructor(message: string, otpRequired = false, expired = false) {
+    super(message);
+    this.name = 'SynologyProxyError';
+    this.otpRequired = otpRequired;
+    this.expired = expired;
+  }
+}
+
+const ITEM_PAGE_SIZE = 500;
+
+// POST an action to the proxy and return its JSON, throwing with the proxy's message on failure
+const callProxy = async <T>(body: Record<string, unknown>): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch('/api/synology', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new SynologyProxyError('無法連線到後端伺服器。');
+  }
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new SynologyProxyError(
+      data?.message || `後端伺服器回應 HTTP ${response.status}。`,
+      data?.otpRequired === true,
+      data?.expired === true
+    );
+  }
+  return data as T;
+};
+
+// Device ids from "trust this device" logins, so later logins from this browser skip the OTP
+const deviceIdKey = (host: string, account: string) => `synology-device:${host}|${account}`;
+
+// Log in to the NAS; otpCode answers a two-factor challenge, trustDevice remembers this browser
+export const connectSynology = async (
+  host: string,
+  account: string,
+  password: string,
+  { otpCode, trustDevice = false }: { otpCode?: string; trustDevice?: boolean } = {}
+): Promise<SynologySession> => {
+  const normalizedHost = host.trim().replace(/\/+$/, '');
+  const storedDeviceId = localStorage.getItem(deviceIdKey(normalizedHost, account)) || undefined;
+  const { token, backend, deviceId } = await callProxy<{ token: string; backend: SynologyBackend; deviceId?: string }>({
+    action: 'login',
+    host: normalizedHost,
+    account,
+    password,
+    otpCode,
+    deviceId: storedDeviceId,
+    trustDevice,
+  });
+  if (deviceId) {
+    localStorage.setItem(deviceIdKey(normalizedHost, account), deviceId);
+  }
+  return { host: normalizedHost, token, backend };
+};
+
+// Log out and end the proxy session; errors are ignored since the session expires anyway
+export const disconnectSynology = async (session: SynologySession): Promise<void> => {
+  await callProxy({ action: 'logout', token: session.token }).catch(() => undefined);
+};
+
+export const listSynologyAlbums = async (session: SynologySession): Promise<SynologyAlbum[]> =>
+  (await callProxy<{ albums: SynologyAlbum[] }>({ action: 'albums', token: session.token })).albums;
+
+// List the subfolders of a folder, or of the root folder
+export const listSynologyFolders = async (session: SynologySession, parentId?: SynologyId): Promise<SynologyFolder[]> =>
+  (await callProxy<{ folders: SynologyFolder[] }>({ action: 'folders', token: session.token, parentId })).folders;
+
+// Read the first number in a Synology display string such as "f/2.8", "35 mm" or "ISO 400"
+const parseNumber = (value: string | number | undefined): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  const match = value?.match(/\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : undefined;
+};
+
+// Exposure times come as "1/250 s" or "2 s"
+const parseExposureTime = (value: string | number | undefined): number | undefined => {
+  if (typeof value === 'string') {
+    const fraction = value.match(/(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)/);
+    if (fraction) return Number(fraction[1]) / Number(fraction[2]);
+  }
+  return parseNumber(value);
+};
+
+// Map the EXIF summary of a Synology Photos item to the fields used by the statistics
+export const toSynologyExifData = (item: SynologyItem): ExifData => {
+  const exif = item.additional?.exif ?? {};
+  return {
+    Model: exif.camera || undefined,
+    LensModel: exif.lens || undefined,
+    FNumber: parseNumber(exif.aperture),
+    ExposureTime: parseExposureTime(exif.exposure_time),
+    ISOSpeedRatings: parseNumber(exif.iso),
+    // Synology stores the camera's local time as if it were UTC, which is exactly a wall-clock date
+    DateTimeOriginal: typeof item.time === 'number' ? new Date(item.time * 1000) : undefined,
+    FocalLength: parseNumber(exif.focal_length),
+  };
+};
+
+// Folder path of a container in the library, rooted at the NAS host name
+export const getSynologyRootName = (host: string): string => {
+  try {
+    return new URL(host).hostname;
+  } catch {
+    return host;
+  }
+};
+
+export const getSynologyFolderPath = (host: string, container: SynologyContainer): string =>
+  container.kind === 'album'
+    ? `${getSynologyRootName(host)}/相簿/${container.name}`
+    : `${getSynologyRootName(host)}${container.name.startsWith('/') ? '' : '/'}${container.name}`;
+
+// Page through every item of an album or folder; onProgress receives the number of items loaded so far
+export const fetchSynologyPhotos = async (
+  session: SynologySession,
+  container: SynologyContainer,
+  onProgress?: (loaded: number) => void
+): Promise<PhotoData[]> => {
+  const folderPath = getSynologyFolderPath(session.host, container);
+  const rootName = getSynologyRootName(session.host);
+  const photos: PhotoData[] = [];
+  for (let offset = 0; ; offset += ITEM_PAGE_SIZE) {
+    const page = await callProxy<{ items: SynologyItem[]; hasMore: boolean }>({
+      action: 'items',
+      token: session.token,
+      ...(container.kind === 'album' ? { albumId: container.id } : { folderId: container.id }),
+      offset,
+      limit: ITEM_PAGE_SIZE,
+    });
+    page.items.forEach(item => {
+      // Ids include the container: a photo in two albums belongs to both album folders
+      photos.push({
+        id: `synology:${rootName}:${container.kind}-${container.id}:${item.id}`,
+        source: 'synology',
+        filename: item.filename,
+        exif: toSynologyExifData(item),
+        folderPath,
+      });
+    });
+    onProgress?.(photos.length);
+    if (!page.hasMore) return photos;
+  }
+};
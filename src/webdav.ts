@@ -0,0 +1,213 @@
+// src/webdav.ts
+// WebDAV / Nextcloud source: lists folders with PROPFIND and reads EXIF with HTTP Range requests.
+import exifr from 'exifr';
+import {
+  EXIFR_OPTIONS,
+  readMediaMetadata,
+  toExifData,
+  type ByteSource,
+  type PhotoData,
+  type ScanFailure,
+} from './stats';
+
+// A WebDAV share: the URL of its root collection plus optional Basic credentials.
+// For Nextcloud the URL is https://<server>/remote.php/dav/files/<user>/ with an app password.
+export interface WebDavConnection {
+  url: string;
+  username: string;
+  password: string;
+}
+
+// A file or folder of the share; path is decoded and relative to the share root, e.g. "/2024/Japan"
+export interface WebDavEntry {
+  path: string;
+  name: string;
+  isDirectory: boolean;
+  size?: number;
+}
+
+// Failure talking to the share; status is the HTTP status, when there was a response
+export class WebDavError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'WebDavError';
+    this.status = status;
+  }
+}
+
+// Files whose EXIF is read at a time; each one costs a request or two
+const READ_CONCURRENCY = 4;
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/><d:getcontentlength/></d:prop></d:propfind>`;
+
+// The share URL with exactly one trailing slash, so relative paths resolve below it
+const rootUrl = (connection: WebDavConnection): URL => new URL(connection.url.trim().replace(/\/*$/, '/'));
+
+// URL of a path below the share root, encoding each segment
+const entryUrl = (connection: WebDavConnection, path: string): string =>
+  new URL(path.split('/').filter(Boolean).map(encodeURIComponent).join('/'), rootUrl(connection)).href;
+
+// Decoded path segments of an encoded URL path
+const decodeSegments = (encodedPath: string): string[] =>
+  encodedPath.split('/').filter(Boolean).map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+
+const authHeaders = (connection: WebDavConnection): Record<string, string> => {
+  if (!connection.username) return {};
+  // btoa only takes Latin-1, so encode the credentials as UTF-8 first
+  const bytes = new TextEncoder().encode(`${connection.username}:${connection.password}`);
+  return { Authorization: `Basic ${btoa(String.fromCharCode(...bytes))}` };
+};
+
+const describeStatus = (status: number): string => {
+  if (status === 401) return '帳號或密碼錯誤。';
+  if (status === 403) return '沒有權限讀取這個資料夾。';
+  if (status === 404) return '找不到這個資料夾，請檢查 WebDAV 位址。';
+  return `WebDAV 伺服器回應 HTTP ${status}。`;
+};
+
+// Read the immediate children of a folder with a Depth: 1 PROPFIND
+export const listWebDavDirectory = async (connection: WebDavConnection, path = ''): Promise<WebDavEntry[]> => {
+  const url = entryUrl(connection, path);
+  let response: Response;
+  try {
+    response = await fetch(url.endsWith('/') ? url : `${url}/`, {
+      method: 'PROPFIND',
+      headers: { ...authHeaders(connection), Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+      body: PROPFIND_BODY,
+    });
+  } catch {
+    // Browsers report CORS rejections as network errors
+    throw new WebDavError('無法連線到 WebDAV 伺服器，請檢查位址，以及伺服器是否允許這個網頁的跨來源 (CORS) 請求。');
+  }
+  if (response.status !== 207) {
+    throw new WebDavError(describeStatus(response.status), response.status);
+  }
+
+  const document = new DOMParser().parseFromString(await response.text(), 'application/xml');
+  const rootPath = rootUrl(connection).pathname;
+  const folderPath = `/${path.split('/').filter(Boolean).join('/')}`;
+  const entries: WebDavEntry[] = [];
+  Array.from(document.getElementsByTagNameNS('DAV:', 'response')).forEach(response => {
+    const href = response.getElementsByTagNameNS('DAV:', 'href')[0]?.textContent;
+    if (!href) return;
+    // hrefs may be absolute URLs or server paths; make them relative to the share root
+    const serverPath = new URL(href, rootUrl(connection)).pathname;
+    if (!serverPath.startsWith(rootPath.replace(/\/$/, ''))) return;
+    const segments = decodeSegments(serverPath.slice(rootPath.length));
+    const entryPath = `/${segments.join('/')}`;
+    // The folder itself is part of a Depth: 1 answer
+    if (entryPath === folderPath) return;
+    const resourceType = response.getElementsByTagNameNS('DAV:', 'resourcetype')[0];
+    const size = Number(response.getElementsByTagNameNS('DAV:', 'getcontentlength')[0]?.textContent);
+    entries.push({
+      path: entryPath,
+      name: segments[segments.length - 1] || entryPath,
+      isDirectory: !!resourceType && resourceType.getElementsByTagNameNS('DAV:', 'collection').length > 0,
+      size: Number.isFinite(size) ? size : undefined,
+    });
+  });
+  return entries.sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.name.localeCompare(b.name));
+};
+
+// Folder path of a share path in the library: the server host followed by the full remote path
+export const getWebDavFolderPath = (connection: WebDavConnection, path: string): string => {
+  const root = rootUrl(connection);
+  const segments = [...decodeSegments(root.pathname), ...path.split('/').filter(Boolean)];
+  return [root.host, ...segments].join('/');
+};
+
+// Bytes of a file fetched with Range requests, for videos and RAF files
+const rangeByteSource = (connection: WebDavConnection, path: string, size: number): ByteSource => ({
+  size,
+  read: async (offset, length) => {
+    const end = Math.min(offset + length, size) - 1;
+    if (end < offset) return new Uint8Array(0);
+    const response = await fetch(entryUrl(connection, path), {
+      headers: { ...authHeaders(connection), Range: `bytes=${offset}-${end}` },
+    });
+    if (!response.ok) throw new WebDavError(describeStatus(response.status), response.status);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    // A server that ignores Range sends the whole file
+    return response.status === 206 ? bytes : bytes.subarray(offset, end + 1);
+  },
+});
+
+// Parse the EXIF of one file; exifr fetches the URL in 64 KB Range requests and stops once it has the header.
+// httpHeaders is read by exifr's URL reader although its type definitions omit it.
+const readWebDavExif = async (connection: WebDavConnection, file: WebDavEntry) => {
+  const options = { ...EXIFR_OPTIONS, httpHeaders: authHeaders(connection) };
+  const source = rangeByteSource(connection, file.path, file.size ?? 0);
+  return readMediaMetadata(file.name, source, async embedded =>
+    toExifData(await exifr.parse(embedded ?? entryUrl(connection, file.path), options)));
+};
+
+export interface WebDavImportProgress {
+  // Folders listed so far while looking for images
+  foldersListed: number;
+  filesFound: number;
+  filesRead: number;
+}
+
+// Find the images of a folder (and its subfolders when recursive) and read their EXIF
+export const fetchWebDavPhotos = async (
+  connection: WebDavConnection,
+  path: string,
+  { recursive, isScannedFile, onProgress }: {
+    recursive: boolean;
+    // Which files to read, by name (see createFileMatcher)
+    isScannedFile: (filename: string) => boolean;
+    onProgress?: (progress: WebDavImportProgress) => void;
+  }
+): Promise<{ photos: PhotoData[]; failures: ScanFailure[] }> => {
+  const progress: WebDavImportProgress = { foldersListed: 0, filesFound: 0, filesRead: 0 };
+  const files: WebDavEntry[] = [];
+  const pending = [path];
+  while (pending.length > 0) {
+    const entries = await listWebDavDirectory(connection, pending.shift());
+    entries.forEach(entry => {
+      if (entry.isDirectory) {
+        if (recursive) pending.push(entry.path);
+      } else if (isScannedFile(entry.name)) {
+        files.push(entry);
+      }
+    });
+    progress.foldersListed += 1;
+    progress.filesFound = files.length;
+    onProgress?.({ ...progress });
+  }
+
+  const root = rootUrl(connection);
+  const photos: PhotoData[] = [];
+  const failures: ScanFailure[] = [];
+  let next = 0;
+  const readNext = async (): Promise<void> => {
+    while (next < files.length) {
+      const file = files[next++];
+      const folderPath = getWebDavFolderPath(connection, file.path.slice(0, file.path.lastIndexOf('/')));
+      try {
+        photos.push({
+          id: `webdav:${root.host}${root.pathname}${file.path.slice(1)}`,
+          source: 'webdav',
+          filename: file.name,
+          exif: await readWebDavExif(connection, file),
+          folderPath,
+        });
+      } catch (e) {
+        failures.push({ filename: file.name, folderPath, reason: e instanceof Error ? e.message : String(e) });
+      }
+      progress.filesRead += 1;
+      onProgress?.({ ...progress });
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(READ_CONCURRENCY, files.length) }, readNext));
+  return { photos, failures };
+};
@@ -0,0 +1,123 @@
+// src/workers/exifPool.ts
+import type { ExifData } from '../stats';
+
+// A file waiting to be parsed; index identifies it in the results
+export interface ExifPoolJob {
+  index: number;
+  file: File;
+}
+
+// Parsed EXIF of a job, or the reason it could not be parsed
+export type ExifPoolResult =
+  | { index: number; exif: ExifData; contentHash: string; error?: undefined }
+  | { index: number; exif?: undefined; error: string };
+
+// Messages exchanged with exifWorker.ts
+export type ExifWorkerRequest = { jobs: ExifPoolJob[] };
+export type ExifWorkerResponse =
+  | { type: 'results'; results: ExifPoolResult[] }
+  | { type: 'done' };
+
+export type ExifPoolStatus = 'completed' | 'cancelled';
+
+// Controller for a bounded-concurrency pool of EXIF workers
+export interface ExifPool {
+  run: (jobs: ExifPoolJob[], onResults: (results: ExifPoolResult[]) => void) => Promise<ExifPoolStatus>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+}
+
+// Files handed to a worker at a time; small chunks keep pause and cancel responsive
+const CHUNK_SIZE = 16;
+
+// Leave a core for the UI thread
+const defaultConcurrency = () => Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+// Create a pool of Web Workers that parse EXIF off the main thread
+export const createExifPool = (concurrency: number = defaultConcurrency()): ExifPool => {
+  let paused = false;
+  let cancelled = false;
+  let workers: Worker[] = [];
+  let dispatch = () => {};
+  let finish: (status: ExifPoolStatus) => void = () => {};
+
+  const terminateAll = () => {
+    workers.forEach(worker => worker.terminate());
+    workers = [];
+  };
+
+  const run: ExifPool['run'] = (jobs, onResults) => new Promise<ExifPoolStatus>(resolve => {
+    if (jobs.length === 0) {
+      resolve('completed');
+      return;
+    }
+    const queue = [...jobs];
+    // Jobs currently assigned to each worker, so a crashed worker can report them as failed
+    const inFlight = new Map<Worker, ExifPoolJob[]>();
+
+    finish = (status) => {
+      terminateAll();
+      resolve(status);
+    };
+
+    dispatch = () => {
+      if (cancelled || paused) return;
+      workers.forEach(worker => {
+        if (!inFlight.has(worker) && queue.length > 0) {
+          const chunk = queue.splice(0, CHUNK_SIZE);
+          inFlight.set(worker, chunk);
+          worker.postMessage({ jobs: chunk } satisfies ExifWorkerRequest);
+        }
+      });
+      if (queue.length === 0 && inFlight.size === 0) {
+        finish('completed');
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, Math.ceil(jobs.length / CHUNK_SIZE)));
+    workers = Array.from({ length: workerCount }, () => {
+      const worker = new Worker(new URL('./exifWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<ExifWorkerResponse>) => {
+        if (cancelled) return;
+        if (event.data.type === 'results') {
+          const done = new Set(event.data.results.map(r => r.index));
+          inFlight.set(worker, (inFlight.get(worker) || []).filter(job => !done.has(job.index)));
+          onResults(event.data.results);
+        } else {
+          inFlight.delete(worker);
+          dispatch();
+        }
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        if (cancelled) return;
+        const failedJobs = inFlight.get(worker) || [];
+        inFlight.delete(worker);
+        onResults(failedJobs.map(job => ({ index: job.index, error: event.message || 'Worker error' })));
+        dispatch();
+      };
+      return worker;
+    });
+
+    dispatch();
+  });
+
+  return {
+    run,
+    // Stop handing out new chunks; chunks already in a worker still finish
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      dispatch();
+    },
+    // Stop immediately; results delivered so far stay with the caller
+    cancel: () => {
+      if (cancelled) return;
+      cancelled = true;
+      finish('cancelled');
+    },
+  };
+};
@@ -0,0 +1,44 @@
+// src/workers/exifWorker.ts
+// Web Worker that parses EXIF for a chunk of files and streams results back in batches
+import exifr from 'exifr';
+import {
+  CONTENT_SAMPLE_SIZE,
+  EXIFR_OPTIONS,
+  blobByteSource,
+  readMediaMetadata,
+  toContentHash,
+  toExifData,
+} from '../stats';
+import type { ExifPoolResult, ExifWorkerRequest, ExifWorkerResponse } from './exifPool';
+
+// Number of parsed files sent back per message
+const RESULT_BATCH_SIZE = 8;
+
+const post = (message: ExifWorkerResponse) => self.postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<ExifWorkerRequest>) => {
+  const { jobs } = event.data;
+  let batch: ExifPoolResult[] = [];
+  for (const job of jobs) {
+    try {
+      // exifr reads the File in chunks, so only the header bytes it needs are loaded; videos and
+      // RAF files are read box by box the same way
+      const exif = await readMediaMetadata(job.file.name, blobByteSource(job.file), async embedded =>
+        toExifData(await exifr.parse(embedded ?? job.file, EXIFR_OPTIONS)));
+      // The sampled bytes are the ones just read, so hashing them costs no extra I/O
+      const sample = await job.file.slice(0, CONTENT_SAMPLE_SIZE).arrayBuffer();
+      const contentHash = toContentHash(job.file.size, await crypto.subtle.digest('SHA-1', sample));
+      batch.push({ index: job.index, exif, contentHash });
+    } catch (e) {
+      batch.push({ index: job.index, error: e instanceof Error ? e.message : String(e) });
+    }
+    if (batch.length >= RESULT_BATCH_SIZE) {
+      post({ type: 'results', results: batch });
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    post({ type: 'results', results: batch });
+  }
+  post({ type: 'done' });
+});
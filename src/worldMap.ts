@@ -0,0 +1,51 @@
+// src/worldMap.ts
+// Bundled Natural Earth 1:50m outlines for the map panel. The data ships with the app and is
+// loaded on first use, so the map works offline without weighing on startup.
+import { feature, mesh } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import type { CountryShape, LonLat } from './stats';
+
+export interface WorldMap {
+  countries: CountryShape[];
+  // Land polygons (outer ring, then holes) and the borders between countries, for drawing
+  land: LonLat[][][];
+  borders: LonLat[][];
+}
+
+const toPolygons = (geometry: GeoJSON.Geometry): LonLat[][][] => {
+  if (geometry.type === 'Polygon') return [geometry.coordinates as LonLat[][]];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates as LonLat[][][];
+  return [];
+};
+
+const getBbox = (polygons: LonLat[][][]): CountryShape['bbox'] => {
+  const bbox: CountryShape['bbox'] = [180, 90, -180, -90];
+  polygons.forEach(polygon => polygon[0].forEach(([lon, lat]) => {
+    bbox[0] = Math.min(bbox[0], lon);
+    bbox[1] = Math.min(bbox[1], lat);
+    bbox[2] = Math.max(bbox[2], lon);
+    bbox[3] = Math.max(bbox[3], lat);
+  }));
+  return bbox;
+};
+
+let worldPromise: Promise<WorldMap> | null = null;
+
+export const loadWorldMap = (): Promise<WorldMap> => {
+  if (!worldPromise) {
+    worldPromise = import('world-atlas/countries-50m.json').then(({ default: data }) => {
+      const topology = data as unknown as Topology<{
+        countries: GeometryCollection<{ name: string }>;
+        land: GeometryCollection;
+      }>;
+      const countries = feature(topology, topology.objects.countries).features.map(country => {
+        const polygons = toPolygons(country.geometry);
+        return { name: country.properties.name, polygons, bbox: getBbox(polygons) };
+      });
+      const land = feature(topology, topology.objects.land).features.flatMap(shape => toPolygons(shape.geometry));
+      const borders = mesh(topology, topology.objects.countries, (a, b) => a !== b).coordinates as LonLat[][];
+      return { countries, land, borders };
+    });
+  }
+  return worldPromise;
+};